@@ -3,13 +3,27 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Home from "@/pages/home";
+import KnowledgeBase from "@/pages/knowledge-base";
+import StoryBible from "@/pages/story-bible";
+import Timeline from "@/pages/timeline";
+import Graph from "@/pages/graph";
+import PromptTemplates from "@/pages/prompt-templates";
+import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home}/>
+      <ProtectedRoute path="/" component={Home}/>
+      <ProtectedRoute path="/knowledge-base" component={KnowledgeBase}/>
+      <ProtectedRoute path="/story-bible" component={StoryBible}/>
+      <ProtectedRoute path="/timeline" component={Timeline}/>
+      <ProtectedRoute path="/graph" component={Graph}/>
+      <ProtectedRoute path="/prompts" component={PromptTemplates}/>
+      <Route path="/auth" component={AuthPage}/>
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +32,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
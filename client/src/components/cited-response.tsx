@@ -0,0 +1,137 @@
+import { Fragment, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+export interface Citation {
+  marker: number;
+  id: string;
+  documentId: string;
+  category: string;
+  score: number;
+  text: string;
+  parentId?: string;
+  chunkIndex?: number;
+  startOffset?: number;
+  endOffset?: number;
+}
+
+interface SearchResult {
+  id: string;
+  score: number;
+  text: string;
+  category: string;
+  source?: { parentId: string; documentId: string; chunkIndex: number; startOffset: number; endOffset: number };
+}
+
+// While an answer is still streaming the server has not resolved its citations yet,
+// so markers are mapped to search results by position the same way the server does
+export function citationsFromResults(results: SearchResult[]): Citation[] {
+  return results.map((result, i) => ({
+    marker: i + 1,
+    id: result.id,
+    documentId: result.source?.documentId ?? result.id,
+    category: result.category,
+    score: result.score,
+    text: result.text,
+    ...result.source,
+  }));
+}
+
+interface CitedResponseProps {
+  response: string;
+  citations: Citation[];
+}
+
+// Same marker syntax the server resolves: "[1]" or "[1, 3]"
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export default function CitedResponse({ response, citations }: CitedResponseProps) {
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  const byMarker = new Map(citations.map((citation) => [citation.marker, citation]));
+
+  // Split the answer into text and marker groups; unknown markers stay as plain text
+  const parts: Array<string | number[]> = [];
+  let lastIndex = 0;
+  for (const match of Array.from(response.matchAll(MARKER_PATTERN))) {
+    const markers = match[1].split(",").map((marker) => parseInt(marker.trim(), 10));
+    if (!markers.every((marker) => byMarker.has(marker))) continue;
+    parts.push(response.slice(lastIndex, match.index), markers);
+    lastIndex = match.index! + match[0].length;
+  }
+  parts.push(response.slice(lastIndex));
+
+  const cited = citations.filter((citation) => parts.some((part) => Array.isArray(part) && part.includes(citation.marker)));
+
+  return (
+    <>
+      <div className="text-slate-100 leading-relaxed whitespace-pre-wrap" data-testid="text-chat-response">
+        {parts.map((part, i) =>
+          typeof part === "string" ? (
+            <Fragment key={i}>{part}</Fragment>
+          ) : (
+            <sup key={i} className="ml-0.5">
+              {part.map((marker) => (
+                <button
+                  key={marker}
+                  type="button"
+                  className="px-0.5 text-blue-400 hover:text-blue-300 hover:underline font-mono"
+                  onClick={() => setOpenCitation(byMarker.get(marker)!)}
+                  data-testid={`citation-marker-${marker}`}
+                >
+                  [{marker}]
+                </button>
+              ))}
+            </sup>
+          ),
+        )}
+      </div>
+
+      {cited.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-slate-700 space-y-1" data-testid="citation-footnotes">
+          {cited.map((citation) => (
+            <button
+              key={citation.marker}
+              type="button"
+              className="flex w-full items-center space-x-2 text-left text-xs text-slate-400 hover:text-slate-200"
+              onClick={() => setOpenCitation(citation)}
+              data-testid={`citation-footnote-${citation.marker}`}
+            >
+              <span className="font-mono text-blue-400">[{citation.marker}]</span>
+              <span className="truncate">
+                {citation.documentId}
+                {citation.chunkIndex !== undefined && ` · chunk ${citation.chunkIndex + 1}`}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={openCitation !== null} onOpenChange={(open) => !open && setOpenCitation(null)}>
+        <DialogContent className="max-w-2xl">
+          {openCitation && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  [{openCitation.marker}] {openCitation.documentId}
+                </DialogTitle>
+                <DialogDescription className="flex items-center space-x-2">
+                  <Badge variant="secondary" className="text-xs">{openCitation.category}</Badge>
+                  {openCitation.chunkIndex !== undefined && <span>Chunk {openCitation.chunkIndex + 1}</span>}
+                  {openCitation.startOffset !== undefined && (
+                    <span>
+                      Characters {openCitation.startOffset}–{openCitation.endOffset}
+                    </span>
+                  )}
+                  <span>Similarity {openCitation.score.toFixed(3)}</span>
+                </DialogDescription>
+              </DialogHeader>
+              <div className="max-h-96 overflow-y-auto text-sm leading-relaxed whitespace-pre-wrap" data-testid="citation-passage">
+                {openCitation.text}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle2, Loader2, ShieldCheck } from "lucide-react";
+
+type Severity = "low" | "medium" | "high";
+
+interface TextSpan {
+  start: number;
+  end: number;
+}
+
+interface ContinuityIssue {
+  claimIndex: number;
+  claim: string;
+  quote: string;
+  span: TextSpan | null;
+  severity: Severity;
+  explanation: string;
+  evidence: {
+    quote: string;
+    id: string;
+    documentId: string;
+    category: string;
+    score: number;
+    text: string;
+  };
+}
+
+interface ContinuityReport {
+  claims: Array<{ claim: string; quote: string; span: TextSpan | null; canon: unknown[] }>;
+  issues: ContinuityIssue[];
+  model: string;
+}
+
+// Retrieval settings from the Configuration sidebar, used to find the canon for each claim
+export interface ContinuitySettings {
+  topK: number;
+  threshold: number;
+  chatModel: string;
+  embeddingModel: string;
+  retrieval: { mode: string; vectorWeight: number; reranker: string; rerankCandidates: number };
+  filter?: Record<string, unknown>;
+}
+
+const SEVERITY_STYLES: Record<Severity, { mark: string; badge: string }> = {
+  high: { mark: "bg-red-500/30 border-b-2 border-red-500", badge: "bg-red-500/10 text-red-400" },
+  medium: { mark: "bg-yellow-500/20 border-b-2 border-yellow-500", badge: "bg-yellow-500/10 text-yellow-400" },
+  low: { mark: "bg-blue-500/20 border-b-2 border-blue-500", badge: "bg-blue-500/10 text-blue-400" },
+};
+
+// Split the passage into plain and highlighted runs. Issues are ranked most severe
+// first, so where spans overlap the more severe one is highlighted.
+function highlightSegments(passage: string, issues: ContinuityIssue[]) {
+  const marked: Array<{ span: TextSpan; index: number }> = [];
+  issues.forEach((issue, index) => {
+    const span = issue.span;
+    if (span && !marked.some(({ span: other }) => span.start < other.end && other.start < span.end)) {
+      marked.push({ span, index });
+    }
+  });
+  marked.sort((a, b) => a.span.start - b.span.start);
+
+  const segments: Array<{ text: string; issueIndex?: number }> = [];
+  let position = 0;
+  for (const { span, index } of marked) {
+    if (span.start > position) segments.push({ text: passage.slice(position, span.start) });
+    segments.push({ text: passage.slice(span.start, span.end), issueIndex: index });
+    position = span.end;
+  }
+  if (position < passage.length) segments.push({ text: passage.slice(position) });
+  return segments;
+}
+
+export default function ContinuityPanel({ settings }: { settings: ContinuitySettings }) {
+  const { toast } = useToast();
+  const [passage, setPassage] = useState("");
+  const [report, setReport] = useState<{ passage: string; result: ContinuityReport } | null>(null);
+  const [selectedIssue, setSelectedIssue] = useState<number | null>(null);
+
+  const checkMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await apiRequest("POST", "/api/continuity/check", { passage: text, ...settings });
+      return response.json() as Promise<ContinuityReport>;
+    },
+    onMutate: () => {
+      setSelectedIssue(null);
+    },
+    onSuccess: (result, text) => {
+      setReport({ passage: text, result });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Continuity check failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const issues = report?.result.issues ?? [];
+
+  return (
+    <Card className="bg-slate-750 border-slate-600">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Continuity</h3>
+          {report && (
+            <span className="text-xs text-slate-400">
+              {report.result.claims.length} claims checked · {report.result.model}
+            </span>
+          )}
+        </div>
+
+        <Textarea
+          value={passage}
+          onChange={(e) => setPassage(e.target.value)}
+          placeholder="Paste a draft passage to check it against the knowledge base..."
+          className="h-32 bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+          data-testid="input-continuity-passage"
+        />
+        <Button
+          className="bg-blue-600 hover:bg-blue-700"
+          onClick={() => checkMutation.mutate(passage)}
+          disabled={!passage.trim() || checkMutation.isPending}
+          data-testid="button-check-continuity"
+        >
+          {checkMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+          Check Continuity
+        </Button>
+
+        {report && (
+          <>
+            {/* Draft with contradicted claims highlighted */}
+            <div className="bg-slate-800 rounded-lg p-4 text-sm text-slate-300 whitespace-pre-wrap leading-relaxed" data-testid="continuity-passage">
+              {highlightSegments(report.passage, issues).map((segment, i) =>
+                segment.issueIndex === undefined ? (
+                  <span key={i}>{segment.text}</span>
+                ) : (
+                  <mark
+                    key={i}
+                    className={`text-slate-100 rounded-sm cursor-pointer ${SEVERITY_STYLES[issues[segment.issueIndex].severity].mark} ${
+                      selectedIssue === segment.issueIndex ? "ring-2 ring-white/60" : ""
+                    }`}
+                    title={issues[segment.issueIndex].explanation}
+                    onClick={() => setSelectedIssue(segment.issueIndex!)}
+                  >
+                    {segment.text}
+                  </mark>
+                )
+              )}
+            </div>
+
+            {issues.length === 0 ? (
+              <div className="flex items-center space-x-2 text-sm text-green-400" data-testid="continuity-clear">
+                <CheckCircle2 className="w-4 h-4" />
+                <span>No contradictions with the knowledge base were found</span>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {issues.map((issue, i) => (
+                  <div
+                    key={i}
+                    className={`p-4 bg-slate-800 rounded-lg space-y-2 cursor-pointer border ${
+                      selectedIssue === i ? "border-slate-400" : "border-transparent"
+                    }`}
+                    onClick={() => setSelectedIssue(i)}
+                    data-testid={`continuity-issue-${i}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-white">{issue.claim}</span>
+                      <Badge variant="secondary" className={`text-xs ${SEVERITY_STYLES[issue.severity].badge}`}>
+                        {issue.severity}
+                      </Badge>
+                    </div>
+                    {issue.quote && (
+                      <blockquote className="border-l-2 border-slate-600 pl-3 text-xs text-slate-300">
+                        Draft: “{issue.quote}”
+                      </blockquote>
+                    )}
+                    <blockquote className="border-l-2 border-blue-500 pl-3 text-xs text-slate-300">
+                      Canon: “{issue.evidence.quote}”
+                      <span className="block text-slate-400 mt-1">
+                        {issue.evidence.documentId} · {issue.evidence.category} · {issue.evidence.score.toFixed(2)}
+                      </span>
+                    </blockquote>
+                    {issue.explanation && <p className="text-xs text-slate-400">{issue.explanation}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
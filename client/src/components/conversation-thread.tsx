@@ -0,0 +1,130 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, MessageSquarePlus } from "lucide-react";
+
+interface Conversation {
+  id: string;
+  title: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface Message {
+  id: string;
+  conversationId: string;
+  queryId: string | null;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+}
+
+interface ConversationThreadProps {
+  conversationId: string | null;
+  onSelect: (conversationId: string | null) => void;
+}
+
+// Sentinel for "no conversation" since Radix Select does not allow empty values
+const SINGLE_QUERY = "single";
+
+export default function ConversationThread({ conversationId, onSelect }: ConversationThreadProps) {
+  const { toast } = useToast();
+
+  const { data: conversations } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  const { data: thread } = useQuery<{ conversation: Conversation; messages: Message[] }>({
+    queryKey: ["/api/conversations", conversationId],
+    enabled: !!conversationId,
+  });
+
+  const createConversationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/conversations", {});
+      return response.json();
+    },
+    onSuccess: (conversation: Conversation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      onSelect(conversation.id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start conversation",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-slate-750 border-slate-600">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Conversation</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-slate-400 hover:text-white"
+            onClick={() => createConversationMutation.mutate()}
+            disabled={createConversationMutation.isPending}
+            data-testid="button-new-conversation"
+          >
+            {createConversationMutation.isPending ? (
+              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            ) : (
+              <MessageSquarePlus className="w-4 h-4 mr-2" />
+            )}
+            New
+          </Button>
+        </div>
+
+        <Select
+          value={conversationId ?? SINGLE_QUERY}
+          onValueChange={(value) => onSelect(value === SINGLE_QUERY ? null : value)}
+        >
+          <SelectTrigger className="w-full bg-slate-800 border-slate-600 text-white mb-4" data-testid="select-conversation">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SINGLE_QUERY}>Single questions (no history)</SelectItem>
+            {conversations?.map((conversation) => (
+              <SelectItem key={conversation.id} value={conversation.id}>
+                {conversation.title || "New conversation"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {conversationId ? (
+          thread && thread.messages.length > 0 ? (
+            <div className="space-y-3 max-h-80 overflow-y-auto" data-testid="conversation-messages">
+              {thread.messages.map((message) => (
+                <div
+                  key={message.id}
+                  className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+                >
+                  <div
+                    className={`max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+                      message.role === "user" ? "bg-blue-600 text-white" : "bg-slate-800 text-slate-100"
+                    }`}
+                    data-testid={`message-${message.id}`}
+                  >
+                    {message.content}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-sm text-slate-400">Ask a question to start this conversation</div>
+          )
+        ) : (
+          <div className="text-sm text-slate-400">Each query is answered on its own. Start a conversation to ask follow-ups.</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import type { DocumentExtraction } from "@shared/schema";
+import { History, Loader2, RotateCcw, Sparkles } from "lucide-react";
+
+export interface KnowledgeDocument {
+  id: string;
+  content: string;
+  category: string;
+  documentId: string;
+  metadata: Record<string, unknown> | null;
+  version: number;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+interface DocumentChunk {
+  id: string;
+  chunkIndex: number;
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  embeddingModel: string | null;
+}
+
+interface DocumentVersion {
+  id: string;
+  version: number;
+  category: string;
+  documentId: string;
+  createdAt: string;
+}
+
+interface DocumentDiff {
+  from: number;
+  to: number;
+  fields: Array<{ field: string; from: unknown; to: unknown }>;
+  lines: Array<{ type: "equal" | "added" | "removed"; text: string }>;
+  added: number;
+  removed: number;
+}
+
+interface DocumentPreviewProps {
+  document: KnowledgeDocument | null;
+  onClose: () => void;
+}
+
+export default function DocumentPreview({ document, onClose }: DocumentPreviewProps) {
+  const { toast } = useToast();
+  const [diffFrom, setDiffFrom] = useState<number | null>(null);
+
+  const { data: detail } = useQuery<{ document: KnowledgeDocument; chunks: DocumentChunk[] }>({
+    queryKey: ["/api/documents", document?.id],
+    enabled: !!document,
+  });
+
+  const { data: versions } = useQuery<DocumentVersion[]>({
+    queryKey: ["/api/documents", document?.id, "versions"],
+    enabled: !!document,
+  });
+
+  const current = detail?.document ?? document;
+  // Story bible profiles are rendered from entities and never extracted
+  const extractable = current?.metadata?.source !== "story-bible";
+
+  const { data: extractions } = useQuery<DocumentExtraction[]>({
+    queryKey: ["/api/documents", document?.id, "extractions"],
+    enabled: !!document && extractable,
+    // Extraction runs in the background after ingest; poll until it settles
+    refetchInterval: (query) => query.state.data?.[0]?.status === "pending" ? 3000 : false,
+  });
+  const extraction = extractions?.[0];
+
+  const { data: diff } = useQuery<DocumentDiff>({
+    queryKey: [`/api/documents/${document?.id}/diff?from=${diffFrom}&to=${current?.version}`],
+    enabled: !!document && diffFrom !== null,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/documents/${document!.id}/rollback`, { version });
+      return response.json();
+    },
+    onSuccess: (_data, version) => {
+      toast({
+        title: "Version restored",
+        description: `Version ${version} was saved as the current version and re-indexed`,
+      });
+      setDiffFrom(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore version",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const extractMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/documents/${document!.id}/extract`);
+      return response.json() as Promise<DocumentExtraction>;
+    },
+    onSuccess: () => {
+      toast({ title: "Extraction finished", description: "New characters and places are listed in the story bible for review" });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", document!.id, "extractions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entity-candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", document!.id, "extractions"] });
+      toast({
+        title: "Failed to extract entities",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet
+      open={document !== null}
+      onOpenChange={(open) => {
+        if (!open) {
+          setDiffFrom(null);
+          onClose();
+        }
+      }}
+    >
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto bg-slate-850 border-slate-700 text-slate-100">
+        {current && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="text-white">{current.documentId}</SheetTitle>
+              <SheetDescription className="flex items-center space-x-2">
+                <Badge variant="secondary" className="text-xs">{current.category}</Badge>
+                <span>Version {current.version}</span>
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6">
+              {/* Metadata */}
+              <div className="space-y-2 text-sm">
+                <h4 className="text-xs font-medium text-slate-400 uppercase tracking-wide">Metadata</h4>
+                <div className="grid grid-cols-3 gap-2 text-slate-300">
+                  <span className="text-slate-400">ID</span>
+                  <span className="col-span-2 font-mono text-xs break-all">{current.id}</span>
+                  <span className="text-slate-400">Created</span>
+                  <span className="col-span-2">{new Date(current.createdAt).toLocaleString()}</span>
+                  {current.updatedAt && (
+                    <>
+                      <span className="text-slate-400">Updated</span>
+                      <span className="col-span-2">{new Date(current.updatedAt).toLocaleString()}</span>
+                    </>
+                  )}
+                  <span className="text-slate-400">Length</span>
+                  <span className="col-span-2">{current.content.length.toLocaleString()} characters</span>
+                </div>
+                {current.metadata && Object.keys(current.metadata).length > 0 && (
+                  <pre className="p-3 bg-slate-800 rounded-lg text-xs font-mono text-slate-300 overflow-x-auto">
+                    {JSON.stringify(current.metadata, null, 2)}
+                  </pre>
+                )}
+              </div>
+
+              <Separator className="bg-slate-700" />
+
+              {/* Chunk breakdown */}
+              <div className="space-y-2">
+                <h4 className="text-xs font-medium text-slate-400 uppercase tracking-wide">
+                  Chunks {detail && `(${detail.chunks.length})`}
+                </h4>
+                {detail ? (
+                  detail.chunks.map((chunk) => (
+                    <div key={chunk.id} className="p-3 bg-slate-800 rounded-lg" data-testid={`preview-chunk-${chunk.chunkIndex}`}>
+                      <div className="flex items-center justify-between mb-1 text-xs text-slate-400">
+                        <span>Chunk {chunk.chunkIndex + 1}</span>
+                        <span className="font-mono">
+                          {chunk.startOffset}–{chunk.endOffset}
+                          {chunk.embeddingModel && ` · ${chunk.embeddingModel}`}
+                        </span>
+                      </div>
+                      <p className="text-sm text-slate-300 whitespace-pre-wrap line-clamp-6">{chunk.content}</p>
+                    </div>
+                  ))
+                ) : (
+                  <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+                )}
+              </div>
+
+              {extractable && (
+                <>
+                  <Separator className="bg-slate-700" />
+
+                  {/* Extracted story facts */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-xs font-medium text-slate-400 uppercase tracking-wide">Extracted Facts</h4>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-400 hover:text-white"
+                        onClick={() => extractMutation.mutate()}
+                        disabled={extractMutation.isPending || extraction?.status === "pending"}
+                        data-testid="button-extract"
+                      >
+                        {extractMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Sparkles className="w-4 h-4 mr-1" />}
+                        Extract again
+                      </Button>
+                    </div>
+                    {!extraction ? (
+                      <p className="text-sm text-slate-400">No extraction has run for this document</p>
+                    ) : extraction.status === "pending" ? (
+                      <p className="text-sm text-slate-400">Extracting from version {extraction.documentVersion}…</p>
+                    ) : extraction.status === "failed" ? (
+                      <p className="text-sm text-red-400">Extraction of version {extraction.documentVersion} failed: {extraction.error}</p>
+                    ) : extraction.result && (
+                      <div className="p-3 bg-slate-800 rounded-lg text-sm text-slate-300 space-y-2" data-testid="document-extraction">
+                        <div className="text-xs text-slate-400">
+                          Version {extraction.documentVersion} · {extraction.model}
+                        </div>
+                        {extraction.result.characters.length > 0 && (
+                          <div>
+                            <span className="text-slate-400">Characters: </span>
+                            {extraction.result.characters.map((character) => character.name).join(", ")}
+                          </div>
+                        )}
+                        {extraction.result.places.length > 0 && (
+                          <div>
+                            <span className="text-slate-400">Places: </span>
+                            {extraction.result.places.map((place) => place.name).join(", ")}
+                          </div>
+                        )}
+                        {extraction.result.dates.map((date, i) => (
+                          <div key={`date-${i}`}>
+                            <span className="text-slate-400">{date.date}: </span>
+                            {date.description}
+                          </div>
+                        ))}
+                        {extraction.result.relationships.map((relationship, i) => (
+                          <div key={`relationship-${i}`}>
+                            {relationship.source} <span className="text-slate-400">{relationship.type.replace(/_/g, " ")}</span> {relationship.target}
+                          </div>
+                        ))}
+                        {extraction.result.events.map((event, i) => (
+                          <div key={`event-${i}`}>
+                            <span className="text-slate-400">Event{event.when ? ` (${event.when})` : ""}: </span>
+                            {event.description}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+
+              <Separator className="bg-slate-700" />
+
+              {/* Version history */}
+              <div className="space-y-2">
+                <h4 className="text-xs font-medium text-slate-400 uppercase tracking-wide">Version History</h4>
+                {versions?.map((version) => (
+                  <div key={version.id} className="flex items-center justify-between p-2 bg-slate-800 rounded-lg text-sm">
+                    <div className="text-slate-300">
+                      <span className="font-mono">v{version.version}</span>
+                      <span className="text-slate-400 ml-2">{new Date(version.createdAt).toLocaleString()}</span>
+                    </div>
+                    {version.version !== current.version && (
+                      <div className="flex items-center space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-slate-400 hover:text-white"
+                          onClick={() => setDiffFrom(diffFrom === version.version ? null : version.version)}
+                          data-testid={`button-diff-${version.version}`}
+                        >
+                          <History className="w-4 h-4 mr-1" />
+                          Diff
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-slate-400 hover:text-white"
+                          onClick={() => rollbackMutation.mutate(version.version)}
+                          disabled={rollbackMutation.isPending}
+                          data-testid={`button-restore-${version.version}`}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {diffFrom !== null && diff && (
+                  <div className="p-3 bg-slate-900 rounded-lg text-xs font-mono space-y-0.5" data-testid="version-diff">
+                    <div className="text-slate-400 mb-2">
+                      v{diff.from} → v{diff.to}: +{diff.added} −{diff.removed}
+                    </div>
+                    {diff.fields.map((field) => (
+                      <div key={field.field} className="text-yellow-400">
+                        {field.field}: {JSON.stringify(field.from)} → {JSON.stringify(field.to)}
+                      </div>
+                    ))}
+                    {diff.lines.filter((line) => line.type !== "equal").map((line, i) => (
+                      <div
+                        key={i}
+                        className={`whitespace-pre-wrap ${line.type === "added" ? "text-green-400" : "text-red-400"}`}
+                      >
+                        {line.type === "added" ? "+ " : "− "}
+                        {line.text}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
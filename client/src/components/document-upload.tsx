@@ -0,0 +1,199 @@
+import { useRef, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, FileText, Loader2, Upload, XCircle } from "lucide-react";
+
+const ACCEPTED_EXTENSIONS = [".txt", ".md", ".markdown", ".docx", ".pdf", ".epub"];
+
+type UploadStatus = "uploading" | "processing" | "indexed" | "failed";
+
+interface UploadItem {
+  id: string;
+  name: string;
+  progress: number;
+  status: UploadStatus;
+  message?: string;
+}
+
+interface UploadResult {
+  fileName: string;
+  status: "indexed" | "failed";
+  chunkCount?: number;
+  error?: string;
+}
+
+interface DocumentUploadProps {
+  category: string;
+  chunkingStrategy: string;
+  embeddingModel: string;
+  onUploaded?: () => void;
+}
+
+// XMLHttpRequest rather than fetch, because fetch cannot report upload progress
+function uploadFile(
+  file: File,
+  fields: Record<string, string>,
+  onProgress: (percent: number) => void,
+): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    formData.append("files", file);
+    for (const [key, value] of Object.entries(fields)) {
+      if (value) formData.append(key, value);
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/documents/upload");
+    xhr.withCredentials = true;
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      try {
+        const body = JSON.parse(xhr.responseText);
+        if (body.results?.[0]) {
+          resolve(body.results[0]);
+        } else {
+          reject(new Error(body.details || body.error || `${xhr.status}: ${xhr.statusText}`));
+        }
+      } catch {
+        reject(new Error(`${xhr.status}: ${xhr.statusText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error during upload"));
+    xhr.send(formData);
+  });
+}
+
+export default function DocumentUpload({ category, chunkingStrategy, embeddingModel, onUploaded }: DocumentUploadProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+
+  const updateUpload = (id: string, changes: Partial<UploadItem>) => {
+    setUploads((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList) return;
+
+    const files = Array.from(fileList);
+    const rejected = files.filter(
+      (file) => !ACCEPTED_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension)),
+    );
+    if (rejected.length > 0) {
+      toast({
+        title: "Unsupported files skipped",
+        description: rejected.map((file) => file.name).join(", "),
+        variant: "destructive",
+      });
+    }
+
+    const accepted = files.filter((file) => !rejected.includes(file));
+    const items = accepted.map((file) => ({
+      id: `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+      name: file.name,
+      progress: 0,
+      status: "uploading" as UploadStatus,
+    }));
+    setUploads((current) => [...items, ...current]);
+
+    // Upload one file per request so each row reports its own progress
+    await Promise.all(
+      accepted.map(async (file, index) => {
+        const item = items[index];
+        try {
+          const result = await uploadFile(
+            file,
+            { category, embeddingModel, chunking: JSON.stringify({ strategy: chunkingStrategy }) },
+            (progress) => updateUpload(item.id, { progress, status: progress < 100 ? "uploading" : "processing" }),
+          );
+          updateUpload(item.id, {
+            progress: 100,
+            status: result.status,
+            message: result.status === "indexed" ? `${result.chunkCount} chunks` : result.error,
+          });
+        } catch (error) {
+          updateUpload(item.id, {
+            status: "failed",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }),
+    );
+
+    queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    onUploaded?.();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        className={`flex flex-col items-center justify-center p-6 rounded-lg border-2 border-dashed cursor-pointer transition-colors ${
+          isDragging ? "border-blue-500 bg-blue-500/10" : "border-slate-600 bg-slate-800 hover:border-slate-500"
+        }`}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+        data-testid="dropzone-upload"
+      >
+        <Upload className="w-6 h-6 text-slate-400 mb-2" />
+        <p className="text-sm text-slate-300">Drop manuscripts here or click to browse</p>
+        <p className="text-xs text-slate-400 mt-1">{ACCEPTED_EXTENSIONS.join(", ")}</p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_EXTENSIONS.join(",")}
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = "";
+          }}
+          data-testid="input-upload-files"
+        />
+      </div>
+
+      {uploads.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {uploads.map((item) => (
+            <div key={item.id} className="p-3 bg-slate-800 rounded-lg" data-testid={`upload-${item.name}`}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <FileText className="w-4 h-4 text-slate-400 shrink-0" />
+                  <span className="text-sm text-slate-300 truncate">{item.name}</span>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  {item.message && <span className="text-xs text-slate-400 truncate max-w-40">{item.message}</span>}
+                  {item.status === "indexed" ? (
+                    <CheckCircle2 className="w-4 h-4 text-green-400" />
+                  ) : item.status === "failed" ? (
+                    <XCircle className="w-4 h-4 text-red-400" />
+                  ) : (
+                    <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+                  )}
+                </div>
+              </div>
+              <Progress value={item.progress} className="h-1.5 bg-slate-700" />
+              {item.status === "processing" && (
+                <p className="text-xs text-slate-400 mt-1">Extracting text and embedding…</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
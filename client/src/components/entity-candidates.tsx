@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { entityFieldDefinitions, type EntityType } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitMerge, Plus, Sparkles, X } from "lucide-react";
+
+interface EntityCandidate {
+  id: string;
+  type: EntityType;
+  name: string;
+  aliases: string[];
+  summary: string | null;
+  fields: Record<string, string>;
+  evidence: string | null;
+  // An existing entity with the same name or alias, suggested as the merge target
+  entityId: string | null;
+  sourceDocument: { id: string; documentId: string; category: string } | null;
+}
+
+interface EntityCandidatesProps {
+  entities: Array<{ id: string; name: string; type: EntityType }>;
+  // Called with the entity a candidate was added as or merged into
+  onResolved: (entityId: string) => void;
+}
+
+// Characters and places that extraction found in ingested documents, for the writer to
+// add to the story bible, merge into an entity they already have, or dismiss
+export default function EntityCandidates({ entities, onResolved }: EntityCandidatesProps) {
+  const { toast } = useToast();
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+
+  const { data: candidates } = useQuery<EntityCandidate[]>({
+    queryKey: ["/api/entity-candidates"],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, action, entityId }: { id: string; action: "accept" | "merge" | "dismiss"; entityId?: string }) => {
+      const response = await apiRequest("POST", `/api/entity-candidates/${id}/${action}`, entityId ? { entityId } : undefined);
+      return response.json() as Promise<{ entity?: { id: string; name: string } }>;
+    },
+    onSuccess: (result, { action }) => {
+      if (result.entity) {
+        toast({
+          title: action === "accept" ? "Entity added" : "Entity merged",
+          description: `${result.entity.name}'s profile was re-indexed`,
+        });
+        onResolved(result.entity.id);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/entity-candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/relationships"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to review entity",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!candidates || candidates.length === 0) return null;
+
+  return (
+    <Card className="bg-slate-750 border-slate-600">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center space-x-2">
+          <Sparkles className="w-5 h-5 text-blue-400" />
+          <h3 className="text-lg font-semibold text-white">New Entities Found</h3>
+          <Badge variant="secondary" className="text-xs">{candidates.length}</Badge>
+        </div>
+
+        {candidates.map((candidate) => {
+          const targets = entities.filter((entity) => entity.type === candidate.type);
+          const mergeTarget = mergeTargets[candidate.id] ?? candidate.entityId ?? "";
+          const match = candidate.entityId ? entities.find((entity) => entity.id === candidate.entityId) : undefined;
+          const fields = entityFieldDefinitions[candidate.type]?.filter((field) => candidate.fields[field.key]) ?? [];
+
+          return (
+            <div key={candidate.id} className="p-4 bg-slate-800 rounded-lg space-y-2" data-testid={`candidate-${candidate.id}`}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <span className="font-medium text-white truncate">{candidate.name}</span>
+                  <Badge variant="secondary" className="text-xs">{candidate.type}</Badge>
+                  {match && <span className="text-xs text-yellow-400">matches {match.name}</span>}
+                </div>
+                {candidate.sourceDocument && (
+                  <span className="text-xs text-slate-400 truncate ml-2">from {candidate.sourceDocument.documentId}</span>
+                )}
+              </div>
+
+              {candidate.aliases.length > 0 && (
+                <p className="text-xs text-slate-400">Also known as: {candidate.aliases.join(", ")}</p>
+              )}
+              {candidate.summary && <p className="text-sm text-slate-300">{candidate.summary}</p>}
+              {fields.length > 0 && (
+                <div className="grid grid-cols-3 gap-x-2 gap-y-1 text-xs">
+                  {fields.map((field) => (
+                    <div key={field.key} className="contents">
+                      <span className="text-slate-400">{field.label}</span>
+                      <span className="col-span-2 text-slate-300 line-clamp-2">{candidate.fields[field.key]}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {candidate.evidence && (
+                <blockquote className="border-l-2 border-slate-600 pl-3 text-xs italic text-slate-400">
+                  {candidate.evidence}
+                </blockquote>
+              )}
+
+              <div className="flex items-center space-x-2 pt-1">
+                <Button
+                  size="sm"
+                  className="bg-blue-600 hover:bg-blue-700"
+                  onClick={() => resolveMutation.mutate({ id: candidate.id, action: "accept" })}
+                  disabled={resolveMutation.isPending}
+                  data-testid={`button-accept-${candidate.id}`}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add
+                </Button>
+                {targets.length > 0 && (
+                  <>
+                    <Select
+                      value={mergeTarget}
+                      onValueChange={(value) => setMergeTargets({ ...mergeTargets, [candidate.id]: value })}
+                    >
+                      <SelectTrigger className="w-48 h-9 bg-slate-800 border-slate-600 text-white" data-testid={`select-merge-${candidate.id}`}>
+                        <SelectValue placeholder="Merge into…" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {targets.map((entity) => (
+                          <SelectItem key={entity.id} value={entity.id}>{entity.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                      onClick={() => resolveMutation.mutate({ id: candidate.id, action: "merge", entityId: mergeTarget })}
+                      disabled={!mergeTarget || resolveMutation.isPending}
+                      data-testid={`button-merge-${candidate.id}`}
+                    >
+                      <GitMerge className="w-4 h-4 mr-1" />
+                      Merge
+                    </Button>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-slate-400 hover:text-white ml-auto"
+                  onClick={() => resolveMutation.mutate({ id: candidate.id, action: "dismiss" })}
+                  disabled={resolveMutation.isPending}
+                  data-testid={`button-dismiss-${candidate.id}`}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjects, type Project } from "@/hooks/use-projects";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FolderPlus, Loader2 } from "lucide-react";
+
+// Everything cached apart from the session and the project list belongs to the previous project
+function forgetProjectData() {
+  queryClient.removeQueries({
+    predicate: (query) => !["/api/auth/me", "/api/projects"].includes(query.queryKey[0] as string),
+  });
+  queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+}
+
+export default function ProjectSwitcher() {
+  const { toast } = useToast();
+  const { data } = useProjects();
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/projects/${id}/activate`);
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: forgetProjectData,
+    onError: onError("Failed to switch project"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (projectName: string) => {
+      const response = await apiRequest("POST", "/api/projects", { name: projectName });
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (project) => {
+      toast({ title: "Project created", description: `Switched to ${project.name}` });
+      setCreating(false);
+      setName("");
+      forgetProjectData();
+    },
+    onError: onError("Failed to create project"),
+  });
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select
+        value={data?.activeProjectId ?? ""}
+        onValueChange={(id) => activateMutation.mutate(id)}
+        disabled={!data || activateMutation.isPending}
+      >
+        <SelectTrigger className="flex-1 bg-slate-800 border-slate-600 text-white" data-testid="select-project">
+          <SelectValue placeholder="Loading projects…" />
+        </SelectTrigger>
+        <SelectContent>
+          {data?.projects.map((project) => (
+            <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-slate-400 hover:text-white"
+        onClick={() => setCreating(true)}
+        title="New project"
+        data-testid="button-new-project"
+      >
+        <FolderPlus className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New project</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate(name.trim());
+            }}
+          >
+            <Label className="text-sm font-medium mb-2">Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. The Glass Orchard"
+              autoFocus
+              data-testid="input-project-name"
+            />
+            <DialogFooter className="mt-4">
+              <Button type="submit" disabled={!name.trim() || createMutation.isPending} data-testid="button-create-project">
+                {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
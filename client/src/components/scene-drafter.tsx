@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SceneBrief } from "@shared/schema";
+import type { ContinuitySettings } from "@/components/continuity-panel";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, PenLine } from "lucide-react";
+
+interface SceneDraft {
+  document: { id: string; documentId: string; category: string };
+  prose: string;
+  facts: Array<{ fact: string; sources: number[] }>;
+  canon: Array<{ kind: "profile" | "passage"; label: string; entityId?: string; text: string }>;
+  unmatched: string[];
+  model: string;
+  tokensUsed: number;
+}
+
+interface BriefForm {
+  title: string;
+  pov: string;
+  setting: string;
+  participants: string;
+  beats: string;
+  targetWords: number;
+}
+
+const emptyBrief: BriefForm = { title: "", pov: "", setting: "", participants: "", beats: "", targetWords: 800 };
+
+// Beats are typed one per line
+function toBrief(form: BriefForm): SceneBrief {
+  return {
+    title: form.title.trim() || undefined,
+    pov: form.pov.trim(),
+    setting: form.setting.trim(),
+    participants: form.participants.split(",").map((name) => name.trim()).filter(Boolean),
+    beats: form.beats.split("\n").map((beat) => beat.replace(/^\s*(?:[-*]|\d+[.)])\s*/, "").trim()).filter(Boolean),
+    targetWords: form.targetWords,
+  };
+}
+
+// Draft a scene from a brief, constrained by the story bible profiles of everyone and
+// everywhere it names; the result is saved to the knowledge base as a draft document
+export default function SceneDrafter({ settings }: { settings: ContinuitySettings }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<BriefForm>(emptyBrief);
+  const [draft, setDraft] = useState<SceneDraft | null>(null);
+
+  const brief = toBrief(form);
+  const ready = !!brief.pov && !!brief.setting && brief.beats.length > 0;
+
+  const draftMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/scenes/draft", { brief, ...settings });
+      return response.json() as Promise<SceneDraft>;
+    },
+    onSuccess: (result) => {
+      setDraft(result);
+      toast({ title: "Scene drafted", description: `Saved as ${result.document.documentId}` });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/test-connections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to draft scene",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-slate-750 border-slate-600">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Draft Scene</h3>
+          {draft && (
+            <span className="text-xs text-slate-400">
+              {draft.canon.length} canon sources · {draft.tokensUsed} tokens · {draft.model}
+            </span>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-slate-300">Title</Label>
+            <Input
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="Optional"
+              className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+              data-testid="input-scene-title"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-slate-300">Target length (words)</Label>
+            <Input
+              type="number"
+              value={form.targetWords}
+              onChange={(e) => setForm({ ...form, targetWords: parseInt(e.target.value) || 800 })}
+              className="bg-slate-800 border-slate-600 text-white"
+              data-testid="input-scene-length"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-slate-300">POV character</Label>
+            <Input
+              value={form.pov}
+              onChange={(e) => setForm({ ...form, pov: e.target.value })}
+              className="bg-slate-800 border-slate-600 text-white"
+              data-testid="input-scene-pov"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-slate-300">Setting</Label>
+            <Input
+              value={form.setting}
+              onChange={(e) => setForm({ ...form, setting: e.target.value })}
+              className="bg-slate-800 border-slate-600 text-white"
+              data-testid="input-scene-setting"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-slate-300">Participants</Label>
+          <Input
+            value={form.participants}
+            onChange={(e) => setForm({ ...form, participants: e.target.value })}
+            placeholder="Comma-separated names"
+            className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+            data-testid="input-scene-participants"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-slate-300">Beats</Label>
+          <Textarea
+            value={form.beats}
+            onChange={(e) => setForm({ ...form, beats: e.target.value })}
+            placeholder="One beat per line, in order"
+            className="h-28 bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+            data-testid="input-scene-beats"
+          />
+        </div>
+        <Button
+          className="bg-blue-600 hover:bg-blue-700"
+          onClick={() => draftMutation.mutate()}
+          disabled={!ready || draftMutation.isPending}
+          data-testid="button-draft-scene"
+        >
+          {draftMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <PenLine className="w-4 h-4 mr-2" />}
+          Draft Scene
+        </Button>
+
+        {draft && (
+          <>
+            {draft.unmatched.length > 0 && (
+              <p className="text-xs text-yellow-400" data-testid="scene-unmatched">
+                Not in the story bible, searched for instead: {draft.unmatched.join(", ")}
+              </p>
+            )}
+            <div className="bg-slate-800 rounded-lg p-4 text-sm text-slate-200 whitespace-pre-wrap leading-relaxed" data-testid="scene-prose">
+              {draft.prose}
+            </div>
+            <p className="text-xs text-slate-400">
+              Saved as <span className="font-mono text-slate-300">{draft.document.documentId}</span> in {draft.document.category}
+            </p>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-white">Canon relied on</h4>
+              {draft.facts.length === 0 ? (
+                <p className="text-xs text-slate-400">The draft did not list any canon facts</p>
+              ) : (
+                draft.facts.map((fact, i) => (
+                  <div key={i} className="p-3 bg-slate-800 rounded-lg text-xs space-y-1" data-testid={`scene-fact-${i}`}>
+                    <p className="text-slate-200">{fact.fact}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {fact.sources.map((index) => (
+                        <Badge key={index} variant="secondary" className="text-xs" title={draft.canon[index].text}>
+                          {draft.canon[index].kind === "profile" ? "profile: " : ""}{draft.canon[index].label}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
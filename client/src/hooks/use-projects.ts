@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectList {
+  projects: Project[];
+  activeProjectId: string;
+}
+
+// The signed-in user's projects; every other /api query reads from the active one
+export function useProjects() {
+  const { user } = useAuth();
+  return useQuery<ProjectList>({
+    queryKey: ["/api/projects"],
+    enabled: !!user,
+  });
+}
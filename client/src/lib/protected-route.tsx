@@ -0,0 +1,25 @@
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useProjects } from "@/hooks/use-projects";
+
+export function ProtectedRoute({ path, component: Component }: { path: string; component: ComponentType }) {
+  const { user, isLoading } = useAuth();
+  const { data: projects } = useProjects();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-screen bg-slate-850">
+          <Loader2 className="w-8 h-8 animate-spin text-slate-400" />
+        </div>
+      ) : user ? (
+        // Remount on project switch so no page state carries over from the previous project
+        <Component key={projects?.activeProjectId} />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
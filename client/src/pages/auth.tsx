@@ -0,0 +1,91 @@
+import { useState, type FormEvent } from "react";
+import { Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, Zap } from "lucide-react";
+
+type AuthMode = "login" | "register";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<AuthMode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username: username.trim(), password });
+  };
+
+  const renderForm = (submitLabel: string) => (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+      <div>
+        <Label className="text-sm font-medium mb-2">Username</Label>
+        <Input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          className="bg-slate-800 border-slate-600 text-slate-100"
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div>
+        <Label className="text-sm font-medium mb-2">Password</Label>
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          className="bg-slate-800 border-slate-600 text-slate-100"
+          data-testid={`input-${mode}-password`}
+        />
+        {mode === "register" && (
+          <p className="text-xs text-slate-400 mt-1">At least 8 characters</p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        className="w-full bg-blue-600 hover:bg-blue-700"
+        disabled={mutation.isPending || !username.trim() || !password}
+        data-testid={`button-${mode}`}
+      >
+        {mutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-850 text-slate-100">
+      <div className="w-full max-w-sm p-8 bg-slate-750 border border-slate-700 rounded-xl">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center">
+            <Zap className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold text-white">RAG Pipeline</h1>
+            <p className="text-sm text-slate-400">Sign in to manage your knowledge base</p>
+          </div>
+        </div>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as AuthMode)}>
+          <TabsList className="grid grid-cols-2 w-full bg-slate-800">
+            <TabsTrigger value="login" data-testid="tab-login">Log in</TabsTrigger>
+            <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+          </TabsList>
+          <TabsContent value="login">{renderForm("Log in")}</TabsContent>
+          <TabsContent value="register">{renderForm("Create account")}</TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+import { useMemo, useRef, useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import {
+  relationshipLabels,
+  relationshipTypes,
+  symmetricRelationshipTypes,
+  type EntityType,
+  type RelationshipType,
+} from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ProjectSwitcher from "@/components/project-switcher";
+import { ArrowLeft, Crosshair, Loader2, Share2 } from "lucide-react";
+
+interface GraphEntity {
+  id: string;
+  type: EntityType;
+  name: string;
+  aliases: string[];
+  summary: string | null;
+}
+
+interface GraphRelationship {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  type: RelationshipType;
+  description: string | null;
+  origin: "manual" | "extracted";
+  evidence: string | null;
+}
+
+interface Neighbourhood {
+  center: GraphEntity;
+  nodes: Array<{ entity: GraphEntity; distance: number }>;
+  edges: GraphRelationship[];
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const WIDTH = 900;
+const HEIGHT = 620;
+const NODE_RADIUS = 18;
+const WHOLE_GRAPH = "all";
+
+const TYPE_COLORS: Record<EntityType, string> = {
+  character: "#3b82f6",
+  location: "#22c55e",
+  organization: "#f59e0b",
+  artifact: "#a855f7",
+};
+
+// Force-directed layout (Fruchterman–Reingold) from a circle, so the same graph always
+// lays out the same way. Dragged nodes are kept where they were dropped.
+function layoutGraph(ids: string[], edges: GraphRelationship[]): Record<string, Point> {
+  const positions: Record<string, Point> = {};
+  ids.forEach((id, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(ids.length, 1);
+    positions[id] = { x: WIDTH / 2 + Math.cos(angle) * WIDTH / 3, y: HEIGHT / 2 + Math.sin(angle) * HEIGHT / 3 };
+  });
+  if (ids.length < 2) return positions;
+
+  const k = Math.sqrt((WIDTH * HEIGHT) / ids.length) * 0.6;
+  let temperature = WIDTH / 10;
+  for (let iteration = 0; iteration < 300; iteration++) {
+    const moves: Record<string, Point> = Object.fromEntries(ids.map((id) => [id, { x: 0, y: 0 }]));
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions[ids[i]];
+        const b = positions[ids[j]];
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const force = (k * k) / distance;
+        moves[ids[i]].x += (dx / distance) * force;
+        moves[ids[i]].y += (dy / distance) * force;
+        moves[ids[j]].x -= (dx / distance) * force;
+        moves[ids[j]].y -= (dy / distance) * force;
+      }
+    }
+    for (const edge of edges) {
+      const a = positions[edge.sourceId];
+      const b = positions[edge.targetId];
+      if (!a || !b || a === b) continue;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const force = (distance * distance) / k;
+      moves[edge.sourceId].x -= (dx / distance) * force;
+      moves[edge.sourceId].y -= (dy / distance) * force;
+      moves[edge.targetId].x += (dx / distance) * force;
+      moves[edge.targetId].y += (dy / distance) * force;
+    }
+    for (const id of ids) {
+      const move = moves[id];
+      const length = Math.sqrt(move.x * move.x + move.y * move.y) || 1;
+      const step = Math.min(length, temperature);
+      positions[id] = {
+        x: Math.min(WIDTH - NODE_RADIUS * 3, Math.max(NODE_RADIUS * 3, positions[id].x + (move.x / length) * step)),
+        y: Math.min(HEIGHT - NODE_RADIUS * 2, Math.max(NODE_RADIUS * 2, positions[id].y + (move.y / length) * step)),
+      };
+    }
+    temperature *= 0.98;
+  }
+  return positions;
+}
+
+export default function Graph() {
+  const [focusId, setFocusId] = useState<string>(WHOLE_GRAPH);
+  const [hops, setHops] = useState(2);
+  const [hiddenTypes, setHiddenTypes] = useState<RelationshipType[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragged, setDragged] = useState<Record<string, Point>>({});
+  const dragging = useRef<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const shownTypes = relationshipTypes.filter((type) => !hiddenTypes.includes(type));
+  const focused = focusId !== WHOLE_GRAPH;
+
+  const { data: entities, isLoading } = useQuery<GraphEntity[]>({
+    queryKey: ["/api/entities"],
+  });
+
+  const { data: relationships } = useQuery<GraphRelationship[]>({
+    queryKey: ["/api/relationships"],
+  });
+
+  const { data: neighbourhood } = useQuery<Neighbourhood>({
+    queryKey: ["/api/entities", focusId, `neighbourhood?hops=${hops}&types=${shownTypes.join(",")}`],
+    enabled: focused && shownTypes.length > 0,
+  });
+
+  // The focused neighbourhood comes from the server; the whole graph is filtered here
+  const { nodes, edges } = useMemo(() => {
+    if (focused) {
+      return {
+        nodes: shownTypes.length > 0 ? neighbourhood?.nodes ?? [] : [],
+        edges: shownTypes.length > 0 ? neighbourhood?.edges ?? [] : [],
+      };
+    }
+    return {
+      nodes: (entities ?? []).map((entity) => ({ entity, distance: 0 })),
+      edges: (relationships ?? []).filter((relationship) => shownTypes.includes(relationship.type)),
+    };
+  }, [focused, neighbourhood, entities, relationships, hiddenTypes]);
+
+  const layoutKey = nodes.map(({ entity }) => entity.id).join(",") + "|" + edges.map((edge) => edge.id).join(",");
+  const layout = useMemo(() => layoutGraph(nodes.map(({ entity }) => entity.id), edges), [layoutKey]);
+  const positionOf = (id: string) => dragged[id] ?? layout[id];
+
+  const byId = new Map(nodes.map(({ entity }) => [entity.id, entity]));
+  const selected = selectedId ? (entities ?? []).find((entity) => entity.id === selectedId) : undefined;
+  const selectedRelationships = (relationships ?? []).filter((relationship) =>
+    relationship.sourceId === selectedId || relationship.targetId === selectedId
+  );
+  const nameOf = (id: string) => (entities ?? []).find((entity) => entity.id === id)?.name ?? id;
+
+  const toggleType = (type: RelationshipType) => {
+    setHiddenTypes(hiddenTypes.includes(type) ? hiddenTypes.filter((hidden) => hidden !== type) : [...hiddenTypes, type]);
+  };
+
+  const focusOn = (id: string) => {
+    setFocusId(id);
+    setSelectedId(id === WHOLE_GRAPH ? null : id);
+    setDragged({});
+  };
+
+  // Pointer position in the SVG's own coordinates, whatever size it is drawn at
+  const toSvgPoint = (event: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: ((event.clientX - rect.left) / rect.width) * WIDTH, y: ((event.clientY - rect.top) / rect.height) * HEIGHT };
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-850 text-slate-100">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white" data-testid="link-home">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Pipeline
+            </Button>
+          </Link>
+          <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center">
+            <Share2 className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold text-white">Relationship Graph</h1>
+            <p className="text-sm text-slate-400">
+              {nodes.length} entities · {edges.length} relationships
+            </p>
+          </div>
+        </div>
+        <div className="w-64">
+          <ProjectSwitcher />
+        </div>
+      </div>
+
+      <div className="flex p-6 gap-6">
+        {/* Controls and details */}
+        <div className="w-72 shrink-0 space-y-6">
+          <div className="space-y-2">
+            <Label className="text-slate-300">Centre on</Label>
+            <Select value={focusId} onValueChange={focusOn}>
+              <SelectTrigger className="bg-slate-800 border-slate-600 text-white" data-testid="select-graph-focus">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_GRAPH}>Whole story bible</SelectItem>
+                {(entities ?? []).map((entity) => (
+                  <SelectItem key={entity.id} value={entity.id}>{entity.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {focused && (
+            <div className="space-y-2">
+              <Label className="text-slate-300">Within</Label>
+              <Select value={hops.toString()} onValueChange={(value) => setHops(parseInt(value))}>
+                <SelectTrigger className="bg-slate-800 border-slate-600 text-white" data-testid="select-graph-hops">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4].map((count) => (
+                    <SelectItem key={count} value={count.toString()}>{count} {count === 1 ? "hop" : "hops"}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-slate-300">Relationships</Label>
+            <div className="flex flex-wrap gap-1">
+              {relationshipTypes.map((type) => (
+                <Badge
+                  key={type}
+                  variant="secondary"
+                  className={`text-xs cursor-pointer ${hiddenTypes.includes(type) ? "opacity-40" : "bg-blue-500/10 text-blue-400"}`}
+                  onClick={() => toggleType(type)}
+                  data-testid={`filter-relationship-${type}`}
+                >
+                  {type.replace(/_/g, " ")}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          {selected && (
+            <Card className="bg-slate-750 border-slate-600">
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-white truncate">{selected.name}</span>
+                  <Badge variant="secondary" className="text-xs">{selected.type}</Badge>
+                </div>
+                {selected.aliases.length > 0 && (
+                  <p className="text-xs text-slate-400">Also known as: {selected.aliases.join(", ")}</p>
+                )}
+                {selected.summary && <p className="text-sm text-slate-300">{selected.summary}</p>}
+                <div className="space-y-2">
+                  {selectedRelationships.map((relationship) => (
+                    <div key={relationship.id} className="text-xs text-slate-300" data-testid={`graph-relationship-${relationship.id}`}>
+                      <span className="text-white">{nameOf(relationship.sourceId)}</span>
+                      {" "}{relationshipLabels[relationship.type] ?? relationship.type}{" "}
+                      <span className="text-white">{nameOf(relationship.targetId)}</span>
+                      {relationship.origin === "extracted" && <span className="text-slate-500"> · extracted</span>}
+                      {(relationship.description || relationship.evidence) && (
+                        <p className="text-slate-400 mt-0.5">{relationship.description || `“${relationship.evidence}”`}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {focusId !== selected.id && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                    onClick={() => focusOn(selected.id)}
+                    data-testid="button-focus-entity"
+                  >
+                    <Crosshair className="w-4 h-4 mr-2" />
+                    Show neighbourhood
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Graph */}
+        <Card className="flex-1 min-w-0 bg-slate-750 border-slate-600">
+          <CardContent className="p-4">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+            ) : nodes.length === 0 ? (
+              <p className="text-sm text-slate-400">
+                Add entities and relationships in the story bible, or ingest documents that mention them
+              </p>
+            ) : (
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto select-none"
+                onPointerMove={(event) => {
+                  if (dragging.current) setDragged({ ...dragged, [dragging.current]: toSvgPoint(event) });
+                }}
+                onPointerUp={() => { dragging.current = null; }}
+                onPointerLeave={() => { dragging.current = null; }}
+                data-testid="relationship-graph"
+              >
+                <defs>
+                  <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+                  </marker>
+                </defs>
+
+                {edges.map((edge) => {
+                  const from = positionOf(edge.sourceId);
+                  const to = positionOf(edge.targetId);
+                  if (!from || !to) return null;
+                  // Stop the line at the target's edge so the arrowhead is visible
+                  const dx = to.x - from.x;
+                  const dy = to.y - from.y;
+                  const length = Math.sqrt(dx * dx + dy * dy) || 1;
+                  const end = { x: to.x - (dx / length) * NODE_RADIUS, y: to.y - (dy / length) * NODE_RADIUS };
+                  const highlighted = edge.sourceId === selectedId || edge.targetId === selectedId;
+                  return (
+                    <g key={edge.id}>
+                      <line
+                        x1={from.x}
+                        y1={from.y}
+                        x2={end.x}
+                        y2={end.y}
+                        stroke={highlighted ? "#93c5fd" : "#475569"}
+                        strokeWidth={highlighted ? 2 : 1.5}
+                        strokeDasharray={edge.origin === "extracted" ? "4 3" : undefined}
+                        markerEnd={symmetricRelationshipTypes.includes(edge.type) ? undefined : "url(#arrow)"}
+                      >
+                        <title>{`${byId.get(edge.sourceId)?.name} ${relationshipLabels[edge.type] ?? edge.type} ${byId.get(edge.targetId)?.name}`}</title>
+                      </line>
+                      <text
+                        x={(from.x + to.x) / 2}
+                        y={(from.y + to.y) / 2 - 4}
+                        textAnchor="middle"
+                        className="fill-slate-400 text-[10px] pointer-events-none"
+                      >
+                        {edge.type.replace(/_/g, " ")}
+                      </text>
+                    </g>
+                  );
+                })}
+
+                {nodes.map(({ entity, distance }) => {
+                  const position = positionOf(entity.id);
+                  if (!position) return null;
+                  return (
+                    <g
+                      key={entity.id}
+                      transform={`translate(${position.x}, ${position.y})`}
+                      className="cursor-pointer"
+                      onPointerDown={() => { dragging.current = entity.id; }}
+                      onClick={() => setSelectedId(entity.id)}
+                      onDoubleClick={() => focusOn(entity.id)}
+                      data-testid={`graph-node-${entity.id}`}
+                    >
+                      <circle
+                        r={focused && distance === 0 ? NODE_RADIUS + 4 : NODE_RADIUS}
+                        fill={TYPE_COLORS[entity.type] ?? TYPE_COLORS.character}
+                        fillOpacity={focused ? 1 - distance * 0.15 : 1}
+                        stroke={selectedId === entity.id ? "#ffffff" : "#0f172a"}
+                        strokeWidth={selectedId === entity.id ? 3 : 2}
+                      />
+                      <text y={NODE_RADIUS + 14} textAnchor="middle" className="fill-slate-200 text-xs pointer-events-none">
+                        {entity.name}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            )}
+            <p className="text-xs text-slate-500 mt-2">
+              Click an entity for details, double-click to centre on it, drag to rearrange. Dashed lines were extracted from documents.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
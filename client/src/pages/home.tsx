@@ -1,16 +1,36 @@
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, streamRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { DEFAULT_PROMPT_TEMPLATE_ID } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Zap, Settings, Info, Plus, Search, Trash2, TestTube } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import DocumentUpload from "@/components/document-upload";
+import ConversationThread from "@/components/conversation-thread";
+import ProjectSwitcher from "@/components/project-switcher";
+import ContinuityPanel, { type ContinuitySettings } from "@/components/continuity-panel";
+import SceneDrafter from "@/components/scene-drafter";
+import CitedResponse, { citationsFromResults, type Citation } from "@/components/cited-response";
+import { Loader2, Zap, Settings, Info, Plus, Search, Trash2, TestTube, Database, LogOut, BookOpen, Clock, Share2, MessageSquareText } from "lucide-react";
 
 interface ConnectionStatus {
   openai: boolean;
@@ -20,6 +40,8 @@ interface ConnectionStatus {
 
 interface QueryResponse {
   query: any;
+  searchQuery?: string;
+  relatedFacts?: string[];
   embedding: {
     dimensions: number;
     model: string;
@@ -31,6 +53,17 @@ interface QueryResponse {
     text: string;
     category: string;
     timestamp: string;
+    source?: {
+      parentId: string;
+      documentId: string;
+      chunkIndex: number;
+      startOffset: number;
+      endOffset: number;
+    };
+    vectorScore?: number;
+    keywordScore?: number;
+    retrievalRank?: number;
+    rerankScore?: number;
   }>;
   chatResponse: {
     response: string;
@@ -38,9 +71,24 @@ interface QueryResponse {
     model: string;
     contextCount: number;
     avgSimilarity: number;
+    citations?: Citation[];
   };
 }
 
+interface IndexSettings {
+  embeddingModel: string;
+  dimensions: number;
+  documentCount: number;
+  vectorCount: number;
+}
+
+interface MetadataFilter {
+  [field: string]: unknown;
+}
+
+// Sentinel for "no category filter" since Radix Select does not allow empty values
+const ALL_CATEGORIES = "all";
+
 interface ApiLog {
   id: string;
   method: string;
@@ -52,16 +100,28 @@ interface ApiLog {
 
 export default function Home() {
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
   const [query, setQuery] = useState("");
   const [documentText, setDocumentText] = useState("");
   const [documentId, setDocumentId] = useState("");
   const [category, setCategory] = useState("");
+  const [chunkingStrategy, setChunkingStrategy] = useState("paragraph");
   const [embeddingModel, setEmbeddingModel] = useState("text-embedding-3-small");
+  const [pendingEmbeddingModel, setPendingEmbeddingModel] = useState<string | null>(null);
   const [chatModel, setChatModel] = useState("gpt-4o");
+  const [promptTemplateId, setPromptTemplateId] = useState(DEFAULT_PROMPT_TEMPLATE_ID);
   const [topK, setTopK] = useState(5);
   const [threshold, setThreshold] = useState(0.7);
+  const [retrievalMode, setRetrievalMode] = useState("hybrid");
+  const [vectorWeight, setVectorWeight] = useState(0.5);
+  const [reranker, setReranker] = useState("none");
+  const [rerankCandidates, setRerankCandidates] = useState(20);
+  const [expandRelated, setExpandRelated] = useState(false);
+  const [scopeCategory, setScopeCategory] = useState(ALL_CATEGORIES);
+  const [scopeDocumentIds, setScopeDocumentIds] = useState("");
   const [currentStep, setCurrentStep] = useState(0);
   const [lastQueryResponse, setLastQueryResponse] = useState<QueryResponse | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
 
   // Query for connection status
   const { data: connectionStatus, refetch: refetchConnections } = useQuery<ConnectionStatus>({
@@ -69,23 +129,91 @@ export default function Home() {
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
+  // Query for the embedding model the knowledge base is indexed with
+  const { data: indexSettings } = useQuery<IndexSettings>({
+    queryKey: ["/api/index/settings"],
+  });
+
+  useEffect(() => {
+    if (indexSettings) {
+      setEmbeddingModel(indexSettings.embeddingModel);
+    }
+  }, [indexSettings?.embeddingModel]);
+
+  // Query for stored documents, used to offer categories to scope queries to
+  const { data: documents } = useQuery<Array<{ id: string; category: string; documentId: string }>>({
+    queryKey: ["/api/documents"],
+  });
+  const categories = Array.from(new Set(documents?.map((document) => document.category) ?? [])).sort();
+
+  // Query for the prompt templates answers can be written with; a template deleted or
+  // belonging to another project falls back to the built-in one
+  const { data: promptTemplates } = useQuery<Array<{ id: string; name: string; description: string | null }>>({
+    queryKey: ["/api/prompt-templates"],
+  });
+  const activePromptTemplateId = promptTemplates?.some((template) => template.id === promptTemplateId)
+    ? promptTemplateId
+    : DEFAULT_PROMPT_TEMPLATE_ID;
+
   // Query for API logs
   const { data: apiLogs } = useQuery<ApiLog[]>({
     queryKey: ["/api/logs"],
     refetchInterval: 5000, // Refetch every 5 seconds
   });
 
-  // Mutation for processing queries
+  // Mutation for processing queries; the pipeline indicator follows the server's stage events
   const processQueryMutation = useMutation({
-    mutationFn: async (queryData: { query: string; topK: number; threshold: number; chatModel: string }) => {
-      const response = await apiRequest("POST", "/api/query", queryData);
-      return response.json();
+    mutationFn: async (queryData: { query: string; topK: number; threshold: number; chatModel: string; embeddingModel: string; retrieval: { mode: string; vectorWeight: number; reranker: string; rerankCandidates: number; expandRelated: boolean }; filter?: MetadataFilter; conversationId: string | null; promptTemplateId: string }) => {
+      let result: QueryResponse | null = null;
+
+      await streamRequest("/api/query/stream", queryData, ({ event, data }) => {
+        switch (event) {
+          case "embedding":
+            setCurrentStep(2);
+            setLastQueryResponse({
+              query: { responseTime: 0 },
+              embedding: data,
+              searchResults: [],
+              chatResponse: { response: "", tokensUsed: 0, model: queryData.chatModel, contextCount: 0, avgSimilarity: 0 },
+            });
+            break;
+          case "search":
+            setCurrentStep(3);
+            setLastQueryResponse((current) => current && {
+              ...current,
+              searchResults: data.searchResults,
+              chatResponse: {
+                ...current.chatResponse,
+                contextCount: data.searchResults.length,
+                avgSimilarity: data.searchResults.length > 0
+                  ? data.searchResults.reduce((sum: number, r: { score: number }) => sum + r.score, 0) / data.searchResults.length
+                  : 0,
+              },
+            });
+            break;
+          case "token":
+            setCurrentStep(4);
+            setLastQueryResponse((current) => current && {
+              ...current,
+              chatResponse: { ...current.chatResponse, response: current.chatResponse.response + data.delta },
+            });
+            break;
+          case "done":
+            result = data;
+            break;
+          case "error":
+            throw new Error(data.details || data.error);
+        }
+      });
+
+      if (!result) {
+        throw new Error("Stream ended before the response was complete");
+      }
+      return result;
     },
     onMutate: () => {
       setCurrentStep(1);
-      setTimeout(() => setCurrentStep(2), 500);
-      setTimeout(() => setCurrentStep(3), 1000);
-      setTimeout(() => setCurrentStep(4), 1500);
+      setLastQueryResponse(null);
     },
     onSuccess: (data: QueryResponse) => {
       setLastQueryResponse(data);
@@ -95,6 +223,10 @@ export default function Home() {
         description: `Found ${data.searchResults.length} relevant documents`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+      if (conversationId) {
+        setQuery("");
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      }
     },
     onError: (error) => {
       setCurrentStep(0);
@@ -108,19 +240,20 @@ export default function Home() {
 
   // Mutation for adding documents
   const addDocumentMutation = useMutation({
-    mutationFn: async (documentData: { content: string; category: string; documentId: string }) => {
+    mutationFn: async (documentData: { content: string; category: string; documentId: string; chunking: { strategy: string }; embeddingModel: string }) => {
       const response = await apiRequest("POST", "/api/documents", documentData);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { chunks: Array<{ id: string }> }) => {
       setDocumentText("");
       setDocumentId("");
       setCategory("");
       toast({
         title: "Document added successfully",
-        description: "Document has been embedded and stored in the knowledge base",
+        description: `Document has been split into ${data.chunks.length} chunks, embedded and stored in the knowledge base`,
       });
       refetchConnections();
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
     },
     onError: (error) => {
@@ -141,9 +274,10 @@ export default function Home() {
     onSuccess: () => {
       toast({
         title: "Knowledge base cleared",
-        description: "All documents have been removed from the knowledge base",
+        description: "All documents except story bible profiles have been removed",
       });
       refetchConnections();
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
     },
     onError: (error) => {
@@ -155,6 +289,32 @@ export default function Home() {
     },
   });
 
+  // Mutation for re-embedding the knowledge base with another model
+  const reembedMutation = useMutation({
+    mutationFn: async (model: string) => {
+      const response = await apiRequest("POST", "/api/index/reembed", { embeddingModel: model });
+      return response.json();
+    },
+    onSuccess: (data: { settings: { embeddingModel: string }; result: { chunks: number; failed: number } }) => {
+      setEmbeddingModel(data.settings.embeddingModel);
+      toast({
+        title: "Knowledge base re-embedded",
+        description: `${data.result.chunks} chunks embedded with ${data.settings.embeddingModel}` +
+          (data.result.failed > 0 ? `, ${data.result.failed} documents failed` : ""),
+      });
+      refetchConnections();
+      queryClient.invalidateQueries({ queryKey: ["/api/index/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to re-embed knowledge base",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Mutation for clearing logs
   const clearLogsMutation = useMutation({
     mutationFn: async () => {
@@ -177,6 +337,29 @@ export default function Home() {
     },
   });
 
+  // Metadata filter for the category and document IDs chosen in the sidebar
+  const buildScopeFilter = (): MetadataFilter | undefined => {
+    const filters: MetadataFilter[] = [];
+    if (scopeCategory !== ALL_CATEGORIES) {
+      filters.push({ category: scopeCategory });
+    }
+    const documentIds = scopeDocumentIds.split(",").map((id) => id.trim()).filter(Boolean);
+    if (documentIds.length > 0) {
+      filters.push({ documentId: { $in: documentIds } });
+    }
+    return filters.length > 1 ? { $and: filters } : filters[0];
+  };
+
+  // Retrieval settings for the tools that check or draft against canon
+  const canonSettings: ContinuitySettings = {
+    topK,
+    threshold,
+    chatModel,
+    embeddingModel,
+    retrieval: { mode: retrievalMode, vectorWeight, reranker, rerankCandidates },
+    filter: buildScopeFilter(),
+  };
+
   const handleProcessQuery = () => {
     if (!query.trim()) {
       toast({
@@ -192,6 +375,11 @@ export default function Home() {
       topK,
       threshold,
       chatModel,
+      embeddingModel,
+      retrieval: { mode: retrievalMode, vectorWeight, reranker, rerankCandidates, expandRelated },
+      filter: buildScopeFilter(),
+      conversationId,
+      promptTemplateId: activePromptTemplateId,
     });
   };
 
@@ -209,11 +397,27 @@ export default function Home() {
       content: documentText,
       category,
       documentId,
+      chunking: { strategy: chunkingStrategy },
+      embeddingModel,
     });
   };
 
+  // Vectors from different models cannot be compared, so switching model means re-embedding everything
+  const handleEmbeddingModelChange = (model: string) => {
+    if (model !== embeddingModel) {
+      setPendingEmbeddingModel(model);
+    }
+  };
+
+  const handleConfirmReembed = () => {
+    if (pendingEmbeddingModel) {
+      reembedMutation.mutate(pendingEmbeddingModel);
+    }
+    setPendingEmbeddingModel(null);
+  };
+
   const handleClearKnowledgeBase = () => {
-    if (window.confirm("Are you sure you want to clear the entire knowledge base?")) {
+    if (window.confirm("Are you sure you want to clear the knowledge base? Story bible profiles are kept.")) {
       clearKnowledgeBaseMutation.mutate();
     }
   };
@@ -235,10 +439,26 @@ export default function Home() {
             <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center">
               <Zap className="w-5 h-5 text-white" />
             </div>
-            <div>
+            <div className="flex-1 min-w-0">
               <h1 className="text-lg font-semibold text-white">RAG Pipeline</h1>
-              <p className="text-sm text-slate-400">ChatGPT + Pinecone</p>
+              <p className="text-sm text-slate-400 truncate" data-testid="text-current-user">
+                Signed in as {user?.username}
+              </p>
             </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-slate-400 hover:text-white"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              title="Log out"
+              data-testid="button-logout"
+            >
+              <LogOut className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="mt-4">
+            <ProjectSwitcher />
           </div>
         </div>
 
@@ -279,8 +499,8 @@ export default function Home() {
             <div className="space-y-4">
               <div>
                 <Label className="text-sm font-medium text-slate-300 mb-2">Embedding Model</Label>
-                <Select value={embeddingModel} onValueChange={setEmbeddingModel}>
-                  <SelectTrigger className="w-full bg-slate-800 border-slate-600 text-white">
+                <Select value={embeddingModel} onValueChange={handleEmbeddingModelChange} disabled={reembedMutation.isPending}>
+                  <SelectTrigger className="w-full bg-slate-800 border-slate-600 text-white" data-testid="select-embedding-model">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
@@ -289,6 +509,14 @@ export default function Home() {
                     <SelectItem value="text-embedding-ada-002">text-embedding-ada-002</SelectItem>
                   </SelectContent>
                 </Select>
+                {reembedMutation.isPending ? (
+                  <p className="flex items-center text-xs text-slate-400 mt-2">
+                    <Loader2 className="w-3 h-3 animate-spin mr-1" />
+                    Re-embedding knowledge base…
+                  </p>
+                ) : indexSettings && (
+                  <p className="text-xs text-slate-400 mt-2">{indexSettings.dimensions} dimensions</p>
+                )}
               </div>
               
               <div>
@@ -305,6 +533,25 @@ export default function Home() {
                 </Select>
               </div>
 
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-sm font-medium text-slate-300">Prompt Template</Label>
+                  <Link href="/prompts" className="text-xs text-blue-400 hover:underline" data-testid="link-edit-prompts">
+                    Edit
+                  </Link>
+                </div>
+                <Select value={activePromptTemplateId} onValueChange={setPromptTemplateId}>
+                  <SelectTrigger className="w-full bg-slate-800 border-slate-600 text-white" data-testid="select-prompt-template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(promptTemplates ?? []).map((template) => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div>
                 <Label className="text-sm font-medium text-slate-300 mb-2">Top K Results</Label>
                 <Input 
@@ -334,6 +581,101 @@ export default function Home() {
                   <span>1.0</span>
                 </div>
               </div>
+
+              <div>
+                <Label className="text-sm font-medium text-slate-300 mb-2">Retrieval Mode</Label>
+                <Select value={retrievalMode} onValueChange={setRetrievalMode}>
+                  <SelectTrigger className="w-full bg-slate-800 border-slate-600 text-white" data-testid="select-retrieval-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="vector">Vector only</SelectItem>
+                    <SelectItem value="hybrid">Hybrid (vector + BM25)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {retrievalMode === "hybrid" && (
+                <div>
+                  <Label className="text-sm font-medium text-slate-300 mb-2">Fusion Weight</Label>
+                  <input 
+                    type="range" 
+                    min="0" 
+                    max="1" 
+                    step="0.1" 
+                    value={vectorWeight}
+                    onChange={(e) => setVectorWeight(parseFloat(e.target.value))}
+                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                    data-testid="slider-fusion-weight"
+                  />
+                  <div className="flex justify-between text-xs text-slate-400 mt-1">
+                    <span>Keyword</span>
+                    <span>{vectorWeight.toFixed(1)}</span>
+                    <span>Vector</span>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <Label className="text-sm font-medium text-slate-300 mb-2">Reranker</Label>
+                <Select value={reranker} onValueChange={setReranker}>
+                  <SelectTrigger className="w-full bg-slate-800 border-slate-600 text-white" data-testid="select-reranker">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="lexical">Lexical overlap</SelectItem>
+                    <SelectItem value="llm">LLM scored</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {reranker !== "none" && (
+                <div>
+                  <Label className="text-sm font-medium text-slate-300 mb-2">Rerank Candidates</Label>
+                  <Input 
+                    type="number" 
+                    value={rerankCandidates} 
+                    onChange={(e) => setRerankCandidates(parseInt(e.target.value) || 20)}
+                    className="w-full bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-rerank-candidates"
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="switch-expand-related" className="text-sm font-medium text-slate-300">
+                  Expand with related characters
+                </Label>
+                <Switch
+                  id="switch-expand-related"
+                  checked={expandRelated}
+                  onCheckedChange={setExpandRelated}
+                  data-testid="switch-expand-related"
+                />
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium text-slate-300 mb-2">Scope</Label>
+                <Select value={scopeCategory} onValueChange={setScopeCategory}>
+                  <SelectTrigger className="w-full bg-slate-800 border-slate-600 text-white mb-2" data-testid="select-scope-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                    {categories.map((name) => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={scopeDocumentIds}
+                  onChange={(e) => setScopeDocumentIds(e.target.value)}
+                  placeholder="Document IDs, comma separated"
+                  className="w-full bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                  data-testid="input-scope-document-ids"
+                />
+              </div>
             </div>
           </div>
 
@@ -341,6 +683,56 @@ export default function Home() {
           <div className="space-y-4">
             <h3 className="text-sm font-medium text-slate-300 uppercase tracking-wide">Quick Actions</h3>
             <div className="space-y-2">
+              <Link href="/knowledge-base">
+                <Button 
+                  variant="outline" 
+                  className="w-full bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                  data-testid="link-knowledge-base"
+                >
+                  <Database className="w-4 h-4 mr-2" />
+                  Browse Knowledge Base
+                </Button>
+              </Link>
+              <Link href="/story-bible">
+                <Button 
+                  variant="outline" 
+                  className="w-full bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                  data-testid="link-story-bible"
+                >
+                  <BookOpen className="w-4 h-4 mr-2" />
+                  Story Bible
+                </Button>
+              </Link>
+              <Link href="/timeline">
+                <Button 
+                  variant="outline" 
+                  className="w-full bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                  data-testid="link-timeline"
+                >
+                  <Clock className="w-4 h-4 mr-2" />
+                  Timeline
+                </Button>
+              </Link>
+              <Link href="/graph">
+                <Button 
+                  variant="outline" 
+                  className="w-full bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                  data-testid="link-graph"
+                >
+                  <Share2 className="w-4 h-4 mr-2" />
+                  Relationship Graph
+                </Button>
+              </Link>
+              <Link href="/prompts">
+                <Button 
+                  variant="outline" 
+                  className="w-full bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                  data-testid="link-prompts"
+                >
+                  <MessageSquareText className="w-4 h-4 mr-2" />
+                  Prompt Templates
+                </Button>
+              </Link>
               <Button 
                 variant="outline" 
                 className="w-full bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
@@ -421,6 +813,8 @@ export default function Home() {
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
             {/* Input Panel */}
             <div className="space-y-6">
+              <ConversationThread conversationId={conversationId} onSelect={setConversationId} />
+
               <Card className="bg-slate-750 border-slate-600">
                 <CardContent className="p-6">
                   <h3 className="text-lg font-semibold text-white mb-4">Query Input</h3>
@@ -502,6 +896,20 @@ export default function Home() {
                       </div>
                     </div>
                     
+                    <div>
+                      <Label className="text-sm font-medium text-slate-300 mb-2">Chunking Strategy</Label>
+                      <Select value={chunkingStrategy} onValueChange={setChunkingStrategy}>
+                        <SelectTrigger className="w-full bg-slate-800 border-slate-600 text-white" data-testid="select-chunking-strategy">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="paragraph">Paragraphs &amp; headings</SelectItem>
+                          <SelectItem value="fixed">Fixed tokens with overlap</SelectItem>
+                          <SelectItem value="sentence">Sentence window</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
                     <Button 
                       className="w-full bg-green-600 hover:bg-green-700 text-white"
                       onClick={handleAddDocument}
@@ -515,6 +923,22 @@ export default function Home() {
                       )}
                       Add to Knowledge Base
                     </Button>
+
+                    <div className="flex items-center space-x-3">
+                      <Separator className="flex-1 bg-slate-700" />
+                      <span className="text-xs text-slate-400 uppercase">or upload files</span>
+                      <Separator className="flex-1 bg-slate-700" />
+                    </div>
+
+                    <DocumentUpload
+                      category={category}
+                      chunkingStrategy={chunkingStrategy}
+                      embeddingModel={embeddingModel}
+                      onUploaded={() => {
+                        refetchConnections();
+                        queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+                      }}
+                    />
                   </div>
                 </CardContent>
               </Card>
@@ -540,6 +964,22 @@ export default function Home() {
                           {lastQueryResponse.embedding.model}
                         </span>
                       </div>
+                      {lastQueryResponse.searchQuery && lastQueryResponse.searchQuery !== lastQueryResponse.query?.query && (
+                        <div className="text-sm">
+                          <span className="text-slate-300">Rewritten query:</span>
+                          <p className="text-slate-100 mt-1" data-testid="text-search-query">{lastQueryResponse.searchQuery}</p>
+                        </div>
+                      )}
+                      {lastQueryResponse.relatedFacts && lastQueryResponse.relatedFacts.length > 0 && (
+                        <div className="text-sm">
+                          <span className="text-slate-300">Related facts added to the search:</span>
+                          <ul className="mt-1 space-y-1 text-xs text-slate-400 list-disc list-inside" data-testid="list-related-facts">
+                            {lastQueryResponse.relatedFacts.map((fact, i) => (
+                              <li key={i}>{fact}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                       <div className="bg-slate-800 rounded-lg p-3">
                         <p className="text-xs text-slate-400 mb-2">Vector Preview (first 10 dimensions):</p>
                         <code className="text-xs text-green-400 font-mono break-all" data-testid="text-embedding-preview">
@@ -579,6 +1019,30 @@ export default function Home() {
                             <span>{result.category}</span>
                             <span>•</span>
                             <span>{new Date(result.timestamp).toLocaleDateString()}</span>
+                            {result.source && (
+                              <>
+                                <span>•</span>
+                                <span data-testid={`text-result-source-${index}`}>
+                                  {result.source.documentId} · chunk {result.source.chunkIndex + 1} (chars {result.source.startOffset}–{result.source.endOffset})
+                                </span>
+                              </>
+                            )}
+                            {result.rerankScore !== undefined && (
+                              <>
+                                <span>•</span>
+                                <span className="font-mono" data-testid={`text-result-rerank-${index}`}>
+                                  retrieval {result.score.toFixed(2)} (#{result.retrievalRank}) → rerank {result.rerankScore.toFixed(2)} (#{index + 1})
+                                </span>
+                              </>
+                            )}
+                            {(result.vectorScore !== undefined || result.keywordScore !== undefined) && (
+                              <>
+                                <span>•</span>
+                                <span className="font-mono" data-testid={`text-result-scores-${index}`}>
+                                  vector {result.vectorScore?.toFixed(2) ?? "–"} · bm25 {result.keywordScore?.toFixed(2) ?? "–"}
+                                </span>
+                              </>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -618,9 +1082,10 @@ export default function Home() {
                   {/* Response Content */}
                   <div className="bg-slate-800 rounded-lg p-4">
                     <div className="prose prose-invert max-w-none">
-                      <div className="text-slate-100 leading-relaxed whitespace-pre-wrap" data-testid="text-chat-response">
-                        {lastQueryResponse.chatResponse.response}
-                      </div>
+                      <CitedResponse
+                        response={lastQueryResponse.chatResponse.response}
+                        citations={lastQueryResponse.chatResponse.citations ?? citationsFromResults(lastQueryResponse.searchResults)}
+                      />
                     </div>
                   </div>
 
@@ -656,6 +1121,16 @@ export default function Home() {
             </Card>
           )}
 
+          {/* Continuity Check Section */}
+          <div className="mt-8">
+            <ContinuityPanel settings={canonSettings} />
+          </div>
+
+          {/* Scene Drafting Section */}
+          <div className="mt-8">
+            <SceneDrafter settings={canonSettings} />
+          </div>
+
           {/* API Logs Section */}
           <Card className="mt-8 bg-slate-750 border-slate-600">
             <CardContent className="p-6">
@@ -707,6 +1182,25 @@ export default function Home() {
           </Card>
         </div>
       </div>
+
+      <AlertDialog open={pendingEmbeddingModel !== null} onOpenChange={(open) => !open && setPendingEmbeddingModel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Re-embed knowledge base?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The knowledge base is indexed with {embeddingModel}. Switching to {pendingEmbeddingModel} removes every
+              stored vector and embeds all {indexSettings?.documentCount ?? 0} documents again. Queries cannot be answered
+              until it finishes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-reembed">Keep {embeddingModel}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmReembed} data-testid="button-confirm-reembed">
+              Re-embed
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,427 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import ProjectSwitcher from "@/components/project-switcher";
+import DocumentPreview, { type KnowledgeDocument } from "@/components/document-preview";
+import { ArrowLeft, ChevronLeft, ChevronRight, Database, Loader2, Pencil, Search, Trash2 } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+type SortOrder = "newest" | "oldest";
+
+// Full-text filter over everything a writer might remember about a document
+function matchesSearch(document: KnowledgeDocument, search: string): boolean {
+  if (!search) return true;
+  const haystack = [
+    document.documentId,
+    document.category,
+    document.content,
+    document.metadata ? JSON.stringify(document.metadata) : "",
+  ].join("\n").toLowerCase();
+  return search.toLowerCase().split(/\s+/).filter(Boolean).every((term) => haystack.includes(term));
+}
+
+export default function KnowledgeBase() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("newest");
+  const [page, setPage] = useState(1);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<KnowledgeDocument | null>(null);
+  const [editForm, setEditForm] = useState({ content: "", category: "", documentId: "" });
+  const [deleting, setDeleting] = useState<KnowledgeDocument | null>(null);
+
+  const { data: documents, isLoading } = useQuery<KnowledgeDocument[]>({
+    queryKey: ["/api/documents"],
+  });
+
+  // Category facets count every document, regardless of the other filters
+  const facets = Array.from(
+    (documents ?? []).reduce((counts, document) => {
+      counts.set(document.category, (counts.get(document.category) ?? 0) + 1);
+      return counts;
+    }, new Map<string, number>()),
+  ).sort(([a], [b]) => a.localeCompare(b));
+
+  const filtered = (documents ?? [])
+    .filter((document) => selectedCategories.length === 0 || selectedCategories.includes(document.category))
+    .filter((document) => matchesSearch(document, search))
+    .sort((a, b) => {
+      const difference = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+      return sortOrder === "newest" ? -difference : difference;
+    });
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const pageDocuments = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  const previewDocument = documents?.find((document) => document.id === previewId) ?? null;
+
+  // Go back to the first page whenever the result set changes shape
+  useEffect(() => {
+    setPage(1);
+  }, [search, selectedCategories, sortOrder]);
+
+  useEffect(() => {
+    if (page > pageCount) setPage(pageCount);
+  }, [page, pageCount]);
+
+  const toggleCategory = (category: string) => {
+    setSelectedCategories((current) =>
+      current.includes(category) ? current.filter((name) => name !== category) : [...current, category],
+    );
+  };
+
+  const openEditor = (document: KnowledgeDocument) => {
+    setEditForm({ content: document.content, category: document.category, documentId: document.documentId });
+    setEditing(document);
+  };
+
+  const updateDocumentMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: typeof editForm }) => {
+      const response = await apiRequest("PATCH", `/api/documents/${id}`, changes);
+      return response.json();
+    },
+    onSuccess: (data: { document: KnowledgeDocument; reembedded: boolean; chunks: unknown[] }) => {
+      toast({
+        title: "Document updated",
+        description: data.reembedded
+          ? `Saved as version ${data.document.version} and re-embedded into ${data.chunks.length} chunks`
+          : `Saved as version ${data.document.version}`,
+      });
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update document",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteDocumentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/documents/${id}`);
+      return response.json();
+    },
+    onSuccess: (_data, id) => {
+      toast({
+        title: "Document deleted",
+        description: "The document and its vectors have been removed",
+      });
+      if (previewId === id) setPreviewId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/test-connections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete document",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveEdit = () => {
+    if (!editing) return;
+    if (!editForm.content.trim() || !editForm.category.trim() || !editForm.documentId.trim()) {
+      toast({
+        title: "All fields required",
+        description: "Please fill in all document fields",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateDocumentMutation.mutate({ id: editing.id, changes: editForm });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-850 text-slate-100">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white" data-testid="link-home">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Pipeline
+            </Button>
+          </Link>
+          <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center">
+            <Database className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold text-white">Knowledge Base</h1>
+            <p className="text-sm text-slate-400">{documents?.length ?? 0} documents</p>
+          </div>
+        </div>
+        <div className="w-64">
+          <ProjectSwitcher />
+        </div>
+      </div>
+
+      <div className="flex p-6 gap-6">
+        {/* Category facets */}
+        <div className="w-56 shrink-0 space-y-2">
+          <h3 className="text-sm font-medium text-slate-300 uppercase tracking-wide mb-3">Categories</h3>
+          <button
+            type="button"
+            className={`flex w-full items-center justify-between px-3 py-2 rounded-lg text-sm ${
+              selectedCategories.length === 0 ? "bg-blue-500/10 text-blue-400" : "text-slate-300 hover:bg-slate-800"
+            }`}
+            onClick={() => setSelectedCategories([])}
+            data-testid="facet-all"
+          >
+            <span>All</span>
+            <span className="text-xs text-slate-400">{documents?.length ?? 0}</span>
+          </button>
+          {facets.map(([category, count]) => (
+            <button
+              key={category}
+              type="button"
+              className={`flex w-full items-center justify-between px-3 py-2 rounded-lg text-sm ${
+                selectedCategories.includes(category) ? "bg-blue-500/10 text-blue-400" : "text-slate-300 hover:bg-slate-800"
+              }`}
+              onClick={() => toggleCategory(category)}
+              data-testid={`facet-${category}`}
+            >
+              <span className="truncate">{category}</span>
+              <span className="text-xs text-slate-400">{count}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Document list */}
+        <div className="flex-1 min-w-0 space-y-4">
+          <div className="flex items-center space-x-3">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Filter by text, document ID or metadata..."
+                className="pl-9 bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                data-testid="input-filter-documents"
+              />
+            </div>
+            <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+              <SelectTrigger className="w-44 bg-slate-800 border-slate-600 text-white" data-testid="select-sort-documents">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">Newest first</SelectItem>
+                <SelectItem value="oldest">Oldest first</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Card className="bg-slate-750 border-slate-600">
+            <CardContent className="p-0">
+              {isLoading ? (
+                <div className="flex justify-center p-8">
+                  <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+                </div>
+              ) : pageDocuments.length === 0 ? (
+                <div className="p-8 text-center text-sm text-slate-400">
+                  {documents?.length ? "No documents match the current filters" : "The knowledge base is empty"}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-slate-700 hover:bg-transparent">
+                      <TableHead className="text-slate-400">Document</TableHead>
+                      <TableHead className="text-slate-400">Category</TableHead>
+                      <TableHead className="text-slate-400">Version</TableHead>
+                      <TableHead className="text-slate-400">Created</TableHead>
+                      <TableHead className="text-slate-400 text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pageDocuments.map((document) => (
+                      <TableRow
+                        key={document.id}
+                        className="border-slate-700 hover:bg-slate-800 cursor-pointer"
+                        onClick={() => setPreviewId(document.id)}
+                        data-testid={`row-document-${document.id}`}
+                      >
+                        <TableCell className="max-w-md">
+                          <div className="font-medium text-white">{document.documentId}</div>
+                          <div className="text-xs text-slate-400 truncate">{document.content.slice(0, 160)}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className="text-xs">{document.category}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-slate-300">v{document.version}</TableCell>
+                        <TableCell className="text-slate-300">{new Date(document.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-slate-400 hover:text-white"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openEditor(document);
+                            }}
+                            data-testid={`button-edit-${document.id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-slate-400 hover:text-red-400"
+                            // Profiles are removed by deleting their entity in the story bible
+                            disabled={document.metadata?.source === "story-bible"}
+                            title={document.metadata?.source === "story-bible" ? "Delete the entity in the story bible to remove its profile" : undefined}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setDeleting(document);
+                            }}
+                            data-testid={`button-delete-${document.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-sm text-slate-400">
+            <span>
+              {filtered.length === 0
+                ? "0 documents"
+                : `${(page - 1) * PAGE_SIZE + 1}–${Math.min(page * PAGE_SIZE, filtered.length)} of ${filtered.length}`}
+            </span>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                data-testid="button-previous-page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span>
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount}
+                data-testid="button-next-page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <DocumentPreview document={previewDocument} onClose={() => setPreviewId(null)} />
+
+      {/* Edit dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit {editing?.documentId}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm font-medium mb-2">Document ID</Label>
+                <Input
+                  value={editForm.documentId}
+                  onChange={(e) => setEditForm({ ...editForm, documentId: e.target.value })}
+                  data-testid="input-edit-document-id"
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-medium mb-2">Category</Label>
+                <Input
+                  value={editForm.category}
+                  onChange={(e) => setEditForm({ ...editForm, category: e.target.value })}
+                  data-testid="input-edit-category"
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="text-sm font-medium mb-2">Content</Label>
+              <Textarea
+                value={editForm.content}
+                onChange={(e) => setEditForm({ ...editForm, content: e.target.value })}
+                className="h-72 resize-none"
+                data-testid="textarea-edit-content"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              className="bg-blue-500 hover:bg-blue-600"
+              onClick={handleSaveEdit}
+              disabled={updateDocumentMutation.isPending}
+              data-testid="button-save-document"
+            >
+              {updateDocumentMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.documentId}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The document, its chunks, its vectors and its version history will be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-500 hover:bg-red-600"
+              onClick={() => deleting && deleteDocumentMutation.mutate(deleting.id)}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
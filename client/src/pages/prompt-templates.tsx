@@ -0,0 +1,421 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { promptTemplateVariables, renderPromptTemplate } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import ProjectSwitcher from "@/components/project-switcher";
+import { ArrowLeft, Copy, Eye, Loader2, MessageSquareText, Plus, Save, Trash2 } from "lucide-react";
+
+interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  systemMessage: string | null;
+  userTemplate: string;
+  temperature: number;
+  maxTokens: number;
+  topP: number | null;
+  builtIn?: true;
+}
+
+interface TemplateForm {
+  name: string;
+  description: string;
+  systemMessage: string;
+  userTemplate: string;
+  temperature: string;
+  maxTokens: string;
+  topP: string;
+}
+
+const emptyForm = (): TemplateForm => ({
+  name: "",
+  description: "",
+  systemMessage: "",
+  userTemplate: "Context:\n{context}\n\nQuestion: {query}",
+  temperature: "0.7",
+  maxTokens: "1000",
+  topP: "",
+});
+
+// Stands in for earlier turns so templates using {conversation} preview with something in it
+const SAMPLE_CONVERSATION = [
+  { role: "user", content: "Who is the narrator?" },
+  { role: "assistant", content: "The story is narrated by the lighthouse keeper's daughter [1]." },
+];
+
+function toForm(template: PromptTemplate): TemplateForm {
+  return {
+    name: template.name,
+    description: template.description ?? "",
+    systemMessage: template.systemMessage ?? "",
+    userTemplate: template.userTemplate,
+    temperature: template.temperature.toString(),
+    maxTokens: template.maxTokens.toString(),
+    topP: template.topP?.toString() ?? "",
+  };
+}
+
+function toPayload(form: TemplateForm) {
+  return {
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    systemMessage: form.systemMessage.trim() ? form.systemMessage : null,
+    userTemplate: form.userTemplate,
+    temperature: Number(form.temperature),
+    maxTokens: parseInt(form.maxTokens),
+    topP: form.topP.trim() ? Number(form.topP) : null,
+  };
+}
+
+export default function PromptTemplates() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm>(emptyForm());
+  const [sampleQuery, setSampleQuery] = useState("");
+  const [sampleContext, setSampleContext] = useState<string[] | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<PromptTemplate[]>({
+    queryKey: ["/api/prompt-templates"],
+  });
+
+  const selected = templates.find((template) => template.id === selectedId);
+  const readOnly = !!selected?.builtIn;
+  const preview = renderPromptTemplate(
+    { systemMessage: form.systemMessage, userTemplate: form.userTemplate },
+    { query: sampleQuery.trim() || "(sample query)", context: sampleContext ?? [], conversation: SAMPLE_CONVERSATION },
+  );
+  const missingQuery = !form.userTemplate.includes("{query}");
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = selectedId
+        ? await apiRequest("PUT", `/api/prompt-templates/${selectedId}`, toPayload(form))
+        : await apiRequest("POST", "/api/prompt-templates", toPayload(form));
+      return response.json() as Promise<PromptTemplate>;
+    },
+    onSuccess: (template) => {
+      toast({ title: selectedId ? "Template saved" : "Template created", description: template.name });
+      setSelectedId(template.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/prompt-templates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: onError("Failed to save template"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/prompt-templates/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Template deleted" });
+      setSelectedId(null);
+      setForm(emptyForm());
+      queryClient.invalidateQueries({ queryKey: ["/api/prompt-templates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+    },
+    onError: onError("Failed to delete template"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/prompt-templates/preview", { query: sampleQuery });
+      return response.json() as Promise<{ context: string[] }>;
+    },
+    onSuccess: (result) => setSampleContext(result.context),
+    onError: onError("Failed to retrieve sample context"),
+  });
+
+  const select = (template: PromptTemplate) => {
+    setSelectedId(template.id);
+    setForm(toForm(template));
+  };
+
+  const startNew = () => {
+    setSelectedId(null);
+    setForm(emptyForm());
+  };
+
+  // Start a new template from the one being viewed, which is how the built-in one is customised
+  const duplicate = () => {
+    setSelectedId(null);
+    setForm({ ...form, name: `${form.name} (copy)` });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-850 text-slate-100">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white" data-testid="link-home">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Pipeline
+            </Button>
+          </Link>
+          <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center">
+            <MessageSquareText className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold text-white">Prompt Templates</h1>
+            <p className="text-sm text-slate-400">{templates.length} templates</p>
+          </div>
+        </div>
+        <div className="w-64">
+          <ProjectSwitcher />
+        </div>
+      </div>
+
+      <div className="flex p-6 gap-6">
+        {/* Template list */}
+        <div className="w-72 shrink-0 space-y-4">
+          <Button className="w-full bg-blue-600 hover:bg-blue-700" onClick={startNew} data-testid="button-new-template">
+            <Plus className="w-4 h-4 mr-2" />
+            New Template
+          </Button>
+          <div className="space-y-1">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+            ) : (
+              templates.map((template) => (
+                <button
+                  key={template.id}
+                  type="button"
+                  className={`w-full px-3 py-2 rounded-lg text-sm text-left ${
+                    selectedId === template.id ? "bg-blue-500/10 text-blue-400" : "text-slate-300 hover:bg-slate-800"
+                  }`}
+                  onClick={() => select(template)}
+                  data-testid={`template-${template.id}`}
+                >
+                  <span className="flex items-center justify-between">
+                    <span className="truncate">{template.name}</span>
+                    {template.builtIn && <Badge variant="secondary" className="text-xs ml-2">built-in</Badge>}
+                  </span>
+                  {template.description && <span className="block text-xs text-slate-400 truncate">{template.description}</span>}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0 grid grid-cols-2 gap-6 items-start">
+          {/* Editor */}
+          <Card className="bg-slate-750 border-slate-600">
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-white">
+                  {selected ? selected.name : "New template"}
+                </h3>
+                <div className="flex items-center space-x-2">
+                  {selected && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-white"
+                      onClick={duplicate}
+                      data-testid="button-duplicate-template"
+                    >
+                      <Copy className="w-4 h-4 mr-1" />
+                      Duplicate
+                    </Button>
+                  )}
+                  {selected && !readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-red-400"
+                      onClick={() => deleteMutation.mutate(selected.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-template"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                  {!readOnly && (
+                    <Button
+                      size="sm"
+                      className="bg-blue-600 hover:bg-blue-700"
+                      onClick={() => saveMutation.mutate()}
+                      disabled={!form.name.trim() || missingQuery || saveMutation.isPending}
+                      data-testid="button-save-template"
+                    >
+                      {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+                      Save
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {readOnly && (
+                <p className="text-xs text-slate-400">
+                  The built-in template cannot be changed; duplicate it to make your own version
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Name</Label>
+                  <Input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    disabled={readOnly}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-template-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Description</Label>
+                  <Input
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    disabled={readOnly}
+                    placeholder="Optional"
+                    className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                    data-testid="input-template-description"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-slate-300">System message</Label>
+                <Textarea
+                  value={form.systemMessage}
+                  onChange={(e) => setForm({ ...form, systemMessage: e.target.value })}
+                  disabled={readOnly}
+                  placeholder="Optional, e.g. You are a meticulous editor of a fantasy series..."
+                  className="h-24 bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                  data-testid="input-template-system"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-slate-300">User message</Label>
+                <Textarea
+                  value={form.userTemplate}
+                  onChange={(e) => setForm({ ...form, userTemplate: e.target.value })}
+                  disabled={readOnly}
+                  className="h-48 bg-slate-800 border-slate-600 text-white font-mono text-xs"
+                  data-testid="input-template-user"
+                />
+                <div className="flex flex-wrap items-center gap-1 text-xs text-slate-400">
+                  <span>Variables:</span>
+                  {promptTemplateVariables.map((name) => (
+                    <Badge key={name} variant="secondary" className="text-xs font-mono">{`{${name}}`}</Badge>
+                  ))}
+                </div>
+                {missingQuery && (
+                  <p className="text-xs text-red-400">The user message must include {"{query}"}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Temperature</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={form.temperature}
+                    onChange={(e) => setForm({ ...form, temperature: e.target.value })}
+                    disabled={readOnly}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-template-temperature"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Max tokens</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={form.maxTokens}
+                    onChange={(e) => setForm({ ...form, maxTokens: e.target.value })}
+                    disabled={readOnly}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-template-max-tokens"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Top P</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={form.topP}
+                    onChange={(e) => setForm({ ...form, topP: e.target.value })}
+                    disabled={readOnly}
+                    placeholder="Model default"
+                    className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                    data-testid="input-template-top-p"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Live preview */}
+          <Card className="bg-slate-750 border-slate-600">
+            <CardContent className="p-6 space-y-4">
+              <h3 className="text-lg font-semibold text-white">Preview</h3>
+              <div className="flex space-x-2">
+                <Input
+                  value={sampleQuery}
+                  onChange={(e) => setSampleQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && sampleQuery.trim() && previewMutation.mutate()}
+                  placeholder="Sample query..."
+                  className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                  data-testid="input-sample-query"
+                />
+                <Button
+                  variant="secondary"
+                  onClick={() => previewMutation.mutate()}
+                  disabled={!sampleQuery.trim() || previewMutation.isPending}
+                  data-testid="button-preview-template"
+                >
+                  {previewMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Eye className="w-4 h-4 mr-1" />}
+                  Retrieve
+                </Button>
+              </div>
+              <p className="text-xs text-slate-400">
+                {sampleContext === null
+                  ? "Retrieve context for the sample query to see it in place of {context}"
+                  : `${sampleContext.length} passages retrieved with the default search settings`}
+                {preview.usesConversation && "; {conversation} shows a sample exchange"}
+              </p>
+
+              {preview.system !== null && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-slate-400 uppercase tracking-wide">System</Label>
+                  <pre className="bg-slate-800 rounded-lg p-3 text-xs text-slate-200 whitespace-pre-wrap font-mono" data-testid="preview-system">
+                    {preview.system}
+                  </pre>
+                </div>
+              )}
+              {!preview.usesConversation && (
+                <p className="text-xs text-slate-400">Earlier turns of a conversation are sent as separate messages before this one</p>
+              )}
+              <div className="space-y-1">
+                <Label className="text-xs text-slate-400 uppercase tracking-wide">User</Label>
+                <pre className="bg-slate-800 rounded-lg p-3 text-xs text-slate-200 whitespace-pre-wrap font-mono max-h-[32rem] overflow-y-auto" data-testid="preview-user">
+                  {preview.user}
+                </pre>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
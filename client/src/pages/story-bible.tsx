@@ -0,0 +1,543 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  entityFieldDefinitions,
+  entityTypes,
+  relationshipLabels,
+  relationshipTypes,
+  type EntityType,
+  type RelationshipType,
+} from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import ProjectSwitcher from "@/components/project-switcher";
+import EntityCandidates from "@/components/entity-candidates";
+import { ArrowLeft, BookOpen, Link2, Loader2, Plus, Save, Search, Trash2 } from "lucide-react";
+
+interface StoryEntity {
+  id: string;
+  type: EntityType;
+  name: string;
+  aliases: string[];
+  summary: string | null;
+  fields: Record<string, string>;
+  profileDocumentId: string | null;
+  updatedAt: string;
+}
+
+interface EntityRelationship {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  type: RelationshipType;
+  description: string | null;
+  direction: "outgoing" | "incoming";
+  otherEntity: { id: string; name: string; type: EntityType };
+}
+
+interface EntityDetail {
+  entity: StoryEntity;
+  relationships: EntityRelationship[];
+  profile: string;
+}
+
+interface EntityForm {
+  type: EntityType;
+  name: string;
+  aliases: string;
+  summary: string;
+  fields: Record<string, string>;
+}
+
+const TYPE_LABELS: Record<EntityType, string> = {
+  character: "Characters",
+  location: "Locations",
+  organization: "Organizations",
+  artifact: "Artifacts",
+};
+
+const emptyForm = (type: EntityType = "character"): EntityForm => ({ type, name: "", aliases: "", summary: "", fields: {} });
+
+function toForm(entity: StoryEntity): EntityForm {
+  return {
+    type: entity.type,
+    name: entity.name,
+    aliases: entity.aliases.join(", "),
+    summary: entity.summary ?? "",
+    fields: { ...entity.fields },
+  };
+}
+
+// Only the fields defined for the chosen type are sent, and empty ones are dropped
+function toPayload(form: EntityForm) {
+  const fields = Object.fromEntries(
+    entityFieldDefinitions[form.type]
+      .filter((field) => form.fields[field.key]?.trim())
+      .map((field) => [field.key, form.fields[field.key].trim()]),
+  );
+  return {
+    type: form.type,
+    name: form.name.trim(),
+    aliases: form.aliases.split(",").map((alias) => alias.trim()).filter(Boolean),
+    summary: form.summary.trim() || null,
+    fields,
+  };
+}
+
+export default function StoryBible() {
+  const { toast } = useToast();
+  const [typeFilter, setTypeFilter] = useState<EntityType | null>(null);
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<EntityForm>(emptyForm());
+  const [deleting, setDeleting] = useState(false);
+  const [newRelationship, setNewRelationship] = useState<{ type: RelationshipType; targetId: string; description: string }>({
+    type: "related_to",
+    targetId: "",
+    description: "",
+  });
+
+  const { data: entities, isLoading } = useQuery<StoryEntity[]>({
+    queryKey: ["/api/entities"],
+  });
+
+  const { data: detail } = useQuery<EntityDetail>({
+    queryKey: ["/api/entities", selectedId],
+    enabled: !!selectedId,
+  });
+
+  useEffect(() => {
+    if (detail) setForm(toForm(detail.entity));
+  }, [detail]);
+
+  const visible = (entities ?? []).filter((entity) =>
+    (!typeFilter || entity.type === typeFilter) &&
+    [entity.name, ...entity.aliases].join(" ").toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  const invalidateEntities = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/entities"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/relationships"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = selectedId
+        ? await apiRequest("PUT", `/api/entities/${selectedId}`, toPayload(form))
+        : await apiRequest("POST", "/api/entities", toPayload(form));
+      return response.json() as Promise<StoryEntity>;
+    },
+    onSuccess: (entity) => {
+      toast({ title: selectedId ? "Entity saved" : "Entity created", description: `${entity.name}'s profile was re-indexed` });
+      setSelectedId(entity.id);
+      invalidateEntities();
+    },
+    onError: onError("Failed to save entity"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/entities/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Entity deleted" });
+      setDeleting(false);
+      setSelectedId(null);
+      setForm(emptyForm());
+      invalidateEntities();
+    },
+    onError: onError("Failed to delete entity"),
+  });
+
+  const addRelationshipMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/relationships", {
+        sourceId: selectedId,
+        targetId: newRelationship.targetId,
+        type: newRelationship.type,
+        description: newRelationship.description.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewRelationship({ type: "related_to", targetId: "", description: "" });
+      invalidateEntities();
+    },
+    onError: onError("Failed to add relationship"),
+  });
+
+  const removeRelationshipMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/relationships/${id}`);
+    },
+    onSuccess: invalidateEntities,
+    onError: onError("Failed to remove relationship"),
+  });
+
+  const startNew = () => {
+    setSelectedId(null);
+    setForm(emptyForm(typeFilter ?? "character"));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-850 text-slate-100">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white" data-testid="link-home">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Pipeline
+            </Button>
+          </Link>
+          <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center">
+            <BookOpen className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold text-white">Story Bible</h1>
+            <p className="text-sm text-slate-400">{entities?.length ?? 0} entities</p>
+          </div>
+        </div>
+        <div className="w-64">
+          <ProjectSwitcher />
+        </div>
+      </div>
+
+      <div className="flex p-6 gap-6">
+        {/* Entity list */}
+        <div className="w-72 shrink-0 space-y-4">
+          <Button className="w-full bg-blue-600 hover:bg-blue-700" onClick={startNew} data-testid="button-new-entity">
+            <Plus className="w-4 h-4 mr-2" />
+            New Entity
+          </Button>
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Filter by name or alias..."
+              className="pl-9 bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+              data-testid="input-filter-entities"
+            />
+          </div>
+          <div className="flex flex-wrap gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className={!typeFilter ? "bg-blue-500/10 text-blue-400" : "text-slate-300"}
+              onClick={() => setTypeFilter(null)}
+              data-testid="filter-all"
+            >
+              All
+            </Button>
+            {entityTypes.map((type) => (
+              <Button
+                key={type}
+                variant="ghost"
+                size="sm"
+                className={typeFilter === type ? "bg-blue-500/10 text-blue-400" : "text-slate-300"}
+                onClick={() => setTypeFilter(type)}
+                data-testid={`filter-${type}`}
+              >
+                {TYPE_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+          <div className="space-y-1">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+            ) : visible.length === 0 ? (
+              <p className="text-sm text-slate-400">
+                {entities?.length ? "No entities match the current filters" : "The story bible is empty"}
+              </p>
+            ) : (
+              visible.map((entity) => (
+                <button
+                  key={entity.id}
+                  type="button"
+                  className={`flex w-full items-center justify-between px-3 py-2 rounded-lg text-sm text-left ${
+                    selectedId === entity.id ? "bg-blue-500/10 text-blue-400" : "text-slate-300 hover:bg-slate-800"
+                  }`}
+                  onClick={() => setSelectedId(entity.id)}
+                  data-testid={`entity-${entity.id}`}
+                >
+                  <span className="truncate">{entity.name}</span>
+                  <Badge variant="secondary" className="text-xs ml-2">{entity.type}</Badge>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Editor */}
+        <div className="flex-1 min-w-0 space-y-6">
+          <EntityCandidates entities={entities ?? []} onResolved={setSelectedId} />
+
+          <Card className="bg-slate-750 border-slate-600">
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-white">
+                  {selectedId ? `Edit ${detail?.entity.name ?? ""}` : "New entity"}
+                </h3>
+                <div className="flex items-center space-x-2">
+                  {selectedId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-red-400"
+                      onClick={() => setDeleting(true)}
+                      data-testid="button-delete-entity"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    className="bg-blue-600 hover:bg-blue-700"
+                    onClick={() => saveMutation.mutate()}
+                    disabled={!form.name.trim() || saveMutation.isPending}
+                    data-testid="button-save-entity"
+                  >
+                    {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+                    Save
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label className="text-sm font-medium mb-2">Type</Label>
+                  <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as EntityType })}>
+                    <SelectTrigger className="bg-slate-800 border-slate-600 text-white" data-testid="select-entity-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {entityTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium mb-2">Name</Label>
+                  <Input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-entity-name"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm font-medium mb-2">Aliases</Label>
+                  <Input
+                    value={form.aliases}
+                    onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                    placeholder="Comma separated"
+                    className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                    data-testid="input-entity-aliases"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium mb-2">Summary</Label>
+                <Textarea
+                  value={form.summary}
+                  onChange={(e) => setForm({ ...form, summary: e.target.value })}
+                  className="h-20 bg-slate-800 border-slate-600 text-white"
+                  data-testid="input-entity-summary"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {entityFieldDefinitions[form.type].map((field) => (
+                  <div key={field.key} className={field.multiline ? "col-span-2" : undefined}>
+                    <Label className="text-sm font-medium mb-2">{field.label}</Label>
+                    {field.multiline ? (
+                      <Textarea
+                        value={form.fields[field.key] ?? ""}
+                        onChange={(e) => setForm({ ...form, fields: { ...form.fields, [field.key]: e.target.value } })}
+                        className="h-24 bg-slate-800 border-slate-600 text-white"
+                        data-testid={`input-field-${field.key}`}
+                      />
+                    ) : (
+                      <Input
+                        value={form.fields[field.key] ?? ""}
+                        onChange={(e) => setForm({ ...form, fields: { ...form.fields, [field.key]: e.target.value } })}
+                        className="bg-slate-800 border-slate-600 text-white"
+                        data-testid={`input-field-${field.key}`}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {selectedId && detail && (
+            <Card className="bg-slate-750 border-slate-600">
+              <CardContent className="p-6 space-y-4">
+                <h3 className="text-lg font-semibold text-white">Relationships</h3>
+                {detail.relationships.length === 0 ? (
+                  <p className="text-sm text-slate-400">No relationships yet</p>
+                ) : (
+                  detail.relationships.map((relationship) => {
+                    const [source, target] = relationship.direction === "outgoing"
+                      ? [detail.entity.name, relationship.otherEntity.name]
+                      : [relationship.otherEntity.name, detail.entity.name];
+                    return (
+                      <div
+                        key={relationship.id}
+                        className="flex items-center justify-between p-3 bg-slate-800 rounded-lg text-sm"
+                        data-testid={`relationship-${relationship.id}`}
+                      >
+                        <div className="text-slate-300">
+                          <button
+                            type="button"
+                            className={relationship.direction === "incoming" ? "text-blue-400 hover:underline" : "text-white"}
+                            onClick={() => relationship.direction === "incoming" && setSelectedId(relationship.otherEntity.id)}
+                          >
+                            {source}
+                          </button>
+                          {" "}{relationshipLabels[relationship.type] ?? relationship.type}{" "}
+                          <button
+                            type="button"
+                            className={relationship.direction === "outgoing" ? "text-blue-400 hover:underline" : "text-white"}
+                            onClick={() => relationship.direction === "outgoing" && setSelectedId(relationship.otherEntity.id)}
+                          >
+                            {target}
+                          </button>
+                          {relationship.description && (
+                            <p className="text-xs text-slate-400 mt-1">{relationship.description}</p>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-slate-400 hover:text-red-400"
+                          onClick={() => removeRelationshipMutation.mutate(relationship.id)}
+                          disabled={removeRelationshipMutation.isPending}
+                          data-testid={`button-remove-relationship-${relationship.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    );
+                  })
+                )}
+
+                <Separator className="bg-slate-700" />
+
+                <div className="grid grid-cols-3 gap-3">
+                  <Select
+                    value={newRelationship.type}
+                    onValueChange={(value) => setNewRelationship({ ...newRelationship, type: value as RelationshipType })}
+                  >
+                    <SelectTrigger className="bg-slate-800 border-slate-600 text-white" data-testid="select-relationship-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {relationshipTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{relationshipLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={newRelationship.targetId}
+                    onValueChange={(value) => setNewRelationship({ ...newRelationship, targetId: value })}
+                  >
+                    <SelectTrigger className="bg-slate-800 border-slate-600 text-white" data-testid="select-relationship-target">
+                      <SelectValue placeholder="Choose an entity" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {entities?.filter((entity) => entity.id !== selectedId).map((entity) => (
+                        <SelectItem key={entity.id} value={entity.id}>{entity.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={newRelationship.description}
+                    onChange={(e) => setNewRelationship({ ...newRelationship, description: e.target.value })}
+                    placeholder="Details (optional)"
+                    className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                    data-testid="input-relationship-description"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700"
+                  onClick={() => addRelationshipMutation.mutate()}
+                  disabled={!newRelationship.targetId || addRelationshipMutation.isPending}
+                  data-testid="button-add-relationship"
+                >
+                  <Link2 className="w-4 h-4 mr-2" />
+                  {detail.entity.name} {relationshipLabels[newRelationship.type]} …
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {selectedId && detail && (
+            <Card className="bg-slate-750 border-slate-600">
+              <CardContent className="p-6 space-y-2">
+                <h3 className="text-lg font-semibold text-white">Indexed Profile</h3>
+                <p className="text-xs text-slate-400">
+                  This text is embedded as the document {detail.entity.profileDocumentId ? "linked to this entity" : "once the entity is saved"} and is what queries about {detail.entity.name} retrieve.
+                </p>
+                <pre className="p-3 bg-slate-800 rounded-lg text-xs text-slate-300 whitespace-pre-wrap" data-testid="entity-profile">
+                  {detail.profile}
+                </pre>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={deleting} onOpenChange={setDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {detail?.entity.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The entity, its relationships and its indexed profile are removed. Related entities are re-indexed without it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedId && deleteMutation.mutate(selectedId)}
+              data-testid="button-confirm-delete-entity"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,601 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { timelineEventKinds, timelineRelations, type TimelineEventKind, type TimelineRelation } from "@shared/schema";
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ProjectSwitcher from "@/components/project-switcher";
+import { AlertTriangle, ArrowLeft, CheckCircle2, Clock, Loader2, Plus, Save, Trash2 } from "lucide-react";
+
+interface TimelinePlacement {
+  start: number;
+  end: number;
+  approximate: boolean;
+}
+
+interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  title: string;
+  description: string | null;
+  participants: string[];
+  location: string | null;
+  ages: Record<string, number>;
+  when: string | null;
+  startYear: number | null;
+  endYear: number | null;
+  durationYears: number | null;
+  anchorEventId: string | null;
+  relation: TimelineRelation | null;
+  offsetYears: number | null;
+  origin: "manual" | "extracted";
+  sourceDocumentId: string | null;
+  placement: TimelinePlacement | null;
+}
+
+interface TimelineIssue {
+  kind: "cycle" | "ordering" | "dates" | "age";
+  severity: "error" | "warning";
+  message: string;
+  eventIds: string[];
+  entityId?: string;
+}
+
+interface TimelineData {
+  events: TimelineEvent[];
+  issues: TimelineIssue[];
+}
+
+interface EventForm {
+  kind: TimelineEventKind;
+  title: string;
+  description: string;
+  participants: string;
+  location: string;
+  ages: string;
+  when: string;
+  startYear: string;
+  endYear: string;
+  durationYears: string;
+  anchorEventId: string;
+  relation: TimelineRelation | "";
+  offsetYears: string;
+}
+
+const KIND_COLORS: Record<TimelineEventKind, string> = {
+  event: "#3b82f6",
+  phase: "#8b5cf6",
+  birth: "#22c55e",
+  death: "#64748b",
+};
+
+const NO_ANCHOR = "none";
+
+const emptyForm = (): EventForm => ({
+  kind: "event",
+  title: "",
+  description: "",
+  participants: "",
+  location: "",
+  ages: "",
+  when: "",
+  startYear: "",
+  endYear: "",
+  durationYears: "",
+  anchorEventId: "",
+  relation: "",
+  offsetYears: "",
+});
+
+function toForm(event: TimelineEvent): EventForm {
+  return {
+    kind: event.kind,
+    title: event.title,
+    description: event.description ?? "",
+    participants: event.participants.join(", "),
+    location: event.location ?? "",
+    ages: Object.entries(event.ages).map(([name, age]) => `${name}: ${age}`).join(", "),
+    when: event.when ?? "",
+    startYear: event.startYear?.toString() ?? "",
+    endYear: event.endYear?.toString() ?? "",
+    durationYears: event.durationYears?.toString() ?? "",
+    anchorEventId: event.anchorEventId ?? "",
+    relation: event.relation ?? "",
+    offsetYears: event.offsetYears?.toString() ?? "",
+  };
+}
+
+const toNumber = (value: string) => (value.trim() ? Number(value) : null);
+
+// Ages are typed as "Name: 25, Other Name: 30"
+function toPayload(form: EventForm) {
+  const ages = Object.fromEntries(
+    form.ages.split(",")
+      .map((pair) => pair.split(":").map((part) => part.trim()))
+      .filter(([name, age]) => name && age && !Number.isNaN(Number(age)))
+      .map(([name, age]) => [name, Number(age)]),
+  );
+  const anchored = !!form.anchorEventId && !!form.relation;
+  return {
+    kind: form.kind,
+    title: form.title.trim(),
+    description: form.description.trim() || null,
+    participants: form.participants.split(",").map((name) => name.trim()).filter(Boolean),
+    location: form.location.trim() || null,
+    ages,
+    when: form.when.trim() || null,
+    startYear: toNumber(form.startYear),
+    endYear: toNumber(form.endYear),
+    durationYears: toNumber(form.durationYears),
+    anchorEventId: anchored ? form.anchorEventId : null,
+    relation: anchored ? form.relation : null,
+    offsetYears: anchored ? toNumber(form.offsetYears) : null,
+  };
+}
+
+function formatPlacement(placement: TimelinePlacement | null): string {
+  if (!placement) return "unplaced";
+  const first = Math.floor(placement.start);
+  const last = Math.ceil(placement.end) - 1;
+  return `${placement.approximate ? "~" : ""}${first === last ? first : `${first}–${last}`}`;
+}
+
+export default function Timeline() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<EventForm>(emptyForm());
+  const [participantFilter, setParticipantFilter] = useState("");
+
+  const { data, isLoading } = useQuery<TimelineData>({
+    queryKey: ["/api/timeline"],
+  });
+
+  const events = data?.events ?? [];
+  const issues = data?.issues ?? [];
+  const flagged = new Set(issues.flatMap((issue) => issue.eventIds));
+  const filter = participantFilter.trim().toLowerCase();
+  const visible = events.filter((event) =>
+    !filter || event.participants.some((name) => name.toLowerCase().includes(filter))
+  );
+  const chartData = visible
+    .filter((event) => event.placement)
+    .map((event) => ({ ...event, range: [event.placement!.start, event.placement!.end] }));
+  const titleOf = (id: string) => events.find((event) => event.id === id)?.title ?? id;
+
+  const invalidateTimeline = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/timeline"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = selectedId
+        ? await apiRequest("PUT", `/api/timeline/events/${selectedId}`, toPayload(form))
+        : await apiRequest("POST", "/api/timeline/events", toPayload(form));
+      return response.json() as Promise<TimelineEvent>;
+    },
+    onSuccess: (event) => {
+      toast({ title: selectedId ? "Event saved" : "Event created", description: event.title });
+      setSelectedId(event.id);
+      invalidateTimeline();
+    },
+    onError: onError("Failed to save event"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/timeline/events/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Event deleted" });
+      setSelectedId(null);
+      setForm(emptyForm());
+      invalidateTimeline();
+    },
+    onError: onError("Failed to delete event"),
+  });
+
+  const select = (event: TimelineEvent) => {
+    setSelectedId(event.id);
+    setForm(toForm(event));
+  };
+
+  const startNew = () => {
+    setSelectedId(null);
+    setForm(emptyForm());
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-850 text-slate-100">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white" data-testid="link-home">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Pipeline
+            </Button>
+          </Link>
+          <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center">
+            <Clock className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold text-white">Timeline</h1>
+            <p className="text-sm text-slate-400">
+              {events.length} events · {issues.length} issues
+            </p>
+          </div>
+        </div>
+        <div className="w-64">
+          <ProjectSwitcher />
+        </div>
+      </div>
+
+      <div className="flex p-6 gap-6">
+        {/* Event list */}
+        <div className="w-72 shrink-0 space-y-4">
+          <Button className="w-full bg-blue-600 hover:bg-blue-700" onClick={startNew} data-testid="button-new-event">
+            <Plus className="w-4 h-4 mr-2" />
+            New Event
+          </Button>
+          <Input
+            value={participantFilter}
+            onChange={(e) => setParticipantFilter(e.target.value)}
+            placeholder="Filter by participant..."
+            className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+            data-testid="input-filter-participant"
+          />
+          <div className="space-y-1">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+            ) : visible.length === 0 ? (
+              <p className="text-sm text-slate-400">
+                {events.length ? "No events match the filter" : "The timeline is empty"}
+              </p>
+            ) : (
+              visible.map((event) => (
+                <button
+                  key={event.id}
+                  type="button"
+                  className={`flex w-full items-center justify-between px-3 py-2 rounded-lg text-sm text-left ${
+                    selectedId === event.id ? "bg-blue-500/10 text-blue-400" : "text-slate-300 hover:bg-slate-800"
+                  }`}
+                  onClick={() => select(event)}
+                  data-testid={`event-${event.id}`}
+                >
+                  <span className="truncate flex items-center">
+                    {flagged.has(event.id) && <AlertTriangle className="w-3 h-3 mr-1 text-red-400 shrink-0" />}
+                    {event.title}
+                  </span>
+                  <span className="text-xs text-slate-400 ml-2 shrink-0">{formatPlacement(event.placement)}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-6">
+          {/* Chart */}
+          <Card className="bg-slate-750 border-slate-600">
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-white">Chronology</h3>
+                <div className="flex items-center space-x-3 text-xs text-slate-400">
+                  {timelineEventKinds.map((kind) => (
+                    <span key={kind} className="flex items-center">
+                      <span className="w-2 h-2 rounded-sm mr-1" style={{ backgroundColor: KIND_COLORS[kind] }} />
+                      {kind}
+                    </span>
+                  ))}
+                  <span className="flex items-center">
+                    <span className="w-2 h-2 rounded-sm mr-1 bg-red-500" />
+                    conflict
+                  </span>
+                </div>
+              </div>
+              {chartData.length === 0 ? (
+                <p className="text-sm text-slate-400">
+                  Events appear here once they have a year or are placed relative to a dated event
+                </p>
+              ) : (
+                <div style={{ height: 40 + chartData.length * 32 }} data-testid="timeline-chart">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData} layout="vertical" margin={{ left: 16, right: 16 }}>
+                      <CartesianGrid stroke="#334155" horizontal={false} />
+                      <XAxis
+                        type="number"
+                        domain={["dataMin - 1", "dataMax + 1"]}
+                        allowDecimals={false}
+                        tick={{ fill: "#94a3b8", fontSize: 12 }}
+                        stroke="#475569"
+                      />
+                      <YAxis
+                        type="category"
+                        dataKey="title"
+                        width={160}
+                        tick={{ fill: "#cbd5e1", fontSize: 12 }}
+                        stroke="#475569"
+                      />
+                      <Tooltip
+                        cursor={{ fill: "#1e293b" }}
+                        contentStyle={{ backgroundColor: "#1e293b", border: "1px solid #475569", color: "#e2e8f0" }}
+                        formatter={(_value, _name, item) => [formatPlacement((item.payload as TimelineEvent).placement), "Years"]}
+                      />
+                      <Bar dataKey="range" radius={2} onClick={(entry) => select(entry as unknown as TimelineEvent)}>
+                        {chartData.map((event) => (
+                          <Cell
+                            key={event.id}
+                            cursor="pointer"
+                            fill={flagged.has(event.id) ? "#ef4444" : KIND_COLORS[event.kind] ?? KIND_COLORS.event}
+                            fillOpacity={event.placement!.approximate ? 0.5 : 1}
+                            stroke={selectedId === event.id ? "#ffffff" : undefined}
+                          />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Consistency issues */}
+          <Card className="bg-slate-750 border-slate-600">
+            <CardContent className="p-6 space-y-3">
+              <h3 className="text-lg font-semibold text-white">Consistency</h3>
+              {issues.length === 0 ? (
+                <div className="flex items-center space-x-2 text-sm text-green-400" data-testid="timeline-clear">
+                  <CheckCircle2 className="w-4 h-4" />
+                  <span>No impossible orderings or ages were found</span>
+                </div>
+              ) : (
+                issues.map((issue, i) => (
+                  <div key={i} className="p-3 bg-slate-800 rounded-lg space-y-1" data-testid={`timeline-issue-${i}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-slate-200">{issue.message}</span>
+                      <Badge
+                        variant="secondary"
+                        className={`text-xs ml-2 ${issue.severity === "error" ? "bg-red-500/10 text-red-400" : "bg-yellow-500/10 text-yellow-400"}`}
+                      >
+                        {issue.kind}
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {issue.eventIds.map((id) => (
+                        <button
+                          key={id}
+                          type="button"
+                          className="text-xs text-blue-400 hover:underline"
+                          onClick={() => {
+                            const event = events.find((candidate) => candidate.id === id);
+                            if (event) select(event);
+                          }}
+                        >
+                          {titleOf(id)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Editor */}
+          <Card className="bg-slate-750 border-slate-600">
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-white">
+                  {selectedId ? `Edit ${titleOf(selectedId)}` : "New event"}
+                </h3>
+                <div className="flex items-center space-x-2">
+                  {selectedId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-red-400"
+                      onClick={() => deleteMutation.mutate(selectedId)}
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-event"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    className="bg-blue-600 hover:bg-blue-700"
+                    onClick={() => saveMutation.mutate()}
+                    disabled={!form.title.trim() || saveMutation.isPending}
+                    data-testid="button-save-event"
+                  >
+                    {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+                    Save
+                  </Button>
+                </div>
+              </div>
+              {selectedId && events.find((event) => event.id === selectedId)?.origin === "extracted" && (
+                <p className="text-xs text-slate-400">
+                  Extracted from a document; saving keeps this event when the document is extracted again
+                </p>
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Kind</Label>
+                  <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as TimelineEventKind })}>
+                    <SelectTrigger className="bg-slate-800 border-slate-600 text-white" data-testid="select-event-kind">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timelineEventKinds.map((kind) => (
+                        <SelectItem key={kind} value={kind}>{kind}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2 space-y-2">
+                  <Label className="text-slate-300">Title</Label>
+                  <Input
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-event-title"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-slate-300">Description</Label>
+                <Textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="h-20 bg-slate-800 border-slate-600 text-white"
+                  data-testid="input-event-description"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Participants</Label>
+                  <Input
+                    value={form.participants}
+                    onChange={(e) => setForm({ ...form, participants: e.target.value })}
+                    placeholder="Comma-separated names"
+                    className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                    data-testid="input-event-participants"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Ages</Label>
+                  <Input
+                    value={form.ages}
+                    onChange={(e) => setForm({ ...form, ages: e.target.value })}
+                    placeholder="Name: 25, Other Name: 30"
+                    className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                    data-testid="input-event-ages"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Location</Label>
+                  <Input
+                    value={form.location}
+                    onChange={(e) => setForm({ ...form, location: e.target.value })}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-event-location"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">When (as written)</Label>
+                  <Input
+                    value={form.when}
+                    onChange={(e) => setForm({ ...form, when: e.target.value })}
+                    placeholder="e.g. the winter after the flood"
+                    className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                    data-testid="input-event-when"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Start year</Label>
+                  <Input
+                    type="number"
+                    value={form.startYear}
+                    onChange={(e) => setForm({ ...form, startYear: e.target.value })}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-event-start"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">End year</Label>
+                  <Input
+                    type="number"
+                    value={form.endYear}
+                    onChange={(e) => setForm({ ...form, endYear: e.target.value })}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-event-end"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Duration (years)</Label>
+                  <Input
+                    type="number"
+                    value={form.durationYears}
+                    onChange={(e) => setForm({ ...form, durationYears: e.target.value })}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    data-testid="input-event-duration"
+                  />
+                </div>
+              </div>
+
+              {/* Relative placement */}
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Placed</Label>
+                  <Select
+                    value={form.relation || NO_ANCHOR}
+                    onValueChange={(value) => setForm({ ...form, relation: value === NO_ANCHOR ? "" : value as TimelineRelation })}
+                  >
+                    <SelectTrigger className="bg-slate-800 border-slate-600 text-white" data-testid="select-event-relation">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ANCHOR}>by its own dates</SelectItem>
+                      {timelineRelations.map((relation) => (
+                        <SelectItem key={relation} value={relation}>{relation}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Event</Label>
+                  <Select
+                    value={form.anchorEventId || NO_ANCHOR}
+                    onValueChange={(value) => setForm({ ...form, anchorEventId: value === NO_ANCHOR ? "" : value })}
+                    disabled={!form.relation}
+                  >
+                    <SelectTrigger className="bg-slate-800 border-slate-600 text-white" data-testid="select-event-anchor">
+                      <SelectValue placeholder="Choose an event" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ANCHOR}>none</SelectItem>
+                      {events.filter((event) => event.id !== selectedId).map((event) => (
+                        <SelectItem key={event.id} value={event.id}>{event.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">By (years)</Label>
+                  <Input
+                    type="number"
+                    value={form.offsetYears}
+                    onChange={(e) => setForm({ ...form, offsetYears: e.target.value })}
+                    placeholder="unknown"
+                    disabled={!form.relation}
+                    className="bg-slate-800 border-slate-600 text-white placeholder-slate-400"
+                    data-testid="input-event-offset"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
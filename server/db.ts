@@ -0,0 +1,26 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
+
+let database: Database | undefined;
+
+// Shared connection for everything that talks to DATABASE_URL
+export function getDatabase(): Database {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set to use PostgreSQL");
+  }
+  if (!database) {
+    database = createDatabase(process.env.DATABASE_URL);
+  }
+  return database;
+}
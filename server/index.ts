@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { reindexDocuments } from "./services/indexing";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +38,18 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Rebuild the vector index from persisted documents before accepting queries. If
+  // storage or the embedding API is down the server still starts; `npm run reindex`
+  // can fill the index in once they are back.
+  try {
+    const reindex = await reindexDocuments();
+    if (reindex.total > 0) {
+      log(`reindexed ${reindex.total} documents as ${reindex.chunks} chunks (${reindex.reused} reused, ${reindex.reembedded} re-embedded, ${reindex.failed} failed)`);
+    }
+  } catch (error) {
+    log(`reindex failed, starting with an incomplete vector index: ${error instanceof Error ? error.message : error}`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
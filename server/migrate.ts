@@ -0,0 +1,16 @@
+import { getDatabase } from "./db";
+import { migrateToProjects } from "./migrations";
+
+// Command line entry point: `npm run db:migrate -- [owner username]`
+// Run before `npm run db:push` on a database created before projects existed.
+(async () => {
+  const result = await migrateToProjects(getDatabase(), process.argv[2]);
+  if (result.projectId) {
+    console.log(
+      `Moved ${result.documents} documents, ${result.queries} queries, ${result.conversations} conversations, ${result.apiLogs} API logs, ${result.vectors} vectors and ${result.indexSettings} index settings into project ${result.projectId}`,
+    );
+  } else {
+    console.log("No rows without a project; nothing to move");
+  }
+  process.exit(0);
+})();
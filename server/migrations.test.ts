@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import session from "express-session";
+import * as schema from "@shared/schema";
+import { DatabaseStorage } from "./storage";
+import { migrateToProjects } from "./migrations";
+import { createTestDatabase, type TestDatabase } from "./test-database";
+
+const require = createRequire(import.meta.url);
+const { pushSchema } = require("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// The tables as `drizzle-kit push` created them before projects existed
+const LEGACY_SCHEMA = `
+  CREATE TABLE "users" ("id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL, "username" text NOT NULL, "password" text NOT NULL, CONSTRAINT "users_username_unique" UNIQUE("username"));
+  CREATE TABLE "documents" ("id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL, "content" text NOT NULL, "category" text NOT NULL, "document_id" text NOT NULL, "embedding" real[], "metadata" jsonb, "version" integer DEFAULT 1 NOT NULL, "created_at" timestamp DEFAULT now(), "updated_at" timestamp DEFAULT now());
+  CREATE TABLE "document_versions" ("id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL, "parent_id" varchar NOT NULL REFERENCES "documents"("id") ON DELETE cascade, "version" integer NOT NULL, "content" text NOT NULL, "category" text NOT NULL, "document_id" text NOT NULL, "metadata" jsonb, "created_at" timestamp DEFAULT now());
+  CREATE UNIQUE INDEX "document_versions_parent_version_idx" ON "document_versions" ("parent_id", "version");
+  CREATE TABLE "document_chunks" ("id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL, "parent_id" varchar NOT NULL REFERENCES "documents"("id") ON DELETE cascade, "chunk_index" integer NOT NULL, "content" text NOT NULL, "start_offset" integer NOT NULL, "end_offset" integer NOT NULL, "embedding" real[], "embedding_model" text, "created_at" timestamp DEFAULT now());
+  CREATE TABLE "document_vectors" ("id" varchar PRIMARY KEY NOT NULL, "embedding" vector(1536) NOT NULL, "category" text, "document_id" text, "metadata" jsonb NOT NULL, "updated_at" timestamp DEFAULT now());
+  CREATE INDEX "document_vectors_embedding_idx" ON "document_vectors" USING hnsw ("embedding" vector_cosine_ops);
+  CREATE TABLE "queries" ("id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL, "query" text NOT NULL, "search_query" text, "embedding" real[], "response" text, "context_documents" jsonb, "similarity_scores" real[], "tokens_used" integer, "response_time" real, "created_at" timestamp DEFAULT now());
+  CREATE TABLE "conversations" ("id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL, "title" text, "created_at" timestamp DEFAULT now(), "updated_at" timestamp DEFAULT now());
+  CREATE TABLE "messages" ("id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL, "conversation_id" varchar NOT NULL REFERENCES "conversations"("id") ON DELETE cascade, "query_id" varchar REFERENCES "queries"("id") ON DELETE set null, "role" text NOT NULL, "content" text NOT NULL, "created_at" timestamp DEFAULT now());
+  CREATE TABLE "index_settings" ("id" varchar PRIMARY KEY DEFAULT 'default' NOT NULL, "embedding_model" text NOT NULL, "dimensions" integer NOT NULL, "updated_at" timestamp DEFAULT now());
+  CREATE TABLE "api_logs" ("id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL, "method" text NOT NULL, "endpoint" text NOT NULL, "status" integer NOT NULL, "duration" real NOT NULL, "timestamp" timestamp DEFAULT now());
+`;
+
+const LEGACY_ROWS = `
+  INSERT INTO "documents" ("id", "content", "category", "document_id") VALUES ('doc-1', 'It was a dark night.', 'chapters', 'chapter-1'), ('doc-2', 'Dawn came.', 'chapters', 'chapter-2');
+  INSERT INTO "document_chunks" ("parent_id", "chunk_index", "content", "start_offset", "end_offset") VALUES ('doc-1', 0, 'It was a dark night.', 0, 20);
+  INSERT INTO "document_vectors" ("id", "embedding", "metadata") VALUES ('chunk-1', array_fill(0.1, ARRAY[1536])::vector, '{}');
+  INSERT INTO "queries" ("id", "query", "response") VALUES ('query-1', 'Who is Evie?', 'A writer.');
+  INSERT INTO "conversations" ("id", "title") VALUES ('conversation-1', 'Evie');
+  INSERT INTO "messages" ("conversation_id", "query_id", "role", "content") VALUES ('conversation-1', 'query-1', 'user', 'Who is Evie?');
+  INSERT INTO "index_settings" ("embedding_model", "dimensions") VALUES ('text-embedding-ada-002', 1536);
+  INSERT INTO "api_logs" ("method", "endpoint", "status", "duration") VALUES ('POST', '/api/query', 200, 0.5);
+`;
+
+describe("migrateToProjects", () => {
+  let database: TestDatabase;
+
+  beforeEach(async () => {
+    database = await createTestDatabase({ schema: false });
+    await database.client.exec(LEGACY_SCHEMA);
+  });
+
+  afterEach(() => database.close());
+
+  async function addUser(username: string): Promise<string> {
+    const { rows } = await database.client.query<{ id: string }>(
+      `INSERT INTO "users" ("username", "password") VALUES ($1, 'hashed') RETURNING "id"`,
+      [username],
+    );
+    return rows[0].id;
+  }
+
+  it("moves existing rows into a default project so push can finish the schema", async () => {
+    const ownerId = await addUser("evie");
+    await database.client.exec(LEGACY_ROWS);
+
+    const result = await migrateToProjects(database.db);
+    assert.ok(result.projectId);
+    assert.deepEqual({ ...result, projectId: undefined }, {
+      projectId: undefined,
+      documents: 2,
+      queries: 1,
+      conversations: 1,
+      apiLogs: 1,
+      vectors: 1,
+      indexSettings: 1,
+    });
+
+    const push = await pushSchema(schema, database.db as any);
+    assert.equal(push.hasDataLoss, false, push.warnings.join("\n"));
+    await push.apply();
+
+    const storage = new DatabaseStorage(database.db, new session.MemoryStore());
+    const project = await storage.getProjectById(result.projectId);
+    assert.equal(project?.ownerId, ownerId);
+    assert.equal(project?.name, "My Project");
+    assert.deepEqual((await storage.getDocuments(result.projectId)).map(document => document.id).sort(), ["doc-1", "doc-2"]);
+    assert.equal((await storage.getDocumentChunks("doc-1")).length, 1);
+    assert.equal((await storage.getQueries(result.projectId)).length, 1);
+    assert.equal((await storage.getConversations(result.projectId)).length, 1);
+    assert.equal((await storage.getIndexSettings(result.projectId))?.embeddingModel, "text-embedding-ada-002");
+
+    const { rows } = await database.client.query<{ namespace: string }>(`SELECT "namespace" FROM "document_vectors"`);
+    assert.deepEqual(rows, [{ namespace: result.projectId }]);
+  });
+
+  it("does nothing when run again", async () => {
+    await addUser("evie");
+    await database.client.exec(LEGACY_ROWS);
+    const first = await migrateToProjects(database.db);
+
+    const second = await migrateToProjects(database.db);
+    assert.equal(second.projectId, null);
+    const { rows } = await database.client.query(`SELECT "id" FROM "projects"`);
+    assert.deepEqual(rows, [{ id: first.projectId }]);
+  });
+
+  it("needs no owner for a database without data", async () => {
+    const result = await migrateToProjects(database.db);
+    assert.equal(result.projectId, null);
+
+    const push = await pushSchema(schema, database.db as any);
+    assert.equal(push.hasDataLoss, false, push.warnings.join("\n"));
+  });
+
+  it("asks which user owns the data when there are several", async () => {
+    await addUser("evie");
+    const ownerId = await addUser("sam");
+    await database.client.exec(LEGACY_ROWS);
+
+    await assert.rejects(migrateToProjects(database.db), { message: "Several users exist: name the one who should own the existing data" });
+    await assert.rejects(migrateToProjects(database.db, "nobody"), { message: "User nobody not found" });
+
+    const result = await migrateToProjects(database.db, "sam");
+    const { rows } = await database.client.query(`SELECT "owner_id" FROM "projects" WHERE "id" = $1`, [result.projectId]);
+    assert.deepEqual(rows, [{ owner_id: ownerId }]);
+  });
+
+  it("leaves the database as it was when no user can own the data", async () => {
+    await database.client.exec(LEGACY_ROWS);
+
+    await assert.rejects(migrateToProjects(database.db), { message: "Existing data needs an owner: register an account, then run this again" });
+    const { rows } = await database.client.query(
+      `SELECT "table_name" FROM information_schema.columns WHERE "column_name" = 'project_id' OR "table_name" = 'projects'`,
+    );
+    assert.deepEqual(rows, []);
+  });
+});
@@ -0,0 +1,108 @@
+import { sql } from "drizzle-orm";
+import type { Database } from "./db";
+import { DEFAULT_PROJECT_NAME } from "./projects";
+
+export interface ProjectMigrationResult {
+  // The project existing rows were moved into; null when there were none to move
+  projectId: string | null;
+  documents: number;
+  queries: number;
+  conversations: number;
+  apiLogs: number;
+  vectors: number;
+  indexSettings: number;
+}
+
+// Tables that gained a required project_id when knowledge bases were scoped to projects
+const PROJECT_TABLES = ["documents", "queries", "conversations"] as const;
+
+async function count(db: Pick<Database, "execute">, query: ReturnType<typeof sql>): Promise<number> {
+  const { rows } = await db.execute<{ count: number }>(query);
+  return Number(rows[0].count);
+}
+
+// Brings a database from before projects existed up to where `drizzle-kit push` can
+// finish the job. push would add the required project_id columns to tables that already
+// have rows, which fails, or offers to truncate them. So this adds the columns itself,
+// moves every existing row into a default project owned by `ownerUsername` (or the only
+// user), rekeys the single "default" index settings row to that project and only then
+// makes the columns required. push adds the foreign keys and new tables afterwards.
+// Running it again does nothing.
+export async function migrateToProjects(db: Database, ownerUsername?: string): Promise<ProjectMigrationResult> {
+  return db.transaction(async (tx) => {
+    const result: ProjectMigrationResult = {
+      projectId: null,
+      documents: 0,
+      queries: 0,
+      conversations: 0,
+      apiLogs: 0,
+      vectors: 0,
+      indexSettings: 0,
+    };
+
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS "projects" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "owner_id" varchar NOT NULL,
+        "name" text NOT NULL,
+        "description" text,
+        "created_at" timestamp DEFAULT now(),
+        "updated_at" timestamp DEFAULT now()
+      )
+    `);
+    for (const table of [...PROJECT_TABLES, "api_logs"]) {
+      await tx.execute(sql`ALTER TABLE ${sql.identifier(table)} ADD COLUMN IF NOT EXISTS "project_id" varchar`);
+    }
+    await tx.execute(sql`ALTER TABLE "document_vectors" ADD COLUMN IF NOT EXISTS "namespace" text DEFAULT '' NOT NULL`);
+
+    const legacy = {
+      documents: await count(tx, sql`SELECT count(*) FROM "documents" WHERE "project_id" IS NULL`),
+      queries: await count(tx, sql`SELECT count(*) FROM "queries" WHERE "project_id" IS NULL`),
+      conversations: await count(tx, sql`SELECT count(*) FROM "conversations" WHERE "project_id" IS NULL`),
+      vectors: await count(tx, sql`SELECT count(*) FROM "document_vectors" WHERE "namespace" = ''`),
+      indexSettings: await count(tx, sql`SELECT count(*) FROM "index_settings" WHERE "id" = 'default'`),
+    };
+
+    if (Object.values(legacy).some(rows => rows > 0)) {
+      const { rows: owners } = ownerUsername
+        ? await tx.execute<{ id: string }>(sql`SELECT "id" FROM "users" WHERE "username" = ${ownerUsername}`)
+        : await tx.execute<{ id: string }>(sql`SELECT "id" FROM "users" LIMIT 2`);
+      if (ownerUsername && owners.length === 0) {
+        throw new Error(`User ${ownerUsername} not found`);
+      }
+      if (owners.length !== 1) {
+        throw new Error(
+          owners.length === 0
+            ? "Existing data needs an owner: register an account, then run this again"
+            : "Several users exist: name the one who should own the existing data",
+        );
+      }
+
+      const { rows: [project] } = await tx.execute<{ id: string }>(sql`
+        INSERT INTO "projects" ("owner_id", "name") VALUES (${owners[0].id}, ${DEFAULT_PROJECT_NAME}) RETURNING "id"
+      `);
+      result.projectId = project.id;
+
+      // Each update reports how many rows it moved
+      const moved = (table: string, column: string, condition: ReturnType<typeof sql>) => count(tx, sql`
+        WITH moved AS (
+          UPDATE ${sql.identifier(table)} SET ${sql.identifier(column)} = ${project.id} WHERE ${condition} RETURNING 1
+        )
+        SELECT count(*) FROM moved
+      `);
+      result.documents = await moved("documents", "project_id", sql`"project_id" IS NULL`);
+      result.queries = await moved("queries", "project_id", sql`"project_id" IS NULL`);
+      result.conversations = await moved("conversations", "project_id", sql`"project_id" IS NULL`);
+      result.apiLogs = await moved("api_logs", "project_id", sql`"project_id" IS NULL`);
+      result.vectors = await moved("document_vectors", "namespace", sql`"namespace" = ''`);
+      result.indexSettings = await moved("index_settings", "id", sql`"id" = 'default'`);
+    }
+
+    for (const table of PROJECT_TABLES) {
+      await tx.execute(sql`ALTER TABLE ${sql.identifier(table)} ALTER COLUMN "project_id" SET NOT NULL`);
+    }
+    await tx.execute(sql`ALTER TABLE "index_settings" ALTER COLUMN "id" DROP DEFAULT`);
+
+    return result;
+  });
+}
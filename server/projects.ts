@@ -0,0 +1,49 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Project } from "@shared/schema";
+import { storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    projectId?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by resolveActiveProject for every /api route outside /api/auth
+      project?: Project;
+    }
+  }
+}
+
+// Name of the project created for a user who has none yet
+export const DEFAULT_PROJECT_NAME = "My Project";
+
+// Routes work inside the project chosen in the session. When none is chosen, or it
+// is gone or not the user's, the user's oldest project is used, created on first use.
+// Runs after requireAuth, so past the requests it lets through there is always a user.
+export async function resolveActiveProject(req: Request, _res: Response, next: NextFunction) {
+  if (req.method === "OPTIONS" || req.path.startsWith("/auth/")) return next();
+  const user = req.user!;
+
+  try {
+    let project = req.session.projectId ? await storage.getProjectById(req.session.projectId) : undefined;
+    if (!project || project.ownerId !== user.id) {
+      const [oldest] = await storage.getProjects(user.id);
+      project = oldest ?? await storage.createProject(user.id, { name: DEFAULT_PROJECT_NAME });
+      req.session.projectId = project.id;
+    }
+
+    req.project = project;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Look up one of the user's projects by id
+export async function findOwnedProject(req: Request, id: string): Promise<Project | undefined> {
+  const project = await storage.getProjectById(id);
+  return project && project.ownerId === req.user?.id ? project : undefined;
+}
@@ -0,0 +1,10 @@
+import { reindexDocuments } from "./services/indexing";
+
+// Command line entry point: `npm run reindex`
+(async () => {
+  const result = await reindexDocuments();
+  console.log(
+    `Reindexed ${result.total} documents as ${result.chunks} chunks (${result.reused} reused, ${result.reembedded} re-embedded, ${result.failed} failed)`,
+  );
+  process.exit(result.failed > 0 ? 1 : 0);
+})();
@@ -0,0 +1,107 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+
+// A stand-in for the OpenAI API that embeds every text as the same unit vector
+const openai = createServer((req, res) => {
+  let data = "";
+  req.on("data", chunk => { data += chunk; });
+  req.on("end", () => {
+    const body = JSON.parse(data || "{}");
+    const inputs: string[] = Array.isArray(body.input) ? body.input : [body.input];
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({
+      data: inputs.map((_, index) => ({ index, embedding: Array.from({ length: 1536 }, (_, i) => (i === 0 ? 1 : 0)) })),
+      usage: { prompt_tokens: 1, total_tokens: 1 },
+    }));
+  });
+});
+await new Promise<void>(resolve => openai.listen(0, "127.0.0.1", resolve));
+
+// The OpenAI client and storage are created on import, so the environment is set first
+process.env.OPENAI_BASE_URL = `http://127.0.0.1:${(openai.address() as AddressInfo).port}/v1`;
+process.env.OPENAI_API_KEY = "test-key";
+process.env.ENTITY_EXTRACTION = "off";
+delete process.env.DATABASE_URL;
+delete process.env.VECTOR_STORE;
+
+const { registerRoutes } = await import("./routes");
+
+describe("routes", () => {
+  let server: Server;
+  let baseUrl: string;
+  let cookie: string;
+  let users = 0;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await new Promise<void>(resolve => openai.close(() => resolve()));
+  });
+
+  // Every test works as a new user, and so in a project of its own
+  beforeEach(async () => {
+    const response = await fetch(`${baseUrl}/api/auth/register`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: `writer${++users}`, password: "secret123" }),
+    });
+    assert.equal(response.status, 201);
+    cookie = response.headers.get("set-cookie")!.split(";")[0];
+  });
+
+  async function request(method: string, path: string, body?: unknown): Promise<{ status: number; body: any }> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", Cookie: cookie },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  async function createEntityAndChapter() {
+    const entity = await request("POST", "/api/entities", { type: "character", name: "Evie", aliases: [], fields: {} });
+    assert.equal(entity.status, 201);
+    const chapter = await request("POST", "/api/documents", { content: "It was a dark night.", category: "chapters", documentId: "chapter-1" });
+    assert.equal(chapter.status, 201);
+    return { entity: entity.body, chapter: chapter.body.document };
+  }
+
+  describe("story bible profiles in the knowledge base", () => {
+    it("survive clearing the knowledge base, vectors included", async () => {
+      const { entity } = await createEntityAndChapter();
+
+      const cleared = await request("DELETE", "/api/documents");
+      assert.equal(cleared.status, 200);
+
+      const documents = await request("GET", "/api/documents");
+      assert.deepEqual(documents.body.map((document: { id: string }) => document.id), [entity.profileDocumentId]);
+      const { body: entities } = await request("GET", "/api/entities");
+      assert.equal(entities[0].profileDocumentId, entity.profileDocumentId);
+      const { body: settings } = await request("GET", "/api/index/settings");
+      assert.equal(settings.vectorCount, 1);
+    });
+
+    it("cannot be deleted on their own", async () => {
+      const { entity, chapter } = await createEntityAndChapter();
+
+      const refused = await request("DELETE", `/api/documents/${entity.profileDocumentId}`);
+      assert.equal(refused.status, 409);
+      assert.equal(refused.body.error, "Story bible profiles are removed by deleting their entity");
+      assert.equal((await request("GET", `/api/documents/${entity.profileDocumentId}`)).status, 200);
+
+      assert.equal((await request("DELETE", `/api/documents/${chapter.id}`)).status, 200);
+      assert.equal((await request("DELETE", `/api/entities/${entity.id}`)).status, 200);
+      assert.equal((await request("GET", `/api/documents/${entity.profileDocumentId}`)).status, 404);
+    });
+  });
+});
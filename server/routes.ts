@@ -1,25 +1,135 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
+import { z } from "zod";
 import { storage } from "./storage";
-import { generateEmbedding, generateChatResponse, testOpenAIConnection } from "./services/openai";
+import { setupAuth } from "./auth";
+import { resolveActiveProject, findOwnedProject } from "./projects";
+import { testOpenAIConnection } from "./services/openai";
 import { pineconeService } from "./services/pinecone";
-import { insertDocumentSchema, insertQuerySchema } from "@shared/schema";
+import { ingestDocument, reviseDocument, rollbackDocument, removeDocument, removeProject, getIndexSettings, reembedIndex, clearKnowledgeBase } from "./services/indexing";
+import { diffLines } from "./services/diff";
+import { runRagPipeline } from "./services/rag";
+import { checkContinuity } from "./services/continuity";
+import { draftScene } from "./services/scene-drafting";
+import { extractText, deriveDocumentId, deriveCategory } from "./services/extraction";
+import { createEntity, updateEntity, deleteEntity, createRelationship, deleteRelationship, getRelatedEntities, renderEntity } from "./services/story-bible";
+import { extractDocument, queueExtraction, isExtractable, acceptCandidate, mergeCandidate, dismissCandidate } from "./services/entity-extraction";
+import { getNeighbourhood, MAX_NEIGHBOURHOOD_HOPS } from "./services/relationship-graph";
+import { solveTimeline, createTimelineEvent, updateTimelineEvent, deleteTimelineEvent } from "./services/timeline";
+import { listPromptTemplates, createPromptTemplate, updatePromptTemplate, deletePromptTemplate, retrievePromptContext } from "./services/prompt-templates";
+import { entityCandidateStatuses, relationshipTypes, sceneBriefSchema, insertProjectSchema, insertDocumentSchema, replaceDocumentSchema, isEntityProfile, insertQuerySchema, type InsertDocument, insertConversationSchema, insertEntitySchema, insertEntityRelationshipSchema, insertTimelineEventSchema, insertPromptTemplateSchema, chunkingOptionsSchema, retrievalOptionsSchema, metadataFilterSchema } from "@shared/schema";
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024, files: 20 },
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  // Sessions, /api/auth/* and the login requirement for the rest of /api
+  setupAuth(app);
+  // Everything below works inside the active project (req.project)
+  app.use("/api", resolveActiveProject);
+
+  // List the user's projects and which one is active
+  app.get("/api/projects", async (req, res) => {
+    try {
+      const projects = await storage.getProjects(req.user!.id);
+      res.json({ projects, activeProjectId: req.project!.id });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get projects",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Create a project and switch to it
+  app.post("/api/projects", async (req, res) => {
+    try {
+      const projectData = insertProjectSchema.parse(req.body);
+      const project = await storage.createProject(req.user!.id, projectData);
+      req.session.projectId = project.id;
+      res.status(201).json(project);
+    } catch (error) {
+      res.status(400).json({ 
+        error: "Failed to create project",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Rename a project or change its description
+  app.patch("/api/projects/:id", async (req, res) => {
+    try {
+      const changes = insertProjectSchema.partial().parse(req.body);
+      if (!(await findOwnedProject(req, req.params.id))) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const project = await storage.updateProject(req.params.id, changes);
+      res.json(project);
+    } catch (error) {
+      res.status(400).json({ 
+        error: "Failed to update project",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Delete a project with its documents, conversations, logs and vectors
+  app.delete("/api/projects/:id", async (req, res) => {
+    try {
+      if (!(await findOwnedProject(req, req.params.id))) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      await removeProject(req.params.id);
+      if (req.session.projectId === req.params.id) {
+        delete req.session.projectId;
+      }
+      res.json({ message: "Project deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to delete project",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Make a project the active one for this session
+  app.post("/api/projects/:id/activate", async (req, res) => {
+    try {
+      const project = await findOwnedProject(req, req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      req.session.projectId = project.id;
+      res.json(project);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to switch project",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   // Test connections
   app.get("/api/test-connections", async (req, res) => {
     const startTime = Date.now();
     
     try {
+      const store = pineconeService.namespace(req.project!.id);
       const [openaiStatus, pineconeStatus] = await Promise.all([
         testOpenAIConnection(),
-        pineconeService.testConnection(),
+        store.testConnection(),
       ]);
 
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
+        projectId: req.project!.id,
         method: "GET",
         endpoint: "/api/test-connections",
         status: 200,
@@ -29,12 +139,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         openai: openaiStatus,
         pinecone: pineconeStatus,
-        vectorCount: pineconeService.getVectorCount(),
+        vectorCount: await store.getVectorCount(),
       });
     } catch (error) {
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
+        projectId: req.project!.id,
         method: "GET",
         endpoint: "/api/test-connections",
         status: 500,
@@ -54,26 +165,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const documentData = insertDocumentSchema.parse(req.body);
+      const chunking = chunkingOptionsSchema.parse(req.body.chunking || {});
       
-      // Generate embedding
-      const embeddingResponse = await generateEmbedding(documentData.content);
-      
-      // Store in local storage
-      const document = await storage.createDocument(documentData);
-      
-      // Store in Pinecone
-      const metadata = {
-        content: documentData.content,
-        category: documentData.category,
-        documentId: documentData.documentId,
-        createdAt: document.createdAt?.toISOString(),
-        ...(documentData.metadata && typeof documentData.metadata === 'object' ? documentData.metadata as Record<string, any> : {}),
-      };
-      await pineconeService.upsert(document.id, embeddingResponse.embedding, metadata);
+      // Chunk and embed, then store the document and each chunk in Pinecone
+      const { document, ...indexed } = await ingestDocument(req.project!.id, documentData, chunking, req.body.embeddingModel || undefined);
+      queueExtraction(document);
 
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
+        projectId: req.project!.id,
         method: "POST",
         endpoint: "/api/documents",
         status: 201,
@@ -82,15 +183,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json({
         document,
+        chunks: indexed.chunks.map(chunk => ({
+          id: chunk.id,
+          chunkIndex: chunk.chunkIndex,
+          startOffset: chunk.startOffset,
+          endOffset: chunk.endOffset,
+        })),
+        chunking,
         embedding: {
-          dimensions: embeddingResponse.dimensions,
-          model: embeddingResponse.model,
+          dimensions: indexed.dimensions,
+          model: indexed.model,
         }
       });
     } catch (error) {
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
+        projectId: req.project!.id,
         method: "POST",
         endpoint: "/api/documents",
         status: 400,
@@ -104,6 +213,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Upload manuscript files (.txt, .md, .docx, .pdf, .epub) to the knowledge base
+  app.post("/api/documents/upload", upload.array("files"), async (req, res) => {
+    const startTime = Date.now();
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    
+    try {
+      if (files.length === 0) {
+        throw new Error("No files uploaded");
+      }
+
+      const chunking = chunkingOptionsSchema.parse(
+        req.body.chunking ? JSON.parse(req.body.chunking) : {}
+      );
+
+      const results = [];
+      for (const file of files) {
+        try {
+          const extracted = await extractText(file);
+          if (!extracted.text) {
+            throw new Error("No text could be extracted");
+          }
+
+          const documentData = insertDocumentSchema.parse({
+            content: extracted.text,
+            documentId: files.length === 1 && req.body.documentId
+              ? req.body.documentId
+              : deriveDocumentId(file.originalname),
+            category: req.body.category || deriveCategory(file.originalname, extracted.text),
+            metadata: {
+              source: "upload",
+              fileName: file.originalname,
+              format: extracted.format,
+              size: file.size,
+              ...(extracted.title ? { title: extracted.title } : {}),
+            },
+          });
+
+          const { document, ...indexed } = await ingestDocument(req.project!.id, documentData, chunking, req.body.embeddingModel || undefined);
+          queueExtraction(document);
+
+          results.push({
+            fileName: file.originalname,
+            status: "indexed" as const,
+            document,
+            chunkCount: indexed.chunks.length,
+          });
+        } catch (error) {
+          results.push({
+            fileName: file.originalname,
+            status: "failed" as const,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+
+      const status = results.some(result => result.status === "indexed") ? 201 : 400;
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/documents/upload",
+        status,
+        duration: duration / 1000,
+      });
+
+      res.status(status).json({ results });
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/documents/upload",
+        status: 400,
+        duration: duration / 1000,
+      });
+
+      res.status(400).json({ 
+        error: "Failed to upload documents",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   // Process query through RAG pipeline
   app.post("/api/query", async (req, res) => {
     const startTime = Date.now();
@@ -111,140 +305,1208 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const queryData = insertQuerySchema.parse(req.body);
       
-      // Create query record
-      const query = await storage.createQuery(queryData);
+      const result = await runRagPipeline({
+        projectId: req.project!.id,
+        query: queryData.query,
+        topK: parseInt(req.body.topK || "5"),
+        threshold: parseFloat(req.body.threshold || "0.7"),
+        chatModel: req.body.chatModel || "gpt-4o",
+        embeddingModel: req.body.embeddingModel || undefined,
+        retrieval: retrievalOptionsSchema.parse(req.body.retrieval || {}),
+        filter: req.body.filter ? metadataFilterSchema.parse(req.body.filter) : undefined,
+        conversationId: req.body.conversationId || undefined,
+        promptTemplateId: req.body.promptTemplateId || undefined,
+      });
+
+      const duration = Date.now() - startTime;
       
-      // Generate embedding for query
-      const embeddingResponse = await generateEmbedding(queryData.query);
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/query",
+        status: 200,
+        duration: duration / 1000,
+      });
+
+      res.json(result);
+    } catch (error) {
+      const duration = Date.now() - startTime;
       
-      // Search similar documents in Pinecone
-      const topK = parseInt(req.body.topK || "5");
-      const threshold = parseFloat(req.body.threshold || "0.7");
-      const searchResults = await pineconeService.query(embeddingResponse.embedding, topK, threshold);
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/query",
+        status: 400,
+        duration: duration / 1000,
+      });
+
+      res.status(400).json({ 
+        error: "Failed to process query",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Process query through RAG pipeline, streaming stage events over Server-Sent Events
+  app.post("/api/query/stream", async (req, res) => {
+    const startTime = Date.now();
+    const abortController = new AbortController();
+    res.on("close", () => abortController.abort());
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    
+    try {
+      const queryData = insertQuerySchema.parse(req.body);
       
-      // Generate chat response with context
-      const chatModel = req.body.chatModel || "gpt-4o";
-      const context = searchResults.map(result => result.text);
-      const chatResponse = await generateChatResponse(queryData.query, context, chatModel);
+      const result = await runRagPipeline({
+        projectId: req.project!.id,
+        query: queryData.query,
+        topK: parseInt(req.body.topK || "5"),
+        threshold: parseFloat(req.body.threshold || "0.7"),
+        chatModel: req.body.chatModel || "gpt-4o",
+        embeddingModel: req.body.embeddingModel || undefined,
+        retrieval: retrievalOptionsSchema.parse(req.body.retrieval || {}),
+        filter: req.body.filter ? metadataFilterSchema.parse(req.body.filter) : undefined,
+        conversationId: req.body.conversationId || undefined,
+        promptTemplateId: req.body.promptTemplateId || undefined,
+      }, {
+        onEmbedding: (embedding) => sendEvent("embedding", embedding),
+        onSearch: (searchResults) => sendEvent("search", { searchResults }),
+        onToken: (delta) => sendEvent("token", { delta }),
+        signal: abortController.signal,
+      });
+
+      const duration = Date.now() - startTime;
       
-      // Update query with results
-      const updatedQuery = await storage.updateQuery(query.id, {
-        embedding: embeddingResponse.embedding,
-        response: chatResponse.response,
-        contextDocuments: searchResults,
-        similarityScores: searchResults.map(r => r.score),
-        tokensUsed: chatResponse.tokensUsed,
-        responseTime: (Date.now() - startTime) / 1000,
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/query/stream",
+        status: 200,
+        duration: duration / 1000,
       });
 
+      sendEvent("done", result);
+    } catch (error) {
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
+        projectId: req.project!.id,
         method: "POST",
-        endpoint: "/api/query",
+        endpoint: "/api/query/stream",
+        status: 400,
+        duration: duration / 1000,
+      });
+
+      sendEvent("error", { 
+        error: "Failed to process query",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    } finally {
+      res.end();
+    }
+  });
+
+  // Check a draft passage against the knowledge base and list the canon it contradicts
+  app.post("/api/continuity/check", async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const passage = z.string().trim().min(1, "Passage is required").parse(req.body.passage);
+      
+      const report = await checkContinuity({
+        projectId: req.project!.id,
+        passage,
+        topK: parseInt(req.body.topK || "3"),
+        threshold: parseFloat(req.body.threshold || "0.5"),
+        chatModel: req.body.chatModel || "gpt-4o",
+        embeddingModel: req.body.embeddingModel || undefined,
+        retrieval: retrievalOptionsSchema.parse(req.body.retrieval || {}),
+        filter: req.body.filter ? metadataFilterSchema.parse(req.body.filter) : undefined,
+      });
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/continuity/check",
         status: 200,
         duration: duration / 1000,
       });
 
-      res.json({
-        query: updatedQuery,
-        embedding: {
-          dimensions: embeddingResponse.dimensions,
-          model: embeddingResponse.model,
-          preview: embeddingResponse.embedding.slice(0, 10),
-        },
-        searchResults,
-        chatResponse: {
-          response: chatResponse.response,
-          tokensUsed: chatResponse.tokensUsed,
-          model: chatResponse.model,
-          contextCount: searchResults.length,
-          avgSimilarity: searchResults.length > 0 
-            ? searchResults.reduce((sum, r) => sum + r.score, 0) / searchResults.length 
-            : 0,
-        },
+      res.json(report);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/continuity/check",
+        status: 400,
+        duration: duration / 1000,
+      });
+
+      res.status(400).json({ 
+        error: "Failed to check continuity",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Draft a scene from a brief against the story bible and knowledge base, and save it as a new draft document
+  app.post("/api/scenes/draft", async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const brief = sceneBriefSchema.parse(req.body.brief);
+      
+      const draft = await draftScene({
+        projectId: req.project!.id,
+        brief,
+        topK: parseInt(req.body.topK || "3"),
+        threshold: parseFloat(req.body.threshold || "0.5"),
+        chatModel: req.body.chatModel || "gpt-4o",
+        embeddingModel: req.body.embeddingModel || undefined,
+        retrieval: retrievalOptionsSchema.parse(req.body.retrieval || {}),
+        filter: req.body.filter ? metadataFilterSchema.parse(req.body.filter) : undefined,
+      });
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/scenes/draft",
+        status: 201,
+        duration: duration / 1000,
       });
+
+      res.status(201).json(draft);
     } catch (error) {
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
+        projectId: req.project!.id,
         method: "POST",
-        endpoint: "/api/query",
+        endpoint: "/api/scenes/draft",
         status: 400,
         duration: duration / 1000,
       });
 
       res.status(400).json({ 
-        error: "Failed to process query",
+        error: "Failed to draft scene",
         details: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
-  // Get documents
-  app.get("/api/documents", async (req, res) => {
+  // Start a conversation
+  app.post("/api/conversations", async (req, res) => {
+    try {
+      const conversationData = insertConversationSchema.parse(req.body);
+      const conversation = await storage.createConversation(req.project!.id, conversationData);
+      res.status(201).json(conversation);
+    } catch (error) {
+      res.status(400).json({ 
+        error: "Failed to create conversation",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // List conversations, most recently active first
+  app.get("/api/conversations", async (req, res) => {
+    try {
+      const conversations = await storage.getConversations(req.project!.id);
+      res.json(conversations);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get conversations",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get a conversation with its messages
+  app.get("/api/conversations/:id", async (req, res) => {
+    try {
+      const conversation = await storage.getConversationById(req.params.id);
+      if (!conversation || conversation.projectId !== req.project!.id) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      const messages = await storage.getMessages(conversation.id);
+      res.json({ conversation, messages });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get conversation",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Continue a conversation: runs the RAG pipeline with the prior turns as context
+  app.post("/api/conversations/:id/messages", async (req, res) => {
     const startTime = Date.now();
     
     try {
-      const documents = await storage.getDocuments();
+      const queryData = insertQuerySchema.parse(req.body);
       
+      const result = await runRagPipeline({
+        projectId: req.project!.id,
+        query: queryData.query,
+        topK: parseInt(req.body.topK || "5"),
+        threshold: parseFloat(req.body.threshold || "0.7"),
+        chatModel: req.body.chatModel || "gpt-4o",
+        embeddingModel: req.body.embeddingModel || undefined,
+        retrieval: retrievalOptionsSchema.parse(req.body.retrieval || {}),
+        filter: req.body.filter ? metadataFilterSchema.parse(req.body.filter) : undefined,
+        conversationId: req.params.id,
+        promptTemplateId: req.body.promptTemplateId || undefined,
+      });
+
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
-        method: "GET",
-        endpoint: "/api/documents",
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/conversations/:id/messages",
         status: 200,
         duration: duration / 1000,
       });
 
-      res.json(documents);
+      res.json(result);
     } catch (error) {
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
-        method: "GET",
-        endpoint: "/api/documents",
-        status: 500,
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/conversations/:id/messages",
+        status: 400,
         duration: duration / 1000,
       });
 
+      res.status(400).json({ 
+        error: "Failed to continue conversation",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get the embedding model the index is built with
+  app.get("/api/index/settings", async (req, res) => {
+    try {
+      const settings = await getIndexSettings(req.project!.id);
+      const documents = await storage.getDocuments(req.project!.id);
+      res.json({
+        ...settings,
+        documentCount: documents.length,
+        vectorCount: await pineconeService.namespace(req.project!.id).getVectorCount(),
+      });
+    } catch (error) {
       res.status(500).json({ 
-        error: "Failed to get documents",
+        error: "Failed to get index settings",
         details: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
-  // Clear knowledge base
-  app.delete("/api/documents", async (req, res) => {
+  // Switch embedding model and re-embed the project's whole knowledge base with it
+  app.post("/api/index/reembed", async (req, res) => {
     const startTime = Date.now();
     
     try {
-      await storage.clearDocuments();
-      await pineconeService.deleteAll();
-      
+      const embeddingModel = z.string().parse(req.body.embeddingModel);
+      const { settings, result } = await reembedIndex(req.project!.id, embeddingModel);
+
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
-        method: "DELETE",
-        endpoint: "/api/documents",
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/index/reembed",
         status: 200,
         duration: duration / 1000,
       });
 
-      res.json({ message: "Knowledge base cleared successfully" });
+      res.json({ settings, result });
     } catch (error) {
       const duration = Date.now() - startTime;
       
       await storage.createApiLog({
-        method: "DELETE",
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/index/reembed",
+        status: 400,
+        duration: duration / 1000,
+      });
+
+      res.status(400).json({ 
+        error: "Failed to re-embed knowledge base",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get documents
+  app.get("/api/documents", async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const documents = await storage.getDocuments(req.project!.id);
+      
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "GET",
         endpoint: "/api/documents",
-        status: 500,
+        status: 200,
         duration: duration / 1000,
       });
 
-      res.status(500).json({ 
-        error: "Failed to clear knowledge base",
+      res.json(documents);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "GET",
+        endpoint: "/api/documents",
+        status: 500,
+        duration: duration / 1000,
+      });
+
+      res.status(500).json({ 
+        error: "Failed to get documents",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Clear knowledge base; story bible profiles stay until their entities are deleted
+  app.delete("/api/documents", async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      await clearKnowledgeBase(req.project!.id);
+      
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "DELETE",
+        endpoint: "/api/documents",
+        status: 200,
+        duration: duration / 1000,
+      });
+
+      res.json({ message: "Knowledge base cleared successfully" });
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "DELETE",
+        endpoint: "/api/documents",
+        status: 500,
+        duration: duration / 1000,
+      });
+
+      res.status(500).json({ 
+        error: "Failed to clear knowledge base",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get one document with its chunks
+  app.get("/api/documents/:id", async (req, res) => {
+    try {
+      const document = await storage.getDocumentById(req.params.id);
+      if (!document || document.projectId !== req.project!.id) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const chunks = await storage.getDocumentChunks(document.id);
+      res.json({ document, chunks });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get document",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // PUT replaces every document field, PATCH only the ones given; both save a new version
+  const reviseDocumentRoute = (method: "PUT" | "PATCH", schema: z.ZodType<Partial<InsertDocument>>) =>
+    async (req: Request, res: Response) => {
+      const startTime = Date.now();
+      const endpoint = `/api/documents/${req.params.id}`;
+      
+      try {
+        const changes = schema.parse(req.body);
+        const chunking = chunkingOptionsSchema.parse(req.body.chunking || {});
+        const revised = await reviseDocument(req.project!.id, req.params.id, changes, chunking, req.body.embeddingModel || undefined);
+        const status = revised ? 200 : 404;
+
+        const duration = Date.now() - startTime;
+        
+        await storage.createApiLog({ projectId: req.project!.id, method, endpoint, status, duration: duration / 1000 });
+
+        if (!revised) {
+          return res.status(404).json({ error: "Document not found" });
+        }
+        if (revised.reembedded) {
+          queueExtraction(revised.document);
+        }
+        res.json(revised);
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        
+        await storage.createApiLog({ projectId: req.project!.id, method, endpoint, status: 400, duration: duration / 1000 });
+
+        res.status(400).json({ 
+          error: "Failed to update document",
+          details: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    };
+
+  app.put("/api/documents/:id", reviseDocumentRoute("PUT", replaceDocumentSchema));
+  app.patch("/api/documents/:id", reviseDocumentRoute("PATCH", insertDocumentSchema.partial()));
+
+  // Delete one document and its vectors
+  app.delete("/api/documents/:id", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/documents/${req.params.id}`;
+    
+    try {
+      // A profile would only come back when its entity is next edited, so it is removed with the entity instead
+      const document = await storage.getDocumentById(req.params.id);
+      if (document && document.projectId === req.project!.id && isEntityProfile(document)) {
+        await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status: 409, duration: (Date.now() - startTime) / 1000 });
+        return res.status(409).json({ error: "Story bible profiles are removed by deleting their entity" });
+      }
+
+      const deleted = await removeDocument(req.project!.id, req.params.id);
+      const status = deleted ? 200 : 404;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status, duration: duration / 1000 });
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      res.json({ message: "Document deleted successfully" });
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status: 500, duration: duration / 1000 });
+
+      res.status(500).json({ 
+        error: "Failed to delete document",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Version history, newest first
+  app.get("/api/documents/:id/versions", async (req, res) => {
+    try {
+      const document = await storage.getDocumentById(req.params.id);
+      if (!document || document.projectId !== req.project!.id) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const versions = await storage.getDocumentVersions(document.id);
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get document versions",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Diff two versions; defaults to the current version against the one before it
+  app.get("/api/documents/:id/diff", async (req, res) => {
+    try {
+      const document = await storage.getDocumentById(req.params.id);
+      if (!document || document.projectId !== req.project!.id) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const to = req.query.to ? parseInt(String(req.query.to)) : document.version;
+      const from = req.query.from ? parseInt(String(req.query.from)) : to - 1;
+      const [fromVersion, toVersion] = await Promise.all([
+        storage.getDocumentVersion(document.id, from),
+        storage.getDocumentVersion(document.id, to),
+      ]);
+      if (!fromVersion || !toVersion) {
+        return res.status(404).json({ error: `Version ${!fromVersion ? from : to} not found` });
+      }
+
+      const fields = (["category", "documentId", "metadata"] as const)
+        .filter(field => JSON.stringify(fromVersion[field]) !== JSON.stringify(toVersion[field]))
+        .map(field => ({ field, from: fromVersion[field], to: toVersion[field] }));
+
+      res.json({ from, to, fields, ...diffLines(fromVersion.content, toVersion.content) });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to diff document versions",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Roll back to an earlier version; the restored state is saved as a new version
+  app.post("/api/documents/:id/rollback", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/documents/${req.params.id}/rollback`;
+    
+    try {
+      const version = z.number().int().positive().parse(req.body.version);
+      const restored = await rollbackDocument(req.project!.id, req.params.id, version);
+      const status = restored ? 200 : 404;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "POST", endpoint, status, duration: duration / 1000 });
+
+      if (!restored) {
+        return res.status(404).json({ error: `Document or version ${version} not found` });
+      }
+      if (restored.reembedded) {
+        queueExtraction(restored.document);
+      }
+      res.json(restored);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "POST", endpoint, status: 400, duration: duration / 1000 });
+
+      res.status(400).json({ 
+        error: "Failed to roll back document",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Entity extraction runs for the document, newest first
+  app.get("/api/documents/:id/extractions", async (req, res) => {
+    try {
+      const document = await storage.getDocumentById(req.params.id);
+      if (!document || document.projectId !== req.project!.id) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const extractions = await storage.getDocumentExtractions(document.id);
+      res.json(extractions);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get document extractions",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Run entity extraction on the document's current version and wait for the result
+  app.post("/api/documents/:id/extract", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/documents/${req.params.id}/extract`;
+    
+    try {
+      const document = await storage.getDocumentById(req.params.id);
+      if (!document || document.projectId !== req.project!.id) {
+        await storage.createApiLog({ projectId: req.project!.id, method: "POST", endpoint, status: 404, duration: (Date.now() - startTime) / 1000 });
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (!isExtractable(document)) {
+        throw new Error("Story bible profiles are generated from entities and are not extracted");
+      }
+
+      const extraction = await extractDocument(document);
+      const status = extraction.status === "completed" ? 201 : 500;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "POST", endpoint, status, duration: duration / 1000 });
+
+      if (extraction.status !== "completed") {
+        return res.status(500).json({ error: "Failed to extract entities", details: extraction.error, extraction });
+      }
+      res.status(201).json(extraction);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "POST", endpoint, status: 400, duration: duration / 1000 });
+
+      res.status(400).json({ 
+        error: "Failed to extract entities",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // List story bible entities, optionally of one type
+  app.get("/api/entities", async (req, res) => {
+    try {
+      const entities = await storage.getEntities(req.project!.id);
+      res.json(req.query.type ? entities.filter(entity => entity.type === req.query.type) : entities);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get entities",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get one entity with its relationships and the profile text that is embedded for it
+  app.get("/api/entities/:id", async (req, res) => {
+    try {
+      const entity = await storage.getEntityById(req.params.id);
+      if (!entity || entity.projectId !== req.project!.id) {
+        return res.status(404).json({ error: "Entity not found" });
+      }
+
+      const related = await getRelatedEntities(entity);
+      res.json({
+        entity,
+        relationships: related.map(({ relationship, direction, entity: other }) => ({
+          ...relationship,
+          direction,
+          otherEntity: { id: other.id, name: other.name, type: other.type },
+        })),
+        profile: renderEntity(entity, related),
+      });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get entity",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Entities within ?hops= relationships of this one (default 1), following only the
+  // comma-separated ?types= when given
+  app.get("/api/entities/:id/neighbourhood", async (req, res) => {
+    try {
+      const { hops, types } = z.object({
+        hops: z.coerce.number().int().min(1).max(MAX_NEIGHBOURHOOD_HOPS).default(1),
+        types: z.string().optional().transform(value => value ? value.split(",") : undefined).pipe(z.array(z.enum(relationshipTypes)).optional()),
+      }).parse(req.query);
+
+      const neighbourhood = await getNeighbourhood(req.project!.id, req.params.id, hops, types);
+      if (!neighbourhood) {
+        return res.status(404).json({ error: "Entity not found" });
+      }
+      res.json(neighbourhood);
+    } catch (error) {
+      res.status(400).json({ 
+        error: "Failed to get neighbourhood",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Create an entity and index its rendered profile
+  app.post("/api/entities", async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const entityData = insertEntitySchema.parse(req.body);
+      const entity = await createEntity(req.project!.id, entityData);
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/entities",
+        status: 201,
+        duration: duration / 1000,
+      });
+
+      res.status(201).json(entity);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/entities",
+        status: 400,
+        duration: duration / 1000,
+      });
+
+      res.status(400).json({ 
+        error: "Failed to create entity",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Replace an entity's fields and re-index its profile (and those of entities that name it)
+  app.put("/api/entities/:id", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/entities/${req.params.id}`;
+    
+    try {
+      const entityData = insertEntitySchema.parse(req.body);
+      const entity = await updateEntity(req.project!.id, req.params.id, entityData);
+      const status = entity ? 200 : 404;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "PUT", endpoint, status, duration: duration / 1000 });
+
+      if (!entity) {
+        return res.status(404).json({ error: "Entity not found" });
+      }
+      res.json(entity);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "PUT", endpoint, status: 400, duration: duration / 1000 });
+
+      res.status(400).json({ 
+        error: "Failed to update entity",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Delete an entity, its relationships and its profile document
+  app.delete("/api/entities/:id", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/entities/${req.params.id}`;
+    
+    try {
+      const deleted = await deleteEntity(req.project!.id, req.params.id);
+      const status = deleted ? 200 : 404;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status, duration: duration / 1000 });
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Entity not found" });
+      }
+      res.json({ message: "Entity deleted successfully" });
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status: 500, duration: duration / 1000 });
+
+      res.status(500).json({ 
+        error: "Failed to delete entity",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // List every relationship in the project
+  app.get("/api/relationships", async (req, res) => {
+    try {
+      const relationships = await storage.getEntityRelationships(req.project!.id);
+      res.json(relationships);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get relationships",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Relate two entities; both profiles are re-indexed
+  app.post("/api/relationships", async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const relationshipData = insertEntityRelationshipSchema.parse(req.body);
+      const relationship = await createRelationship(req.project!.id, relationshipData);
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/relationships",
+        status: 201,
+        duration: duration / 1000,
+      });
+
+      res.status(201).json(relationship);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/relationships",
+        status: 400,
+        duration: duration / 1000,
+      });
+
+      res.status(400).json({ 
+        error: "Failed to create relationship",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Remove a relationship; both profiles are re-indexed
+  app.delete("/api/relationships/:id", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/relationships/${req.params.id}`;
+    
+    try {
+      const deleted = await deleteRelationship(req.project!.id, req.params.id);
+      const status = deleted ? 200 : 404;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status, duration: duration / 1000 });
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Relationship not found" });
+      }
+      res.json({ message: "Relationship deleted successfully" });
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status: 500, duration: duration / 1000 });
+
+      res.status(500).json({ 
+        error: "Failed to delete relationship",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Entities found by extraction, pending review unless ?status= names another state
+  app.get("/api/entity-candidates", async (req, res) => {
+    try {
+      const status = z.enum(entityCandidateStatuses).parse(req.query.status || "pending");
+      const [candidates, documents] = await Promise.all([
+        storage.getEntityCandidates(req.project!.id),
+        storage.getDocuments(req.project!.id),
+      ]);
+      const documentsById = new Map(documents.map(document => [document.id, document]));
+
+      res.json(candidates
+        .filter(candidate => candidate.status === status)
+        .map(candidate => {
+          const source = documentsById.get(candidate.sourceDocumentId);
+          return {
+            ...candidate,
+            sourceDocument: source ? { id: source.id, documentId: source.documentId, category: source.category } : null,
+          };
+        }));
+    } catch (error) {
+      res.status(400).json({ 
+        error: "Failed to get entity candidates",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Resolve a candidate: add it as a new entity, merge it into an existing one or dismiss it
+  const resolveCandidateRoute = (action: "accept" | "merge" | "dismiss") =>
+    async (req: Request, res: Response) => {
+      const startTime = Date.now();
+      const endpoint = `/api/entity-candidates/${req.params.id}/${action}`;
+      
+      try {
+        const resolved = action === "accept"
+          ? await acceptCandidate(req.project!.id, req.params.id)
+          : action === "merge"
+            ? await mergeCandidate(req.project!.id, req.params.id, z.string().min(1, "entityId is required").parse(req.body.entityId))
+            : await dismissCandidate(req.project!.id, req.params.id);
+        const status = resolved ? 200 : 404;
+
+        const duration = Date.now() - startTime;
+        
+        await storage.createApiLog({ projectId: req.project!.id, method: "POST", endpoint, status, duration: duration / 1000 });
+
+        if (!resolved) {
+          return res.status(404).json({ error: "Candidate not found" });
+        }
+        res.json(resolved);
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        
+        await storage.createApiLog({ projectId: req.project!.id, method: "POST", endpoint, status: 400, duration: duration / 1000 });
+
+        res.status(400).json({ 
+          error: `Failed to ${action} entity candidate`,
+          details: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    };
+
+  app.post("/api/entity-candidates/:id/accept", resolveCandidateRoute("accept"));
+  app.post("/api/entity-candidates/:id/merge", resolveCandidateRoute("merge"));
+  app.post("/api/entity-candidates/:id/dismiss", resolveCandidateRoute("dismiss"));
+
+  // Every timeline event placed on the year axis, earliest first (unplaced events last),
+  // with the consistency issues the placements raise
+  app.get("/api/timeline", async (req, res) => {
+    try {
+      const [events, entities] = await Promise.all([
+        storage.getTimelineEvents(req.project!.id),
+        storage.getEntities(req.project!.id),
+      ]);
+      const { placements, issues } = solveTimeline(events, entities);
+
+      res.json({
+        events: events
+          .map(event => ({ ...event, placement: placements[event.id] ?? null }))
+          .sort((a, b) => (a.placement?.start ?? Infinity) - (b.placement?.start ?? Infinity)),
+        issues,
+      });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get timeline",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/timeline/events", async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const eventData = insertTimelineEventSchema.parse(req.body);
+      const event = await createTimelineEvent(req.project!.id, eventData);
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/timeline/events",
+        status: 201,
+        duration: duration / 1000,
+      });
+
+      res.status(201).json(event);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/timeline/events",
+        status: 400,
+        duration: duration / 1000,
+      });
+
+      res.status(400).json({ 
+        error: "Failed to create timeline event",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Replace an event's fields; an extracted event becomes manual and survives re-extraction
+  app.put("/api/timeline/events/:id", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/timeline/events/${req.params.id}`;
+    
+    try {
+      const eventData = insertTimelineEventSchema.parse(req.body);
+      const event = await updateTimelineEvent(req.project!.id, req.params.id, eventData);
+      const status = event ? 200 : 404;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "PUT", endpoint, status, duration: duration / 1000 });
+
+      if (!event) {
+        return res.status(404).json({ error: "Timeline event not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "PUT", endpoint, status: 400, duration: duration / 1000 });
+
+      res.status(400).json({ 
+        error: "Failed to update timeline event",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Delete an event; events placed relative to it keep only their own dates
+  app.delete("/api/timeline/events/:id", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/timeline/events/${req.params.id}`;
+    
+    try {
+      const deleted = await deleteTimelineEvent(req.project!.id, req.params.id);
+      const status = deleted ? 200 : 404;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status, duration: duration / 1000 });
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Timeline event not found" });
+      }
+      res.json({ message: "Timeline event deleted successfully" });
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status: 500, duration: duration / 1000 });
+
+      res.status(500).json({ 
+        error: "Failed to delete timeline event",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // List the prompt templates queries can use, the built-in one first
+  app.get("/api/prompt-templates", async (req, res) => {
+    try {
+      const templates = await listPromptTemplates(req.project!.id);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get prompt templates",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/prompt-templates", async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const templateData = insertPromptTemplateSchema.parse(req.body);
+      const template = await createPromptTemplate(req.project!.id, templateData);
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/prompt-templates",
+        status: 201,
+        duration: duration / 1000,
+      });
+
+      res.status(201).json(template);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({
+        projectId: req.project!.id,
+        method: "POST",
+        endpoint: "/api/prompt-templates",
+        status: 400,
+        duration: duration / 1000,
+      });
+
+      res.status(400).json({ 
+        error: "Failed to create prompt template",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Retrieve the context a sample query would be answered from, for the editor's live preview
+  app.post("/api/prompt-templates/preview", async (req, res) => {
+    try {
+      const query = z.string().trim().min(1, "Sample query is required").parse(req.body.query);
+      
+      const context = await retrievePromptContext({
+        projectId: req.project!.id,
+        query,
+        topK: parseInt(req.body.topK || "5"),
+        threshold: parseFloat(req.body.threshold || "0.7"),
+        embeddingModel: req.body.embeddingModel || undefined,
+        retrieval: retrievalOptionsSchema.parse(req.body.retrieval || {}),
+        filter: req.body.filter ? metadataFilterSchema.parse(req.body.filter) : undefined,
+      });
+
+      res.json({ context });
+    } catch (error) {
+      res.status(400).json({ 
+        error: "Failed to preview prompt template",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Replace a template's fields; the built-in template cannot be changed
+  app.put("/api/prompt-templates/:id", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/prompt-templates/${req.params.id}`;
+    
+    try {
+      const templateData = insertPromptTemplateSchema.parse(req.body);
+      const template = await updatePromptTemplate(req.project!.id, req.params.id, templateData);
+      const status = template ? 200 : 404;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "PUT", endpoint, status, duration: duration / 1000 });
+
+      if (!template) {
+        return res.status(404).json({ error: "Prompt template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "PUT", endpoint, status: 400, duration: duration / 1000 });
+
+      res.status(400).json({ 
+        error: "Failed to update prompt template",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.delete("/api/prompt-templates/:id", async (req, res) => {
+    const startTime = Date.now();
+    const endpoint = `/api/prompt-templates/${req.params.id}`;
+    
+    try {
+      const deleted = await deletePromptTemplate(req.project!.id, req.params.id);
+      const status = deleted ? 200 : 404;
+
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status, duration: duration / 1000 });
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Prompt template not found" });
+      }
+      res.json({ message: "Prompt template deleted successfully" });
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await storage.createApiLog({ projectId: req.project!.id, method: "DELETE", endpoint, status: 500, duration: duration / 1000 });
+
+      res.status(500).json({ 
+        error: "Failed to delete prompt template",
         details: error instanceof Error ? error.message : "Unknown error"
       });
     }
@@ -253,7 +1515,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get API logs
   app.get("/api/logs", async (req, res) => {
     try {
-      const logs = await storage.getApiLogs();
+      const logs = await storage.getApiLogs(req.project!.id);
       res.json(logs);
     } catch (error) {
       res.status(500).json({ 
@@ -266,7 +1528,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Clear API logs
   app.delete("/api/logs", async (req, res) => {
     try {
-      await storage.clearApiLogs();
+      await storage.clearApiLogs(req.project!.id);
       res.json({ message: "API logs cleared successfully" });
     } catch (error) {
       res.status(500).json({ 
@@ -0,0 +1,123 @@
+export interface Bm25Options {
+  k1?: number;
+  b?: number;
+}
+
+export interface Bm25SearchResult {
+  id: string;
+  score: number;
+}
+
+interface Bm25Document {
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "did", "do", "does", "for", "from", "had", "has",
+  "have", "he", "her", "his", "how", "i", "in", "is", "it", "its", "me", "of", "on", "or", "she", "so",
+  "that", "the", "their", "them", "they", "this", "to", "was", "we", "were", "what", "when", "where",
+  "which", "who", "why", "with", "you",
+]);
+
+// Lowercased word tokens with possessives and stopwords removed; no stemming, so
+// proper nouns like "Keda" only ever match themselves
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]s\b/g, "")
+    .split(/[^a-z0-9\u00C0-\u024F]+/)
+    .filter(token => token.length > 0 && !STOPWORDS.has(token));
+}
+
+// Okapi BM25 over an inverted index of term -> (id -> term frequency)
+export class Bm25Index {
+  readonly k1: number;
+  readonly b: number;
+
+  private documents: Map<string, Bm25Document> = new Map();
+  private postings: Map<string, Map<string, number>> = new Map();
+  private totalLength = 0;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  add(id: string, text: string): void {
+    if (this.documents.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+    }
+
+    for (const [term, frequency] of Array.from(termFrequencies.entries())) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.documents.set(id, { length: tokens.length, termFrequencies });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const term of Array.from(document.termFrequencies.keys())) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  // `accept` excludes documents before they are scored
+  search(query: string, k: number, accept?: (id: string) => boolean): Bm25SearchResult[] {
+    const count = this.documents.size;
+    if (count === 0) return [];
+
+    const averageLength = this.totalLength / count;
+    const scores = new Map<string, number>();
+
+    for (const term of Array.from(new Set(tokenize(query)))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of Array.from(posting.entries())) {
+        if (accept && !accept(id)) continue;
+        const length = this.documents.get(id)!.length;
+        const norm = frequency + this.k1 * (1 - this.b + this.b * (length / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + idf * (frequency * (this.k1 + 1)) / norm);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  size(): number {
+    return this.documents.size;
+  }
+}
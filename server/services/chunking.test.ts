@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chunkText, type TextChunk } from "./chunking";
+
+const LONG_PARAGRAPH = Array.from({ length: 20 }, (_, i) => `word${i}`).join(" ") + ".";
+
+const TEXT = [
+  "# Chapter One",
+  "",
+  "  Evie woke before dawn. The house was quiet!",
+  "",
+  "She walked to the river,",
+  "counting her steps. The water was high.",
+  "",
+  "⸻",
+  "",
+  "College Years – Miami",
+  "",
+  `\t${LONG_PARAGRAPH}  `,
+  "",
+  "Sam arrived in August. He wanted to study \"law.\" Nobody believed him.   ",
+  "",
+].join("\n");
+
+// Every chunk is the exact slice of the text between its offsets, trimmed of whitespace
+// at both ends, and together the chunks cover every word
+function assertOffsets(text: string, chunks: TextChunk[], skip: string[] = []): void {
+  assert.ok(chunks.length > 0);
+  chunks.forEach((chunk, index) => {
+    assert.equal(chunk.index, index);
+    assert.equal(text.slice(chunk.startOffset, chunk.endOffset), chunk.content);
+    assert.equal(chunk.content, chunk.content.trim());
+    assert.ok(chunk.content.length > 0);
+    if (index > 0) assert.ok(chunk.startOffset > chunks[index - 1].startOffset);
+  });
+
+  for (const match of Array.from(text.matchAll(/\S+/g))) {
+    if (skip.includes(match[0])) continue;
+    const start = match.index!;
+    assert.ok(
+      chunks.some(chunk => chunk.startOffset <= start && start + match[0].length <= chunk.endOffset),
+      `"${match[0]}" at ${start} is in no chunk`,
+    );
+  }
+}
+
+function tokenCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+describe("chunkText", () => {
+  for (const newline of ["\n", "\r\n"]) {
+    const text = TEXT.replace(/\n/g, newline);
+    const label = newline === "\n" ? "LF" : "CRLF";
+
+    it(`keeps paragraph chunk offsets on the text across headings and dividers (${label})`, () => {
+      const chunks = chunkText(text, { strategy: "paragraph", maxTokens: 8, overlap: 3 });
+      assertOffsets(text, chunks, ["⸻"]);
+
+      // Headings start a chunk, and no chunk runs across a divider
+      for (const heading of ["# Chapter One", "College Years – Miami"]) {
+        assert.ok(chunks.some(chunk => chunk.startOffset === text.indexOf(heading)), heading);
+      }
+      const divider = text.indexOf("⸻");
+      assert.ok(chunks.every(chunk => chunk.endOffset <= divider || chunk.startOffset > divider));
+    });
+
+    it(`overlaps the windows of an oversized paragraph on the text (${label})`, () => {
+      const chunks = chunkText(text, { strategy: "paragraph", maxTokens: 8, overlap: 3 });
+      const paragraph = { start: text.indexOf("word0"), end: text.indexOf("word19.") + "word19.".length };
+      const windows = chunks.filter(chunk => chunk.startOffset >= paragraph.start && chunk.endOffset <= paragraph.end);
+
+      assert.equal(windows[0].startOffset, paragraph.start);
+      assert.equal(windows[windows.length - 1].endOffset, paragraph.end);
+      for (let i = 1; i < windows.length; i++) {
+        assert.equal(tokenCount(text.slice(windows[i].startOffset, windows[i - 1].endOffset)), 3);
+      }
+    });
+
+    it(`keeps fixed window offsets on the text (${label})`, () => {
+      const chunks = chunkText(text, { strategy: "fixed", maxTokens: 10, overlap: 4 });
+      assertOffsets(text, chunks);
+      for (let i = 1; i < chunks.length; i++) {
+        assert.equal(tokenCount(text.slice(chunks[i].startOffset, chunks[i - 1].endOffset)), 4);
+      }
+    });
+
+    it(`keeps sentence window offsets on the text (${label})`, () => {
+      const chunks = chunkText(text, { strategy: "sentence", windowSize: 3 });
+      assertOffsets(text, chunks);
+      // Consecutive windows share exactly one sentence
+      for (let i = 1; i < chunks.length; i++) {
+        const shared = text.slice(chunks[i].startOffset, chunks[i - 1].endOffset);
+        assert.ok(shared.length > 0 && chunks[i - 1].content.endsWith(shared) && chunks[i].content.startsWith(shared));
+      }
+    });
+  }
+
+  it("returns no chunks for blank text", () => {
+    for (const strategy of ["fixed", "paragraph", "sentence"] as const) {
+      assert.deepEqual(chunkText(" \n\t\n ", { strategy }), []);
+    }
+  });
+});
@@ -0,0 +1,166 @@
+import { chunkingOptionsSchema, type ChunkingOptions } from "@shared/schema";
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Tokens are approximated by whitespace-delimited words, which keeps chunk sizes
+// comfortably inside the embedding model's limit without shipping a tokenizer.
+function tokenSpans(text: string, offset = 0): Span[] {
+  const spans: Span[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    spans.push({ start: offset + match.index, end: offset + match.index + match[0].length });
+  }
+  return spans;
+}
+
+function sentenceSpans(text: string): Span[] {
+  const spans: Span[] = [];
+  const pattern = /[^.!?]+(?:[.!?]+["'”’)\]]*|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const leading = match[0].length - match[0].trimStart().length;
+    const content = match[0].trim();
+    if (content) {
+      const start = match.index + leading;
+      spans.push({ start, end: start + content.length });
+    }
+  }
+  return spans;
+}
+
+function paragraphSpans(text: string): Span[] {
+  const spans: Span[] = [];
+  const pattern = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].trim()) {
+      const leading = match[0].length - match[0].trimStart().length;
+      const start = match.index + leading;
+      spans.push({ start, end: start + match[0].trim().length });
+    }
+  }
+  return spans;
+}
+
+// Markdown headings, or short standalone lines without closing punctuation
+// such as "College Years – Miami" in the character sketches
+function isHeading(block: string): boolean {
+  if (/^#{1,6}\s/.test(block)) return true;
+  return !block.includes("\n") && block.length <= 60 && !/[.!?,;]["'”’)]*$/.test(block);
+}
+
+function toChunks(text: string, spans: Span[]): TextChunk[] {
+  return spans.map((span, index) => ({
+    index,
+    content: text.slice(span.start, span.end),
+    startOffset: span.start,
+    endOffset: span.end,
+  }));
+}
+
+function fixedSpans(text: string, maxTokens: number, overlap: number, range: Span = { start: 0, end: text.length }): Span[] {
+  const tokens = tokenSpans(text.slice(range.start, range.end), range.start);
+  const spans: Span[] = [];
+  const step = Math.max(1, maxTokens - Math.min(overlap, maxTokens - 1));
+
+  for (let i = 0; i < tokens.length; i += step) {
+    const window = tokens.slice(i, i + maxTokens);
+    spans.push({ start: window[0].start, end: window[window.length - 1].end });
+    if (i + maxTokens >= tokens.length) break;
+  }
+
+  return spans;
+}
+
+function chunkFixed(text: string, options: ChunkingOptions): Span[] {
+  return fixedSpans(text, options.maxTokens, options.overlap);
+}
+
+// Paragraphs are packed together up to maxTokens; a heading always starts a new
+// chunk so a section never bleeds into the previous one.
+function chunkParagraphs(text: string, options: ChunkingOptions): Span[] {
+  const spans: Span[] = [];
+  let current: Span | null = null;
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current) spans.push(current);
+    current = null;
+    currentTokens = 0;
+  };
+
+  for (const block of paragraphSpans(text)) {
+    const blockText = text.slice(block.start, block.end);
+    const blockTokens = tokenSpans(blockText).length;
+
+    // Divider lines ("⸻", "---") end a section but carry no content of their own
+    if (!/[\w\u00C0-\u024F]/.test(blockText)) {
+      flush();
+      continue;
+    }
+
+    if (blockTokens > options.maxTokens) {
+      flush();
+      spans.push(...fixedSpans(text, options.maxTokens, options.overlap, block));
+      continue;
+    }
+
+    if (isHeading(blockText) || currentTokens + blockTokens > options.maxTokens) {
+      flush();
+    }
+
+    current = current ? { start: current.start, end: block.end } : { ...block };
+    currentTokens += blockTokens;
+  }
+
+  flush();
+  return spans;
+}
+
+// Windows of `windowSize` sentences that overlap by one sentence
+function chunkSentences(text: string, options: ChunkingOptions): Span[] {
+  const sentences = sentenceSpans(text);
+  const spans: Span[] = [];
+  const step = Math.max(1, options.windowSize - 1);
+
+  for (let i = 0; i < sentences.length; i += step) {
+    const window = sentences.slice(i, i + options.windowSize);
+    spans.push({ start: window[0].start, end: window[window.length - 1].end });
+    if (i + options.windowSize >= sentences.length) break;
+  }
+
+  return spans;
+}
+
+export function chunkText(text: string, options: Partial<ChunkingOptions> = {}): TextChunk[] {
+  const resolved = chunkingOptionsSchema.parse(options);
+
+  let spans: Span[];
+  switch (resolved.strategy) {
+    case "fixed":
+      spans = chunkFixed(text, resolved);
+      break;
+    case "sentence":
+      spans = chunkSentences(text, resolved);
+      break;
+    default:
+      spans = chunkParagraphs(text, resolved);
+  }
+
+  return toChunks(text, spans);
+}
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { labelContext, resolveCitations } from "./citations";
+import { toSearchResult } from "./pinecone";
+
+const RESULTS = [
+  toSearchResult("chunk-1", 0.9, { content: "Evie was born in Miami.", category: "characters", parentId: "doc-1", documentId: "evie", chunkIndex: 0, startOffset: 0, endOffset: 23 }),
+  toSearchResult("chunk-2", 0.8, { content: "Sam arrived in August.", category: "chapters", parentId: "doc-2", documentId: "chapter-1", chunkIndex: 2, startOffset: 40, endOffset: 62 }),
+  toSearchResult("chunk-3", 0.7, { content: "The river flooded.", category: "chapters", documentId: "chapter-2" }),
+];
+
+function markers(response: string, results = RESULTS): number[] {
+  return resolveCitations(response, results).citations.map(citation => citation.marker);
+}
+
+describe("labelContext", () => {
+  it("numbers passages from 1 with their document and chunk", () => {
+    assert.deepEqual(labelContext(RESULTS.slice(1)), [
+      "[1] (chapter-1, chunk 3)\nSam arrived in August.",
+      "[2] (chapter-2)\nThe river flooded.",
+    ]);
+  });
+});
+
+describe("resolveCitations", () => {
+  it("maps markers back to the passages they label", () => {
+    const { response, citations, invalidMarkers } = resolveCitations("Evie was born in Miami [1].", RESULTS);
+
+    assert.equal(response, "Evie was born in Miami [1].");
+    assert.deepEqual(citations, [{
+      marker: 1,
+      id: "chunk-1",
+      documentId: "evie",
+      category: "characters",
+      score: 0.9,
+      text: "Evie was born in Miami.",
+      parentId: "doc-1",
+      chunkIndex: 0,
+      startOffset: 0,
+      endOffset: 23,
+    }]);
+    assert.deepEqual(invalidMarkers, []);
+  });
+
+  it("leaves [0] as written, and drops 0 from a group with a citation", () => {
+    assert.deepEqual(resolveCitations("See note [0].", RESULTS), { response: "See note [0].", citations: [], invalidMarkers: [] });
+
+    const grouped = resolveCitations("Evie was born in Miami [0, 1].", RESULTS);
+    assert.equal(grouped.response, "Evie was born in Miami [1].");
+    assert.deepEqual(grouped.citations.map(citation => citation.marker), [1]);
+    assert.deepEqual(grouped.invalidMarkers, [0]);
+  });
+
+  it("treats numbers past the last passage the same way", () => {
+    assert.deepEqual(resolveCitations("It flooded [4] in [2009].", RESULTS), {
+      response: "It flooded [4] in [2009].",
+      citations: [],
+      invalidMarkers: [],
+    });
+
+    const grouped = resolveCitations("It flooded [3, 4]. Sam came [7, 2].", RESULTS);
+    assert.equal(grouped.response, "It flooded [3]. Sam came [2].");
+    assert.deepEqual(grouped.invalidMarkers, [4, 7]);
+  });
+
+  it("cites every passage in a group, in the order first cited", () => {
+    const { response, citations } = resolveCitations("Both happened [3,1]. Then again [1, 3].", RESULTS);
+
+    assert.equal(response, "Both happened [3, 1]. Then again [1, 3].");
+    assert.deepEqual(citations.map(citation => [citation.marker, citation.id]), [[3, "chunk-3"], [1, "chunk-1"]]);
+    assert.equal(citations[0].parentId, undefined);
+  });
+
+  it("leaves passages that were never cited out of the citations", () => {
+    assert.deepEqual(markers("Sam arrived in August [2]."), [2]);
+    assert.deepEqual(markers("Nothing here is sourced."), []);
+    assert.deepEqual(markers("Sam arrived [1].", []), []);
+  });
+});
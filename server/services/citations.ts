@@ -0,0 +1,81 @@
+import type { SimilaritySearchResult } from "./pinecone";
+
+// A numbered source the answer points at, e.g. "[2]" -> second retrieved passage
+export interface Citation {
+  marker: number;
+  id: string;
+  documentId: string;
+  category: string;
+  score: number;
+  text: string;
+  parentId?: string;
+  chunkIndex?: number;
+  startOffset?: number;
+  endOffset?: number;
+}
+
+export interface CitedResponse {
+  response: string;
+  citations: Citation[];
+  // Numbers outside the retrieved passages that sat in a group alongside a valid marker
+  invalidMarkers: number[];
+}
+
+// "[1]" or "[1, 3]", with the space before it so a dropped number takes that space along
+const MARKER_PATTERN = /([ \t]?)\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+function documentIdOf(result: SimilaritySearchResult): string {
+  return result.source?.documentId ?? result.metadata?.documentId ?? result.id;
+}
+
+// Label each passage with its 1-based position so the model can cite it as [n]
+export function labelContext(results: SimilaritySearchResult[]): string[] {
+  return results.map((result, i) => {
+    const chunk = result.source ? `, chunk ${result.source.chunkIndex + 1}` : "";
+    return `[${i + 1}] (${documentIdOf(result)}${chunk})\n${result.text}`;
+  });
+}
+
+// Map the markers in an answer back to the passages they label. Only numbers from 1 to the
+// passage count are citations: a bracket holding none of them is prose, such as "[2009]",
+// and stays as written, while out-of-range numbers grouped with a citation are dropped.
+export function resolveCitations(response: string, results: SimilaritySearchResult[]): CitedResponse {
+  const citations = new Map<number, Citation>();
+  const invalid = new Set<number>();
+
+  const cited = response.replace(MARKER_PATTERN, (match, space: string, group: string) => {
+    const markers = group.split(",").map(marker => parseInt(marker.trim(), 10));
+    const isCitation = (marker: number) => marker >= 1 && marker <= results.length;
+    if (!markers.some(isCitation)) return match;
+
+    const valid = markers.filter(marker => {
+      if (!isCitation(marker)) {
+        invalid.add(marker);
+        return false;
+      }
+      const result = results[marker - 1];
+      if (!citations.has(marker)) {
+        citations.set(marker, {
+          marker,
+          id: result.id,
+          documentId: documentIdOf(result),
+          category: result.category,
+          score: result.score,
+          text: result.text,
+          parentId: result.source?.parentId,
+          chunkIndex: result.source?.chunkIndex,
+          startOffset: result.source?.startOffset,
+          endOffset: result.source?.endOffset,
+        });
+      }
+      return true;
+    });
+    return `${space}[${valid.join(", ")}]`;
+  });
+
+  return {
+    response: cited,
+    citations: Array.from(citations.values()),
+    invalidMarkers: Array.from(invalid).sort((a, b) => a - b),
+  };
+}
@@ -0,0 +1,173 @@
+import { z } from "zod";
+import type { MetadataFilter, RetrievalOptions } from "@shared/schema";
+import { extractClaims, findContradictions, generateEmbeddings } from "./openai";
+import type { SimilaritySearchResult } from "./pinecone";
+import { retrieve } from "./retrieval";
+import { resolveEmbeddingModel } from "./indexing";
+
+// Drafts with more claims than this are only checked for the first ones
+const MAX_CLAIMS = 25;
+
+export const continuitySeverities = ["low", "medium", "high"] as const;
+export type ContinuitySeverity = typeof continuitySeverities[number];
+
+const claimsSchema = z.object({
+  claims: z.array(z.object({
+    claim: z.string().trim().min(1),
+    quote: z.string().trim().default(""),
+  })).default([]),
+});
+
+const contradictionsSchema = z.object({
+  contradictions: z.array(z.object({
+    claim: z.coerce.number().int(),
+    passage: z.coerce.number().int(),
+    evidence: z.string().trim().default(""),
+    explanation: z.string().trim().default(""),
+    severity: z.enum(continuitySeverities).catch("medium"),
+  })).default([]),
+});
+
+export interface ContinuityCheckOptions {
+  // The project whose knowledge base is treated as canon
+  projectId: string;
+  passage: string;
+  topK: number;
+  threshold: number;
+  chatModel: string;
+  embeddingModel?: string;
+  retrieval?: RetrievalOptions;
+  filter?: MetadataFilter;
+}
+
+// Character offsets of a claim's quote in the draft; null when the model paraphrased
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface ContinuityClaim {
+  claim: string;
+  quote: string;
+  span: TextSpan | null;
+  canon: SimilaritySearchResult[];
+}
+
+export interface ContinuityIssue {
+  // Index into the report's claims
+  claimIndex: number;
+  claim: string;
+  quote: string;
+  span: TextSpan | null;
+  severity: ContinuitySeverity;
+  explanation: string;
+  evidence: {
+    // The contradicting words of the canon passage, or its opening if the model misquoted it
+    quote: string;
+    id: string;
+    documentId: string;
+    category: string;
+    score: number;
+    text: string;
+  };
+}
+
+export interface ContinuityReport {
+  claims: ContinuityClaim[];
+  // Most severe first, then in draft order
+  issues: ContinuityIssue[];
+  model: string;
+}
+
+function parseAnswer<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, answer: unknown, what: string): T {
+  const parsed = schema.safeParse(answer);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`The ${what} did not match the expected format at ${issue.path.join(".") || "the top level"}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+// Find a quote in a text, exactly or ignoring case
+export function locateSpan(text: string, quote: string): TextSpan | null {
+  if (!quote) return null;
+  let start = text.indexOf(quote);
+  if (start < 0) start = text.toLowerCase().indexOf(quote.toLowerCase());
+  return start < 0 ? null : { start, end: start + quote.length };
+}
+
+function documentIdOf(result: SimilaritySearchResult): string {
+  return result.source?.documentId ?? result.metadata?.documentId ?? result.id;
+}
+
+// Check a draft passage against the knowledge base: extract its factual claims, embed
+// each one and retrieve the canon closest to it through the normal retrieval path,
+// then have the chat model compare every claim with its canon
+export async function checkContinuity(options: ContinuityCheckOptions): Promise<ContinuityReport> {
+  const embeddingModel = await resolveEmbeddingModel(options.projectId, options.embeddingModel);
+
+  const extracted = parseAnswer(claimsSchema, await extractClaims(options.passage, options.chatModel), "claim list");
+  const found = extracted.claims.slice(0, MAX_CLAIMS);
+  if (found.length === 0) {
+    return { claims: [], issues: [], model: options.chatModel };
+  }
+
+  const embeddings = await generateEmbeddings(found.map(({ claim }) => claim), embeddingModel);
+  const claims: ContinuityClaim[] = [];
+  for (const [i, { claim, quote }] of Array.from(found.entries())) {
+    const canon = await retrieve({
+      projectId: options.projectId,
+      embedding: embeddings[i].embedding,
+      text: claim,
+      topK: options.topK,
+      threshold: options.threshold,
+      options: options.retrieval,
+      filter: options.filter,
+    });
+    claims.push({ claim, quote, span: locateSpan(options.passage, quote), canon });
+  }
+
+  // Claims with no canon to compare against cannot contradict anything
+  const checked = claims.filter(claim => claim.canon.length > 0);
+  if (checked.length === 0) {
+    return { claims, issues: [], model: options.chatModel };
+  }
+
+  const answer = await findContradictions(
+    checked.map(({ claim, canon }) => ({ claim, canon: canon.map(result => result.text) })),
+    options.chatModel,
+  );
+  const { contradictions } = parseAnswer(contradictionsSchema, answer, "continuity check");
+
+  const issues: ContinuityIssue[] = [];
+  for (const contradiction of contradictions) {
+    // Numbers outside what the model was shown are dropped
+    const claim = checked[contradiction.claim - 1];
+    const result = claim?.canon[contradiction.passage - 1];
+    if (!claim || !result) continue;
+
+    const quoted = locateSpan(result.text, contradiction.evidence);
+    issues.push({
+      claimIndex: claims.indexOf(claim),
+      claim: claim.claim,
+      quote: claim.quote,
+      span: claim.span,
+      severity: contradiction.severity,
+      explanation: contradiction.explanation,
+      evidence: {
+        quote: quoted ? result.text.slice(quoted.start, quoted.end) : result.text.slice(0, 300),
+        id: result.id,
+        documentId: documentIdOf(result),
+        category: result.category,
+        score: result.score,
+        text: result.text,
+      },
+    });
+  }
+
+  issues.sort((a, b) =>
+    continuitySeverities.indexOf(b.severity) - continuitySeverities.indexOf(a.severity) ||
+    (a.span?.start ?? Infinity) - (b.span?.start ?? Infinity)
+  );
+  return { claims, issues, model: options.chatModel };
+}
@@ -0,0 +1,94 @@
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+  // 1-based line numbers in the old and new text
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface TextDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+}
+
+// Above this many cells the LCS table is skipped and the changed region is shown
+// as one removal followed by one addition
+const MAX_LCS_CELLS = 4000000;
+
+// Line diff based on the longest common subsequence. The common prefix and suffix
+// are trimmed first, so a small edit to a long manuscript only compares the changed region.
+export function diffLines(oldText: string, newText: string): TextDiff {
+  const a = oldText.split("\n");
+  const b = newText.split("\n");
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const lines: DiffLine[] = [];
+
+  for (let i = 0; i < prefix; i++) {
+    lines.push({ type: "equal", text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+  let i = 0;
+  let j = 0;
+
+  if (n * m <= MAX_LCS_CELLS) {
+    // lengths[x * (m + 1) + y] = LCS length of oldMiddle[x..] and newMiddle[y..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let x = n - 1; x >= 0; x--) {
+      for (let y = m - 1; y >= 0; y--) {
+        lengths[x * (m + 1) + y] = oldMiddle[x] === newMiddle[y]
+          ? lengths[(x + 1) * (m + 1) + y + 1] + 1
+          : Math.max(lengths[(x + 1) * (m + 1) + y], lengths[x * (m + 1) + y + 1]);
+      }
+    }
+
+    while (i < n && j < m) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        lines.push({ type: "equal", text: oldMiddle[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        lines.push({ type: "removed", text: oldMiddle[i], oldLine: prefix + i + 1 });
+        i++;
+      } else {
+        lines.push({ type: "added", text: newMiddle[j], newLine: prefix + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (; i < n; i++) {
+    lines.push({ type: "removed", text: oldMiddle[i], oldLine: prefix + i + 1 });
+  }
+  for (; j < m; j++) {
+    lines.push({ type: "added", text: newMiddle[j], newLine: prefix + j + 1 });
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    lines.push({
+      type: "equal",
+      text: a[a.length - suffix + k],
+      oldLine: a.length - suffix + k + 1,
+      newLine: b.length - suffix + k + 1,
+    });
+  }
+
+  return {
+    lines,
+    added: lines.filter(line => line.type === "added").length,
+    removed: lines.filter(line => line.type === "removed").length,
+  };
+}
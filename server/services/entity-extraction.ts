@@ -0,0 +1,282 @@
+import {
+  entityFieldDefinitions,
+  extractionResultSchema,
+  insertEntitySchema,
+  isEntityProfile,
+  type Document,
+  type DocumentExtraction,
+  type Entity,
+  type EntityCandidate,
+  type EntityType,
+  type ExtractionResult,
+  type InsertEntity,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { chunkText } from "./chunking";
+import { extractStoryFacts } from "./openai";
+import { createEntity, updateEntity } from "./story-bible";
+import { importExtractedEvents } from "./timeline";
+import { importExtractedRelationships } from "./relationship-graph";
+
+// Chat model used for extraction; ENTITY_EXTRACTION=off stops extraction on ingest
+const EXTRACTION_MODEL = process.env.EXTRACTION_MODEL || "gpt-4o";
+
+// Long documents are sent to the model in sections of about this many tokens
+const EXTRACTION_SECTION_TOKENS = 3000;
+
+export function isExtractionEnabled(): boolean {
+  return process.env.ENTITY_EXTRACTION !== "off";
+}
+
+// Story bible profiles are rendered from entities, so there is nothing new to find in them
+export function isExtractable(document: Document): boolean {
+  return !isEntityProfile(document);
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function mergeResults(results: ExtractionResult[]): ExtractionResult {
+  return {
+    characters: results.flatMap(result => result.characters),
+    places: results.flatMap(result => result.places),
+    dates: results.flatMap(result => result.dates),
+    relationships: results.flatMap(result => result.relationships),
+    events: results.flatMap(result => result.events),
+  };
+}
+
+interface ProposedEntity {
+  type: EntityType;
+  name: string;
+  aliases: string[];
+  summary: string | null;
+  fields: Record<string, string>;
+  evidence: string | null;
+}
+
+// Collapse repeat mentions (from different sections, or under an alias) into one
+// proposal per name, keeping only the profile fields the story bible defines
+function collectProposals(type: EntityType, found: ExtractionResult["characters"]): ProposedEntity[] {
+  const known = new Set(entityFieldDefinitions[type].map(field => field.key));
+  const proposals: ProposedEntity[] = [];
+
+  for (const item of found) {
+    const names = [item.name, ...item.aliases].map(normalizeName);
+    let proposal = proposals.find(existing =>
+      [existing.name, ...existing.aliases].some(name => names.includes(normalizeName(name)))
+    );
+    if (!proposal) {
+      proposal = { type, name: item.name, aliases: [], summary: null, fields: {}, evidence: null };
+      proposals.push(proposal);
+    }
+
+    for (const alias of [item.name, ...item.aliases]) {
+      const taken = [proposal.name, ...proposal.aliases].map(normalizeName);
+      if (!taken.includes(normalizeName(alias))) proposal.aliases.push(alias);
+    }
+    proposal.summary = proposal.summary || item.summary || null;
+    proposal.evidence = proposal.evidence || item.evidence || null;
+    for (const [key, value] of Object.entries(item.fields)) {
+      if (known.has(key) && value.trim() && !proposal.fields[key]) proposal.fields[key] = value.trim();
+    }
+  }
+
+  return proposals;
+}
+
+function findMatchingEntity(entities: Entity[], proposal: ProposedEntity): Entity | undefined {
+  const names = [proposal.name, ...proposal.aliases].map(normalizeName);
+  return entities.find(entity =>
+    entity.type === proposal.type &&
+    [entity.name, ...entity.aliases].some(name => names.includes(normalizeName(name)))
+  );
+}
+
+// What an entity looks like with a candidate merged in. Existing values win: the
+// candidate only adds new aliases, fills empty fields and appends prose the entity lacks.
+export function mergeIntoEntity(entity: Entity, candidate: Pick<EntityCandidate, "name" | "aliases" | "summary" | "fields">): InsertEntity {
+  const aliases = [...entity.aliases];
+  const taken = new Set([entity.name, ...entity.aliases].map(normalizeName));
+  for (const name of [candidate.name, ...candidate.aliases]) {
+    if (!taken.has(normalizeName(name))) {
+      aliases.push(name);
+      taken.add(normalizeName(name));
+    }
+  }
+
+  const fields = { ...entity.fields };
+  for (const field of entityFieldDefinitions[entity.type as EntityType] ?? []) {
+    const value = candidate.fields[field.key]?.trim();
+    if (!value) continue;
+    if (!fields[field.key]?.trim()) {
+      fields[field.key] = value;
+    } else if (field.multiline && !fields[field.key].includes(value)) {
+      fields[field.key] = `${fields[field.key].trim()}\n\n${value}`;
+    }
+  }
+
+  return {
+    type: entity.type as EntityType,
+    name: entity.name,
+    aliases,
+    summary: entity.summary?.trim() ? entity.summary : candidate.summary,
+    fields,
+  };
+}
+
+// A candidate that matches an existing entity is only worth reviewing if merging it would change something
+function addsToEntity(entity: Entity, proposal: ProposedEntity): boolean {
+  const unchanged = mergeIntoEntity(entity, { name: entity.name, aliases: [], summary: null, fields: {} });
+  return JSON.stringify(mergeIntoEntity(entity, proposal)) !== JSON.stringify(unchanged);
+}
+
+async function proposeCandidates(extraction: DocumentExtraction, result: ExtractionResult): Promise<EntityCandidate[]> {
+  const entities = await storage.getEntities(extraction.projectId);
+  // Names the writer already dismissed for this document are not proposed again
+  const dismissed = new Set((await storage.getEntityCandidates(extraction.projectId))
+    .filter(candidate => candidate.sourceDocumentId === extraction.sourceDocumentId && candidate.status === "dismissed")
+    .map(candidate => `${candidate.type}:${normalizeName(candidate.name)}`));
+  const proposals = [
+    ...collectProposals("character", result.characters),
+    ...collectProposals("location", result.places),
+  ];
+
+  const candidates: EntityCandidate[] = [];
+  for (const proposal of proposals) {
+    if (dismissed.has(`${proposal.type}:${normalizeName(proposal.name)}`)) continue;
+    const match = findMatchingEntity(entities, proposal);
+    if (match && !addsToEntity(match, proposal)) continue;
+
+    candidates.push(await storage.createEntityCandidate(extraction.projectId, {
+      ...proposal,
+      extractionId: extraction.id,
+      sourceDocumentId: extraction.sourceDocumentId,
+      entityId: match?.id ?? null,
+    }));
+  }
+  return candidates;
+}
+
+// Ask the chat model for the story facts in the document's current version, section by
+// section, and store them against the document. Characters and places become candidates
+// for review, replacing any still-pending candidates from earlier versions; relationships
+// between known entities are added to the story bible and events to the timeline, each
+// replacing what earlier versions added. A failed run is recorded with its error rather
+// than thrown.
+export async function extractDocument(document: Document): Promise<DocumentExtraction> {
+  const extraction = await storage.createDocumentExtraction(document.projectId, {
+    sourceDocumentId: document.id,
+    documentVersion: document.version,
+    model: EXTRACTION_MODEL,
+  });
+
+  try {
+    const sections = chunkText(document.content, { strategy: "paragraph", maxTokens: EXTRACTION_SECTION_TOKENS, overlap: 0 });
+    const results: ExtractionResult[] = [];
+    for (const section of sections) {
+      const parsed = extractionResultSchema.safeParse(await extractStoryFacts(section.content, EXTRACTION_MODEL));
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`Extraction did not match the expected format at ${issue.path.join(".") || "the top level"}: ${issue.message}`);
+      }
+      results.push(parsed.data);
+    }
+
+    const result = mergeResults(results);
+    await storage.deletePendingEntityCandidates(document.id);
+    await proposeCandidates(extraction, result);
+    await importExtractedRelationships(document.projectId, document.id, result);
+    await importExtractedEvents(document.projectId, document.id, result);
+    return (await storage.updateDocumentExtraction(extraction.id, { status: "completed", result, completedAt: new Date() }))!;
+  } catch (error) {
+    console.error(`Entity extraction failed for document ${document.id}:`, error);
+    return (await storage.updateDocumentExtraction(extraction.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      completedAt: new Date(),
+    }))!;
+  }
+}
+
+// Extraction takes a chat call per section, so ingest responds without waiting for it
+export function queueExtraction(document: Document): void {
+  if (!isExtractionEnabled() || !isExtractable(document)) return;
+
+  extractDocument(document).catch(error => {
+    console.error(`Failed to queue entity extraction for document ${document.id}:`, error);
+  });
+}
+
+// Look up a candidate that is in the project and still waiting for review
+async function findPendingCandidate(projectId: string, id: string): Promise<EntityCandidate | undefined> {
+  const candidate = await storage.getEntityCandidateById(id);
+  if (!candidate || candidate.projectId !== projectId) return undefined;
+  if (candidate.status !== "pending") {
+    throw new Error(`This candidate has already been ${candidate.status}`);
+  }
+  return candidate;
+}
+
+async function resolveCandidate(id: string, status: EntityCandidate["status"], entityId: string | null): Promise<EntityCandidate> {
+  return (await storage.updateEntityCandidate(id, { status, entityId, resolvedAt: new Date() }))!;
+}
+
+// Relationships naming the candidate were skipped while it was pending; now that it is
+// in the story bible they can be added from its document's latest extraction
+async function linkCandidateRelationships(candidate: EntityCandidate): Promise<void> {
+  const [latest] = await storage.getDocumentExtractions(candidate.sourceDocumentId);
+  if (latest?.status === "completed" && latest.result) {
+    await importExtractedRelationships(candidate.projectId, candidate.sourceDocumentId, latest.result);
+  }
+}
+
+// Add a candidate to the story bible as a new entity
+export async function acceptCandidate(
+  projectId: string,
+  id: string,
+): Promise<{ candidate: EntityCandidate; entity: Entity } | undefined> {
+  const candidate = await findPendingCandidate(projectId, id);
+  if (!candidate) return undefined;
+
+  const entity = await createEntity(projectId, insertEntitySchema.parse({
+    type: candidate.type,
+    name: candidate.name,
+    aliases: candidate.aliases,
+    summary: candidate.summary,
+    fields: candidate.fields,
+  }));
+  const resolved = await resolveCandidate(id, "accepted", entity.id);
+  await linkCandidateRelationships(resolved);
+  return { candidate: resolved, entity: (await storage.getEntityById(entity.id))! };
+}
+
+// Fold a candidate into an existing entity of the same type (see mergeIntoEntity)
+export async function mergeCandidate(
+  projectId: string,
+  id: string,
+  entityId: string,
+): Promise<{ candidate: EntityCandidate; entity: Entity } | undefined> {
+  const candidate = await findPendingCandidate(projectId, id);
+  if (!candidate) return undefined;
+
+  const target = await storage.getEntityById(entityId);
+  if (!target || target.projectId !== projectId) {
+    throw new Error(`Entity ${entityId} not found`);
+  }
+  if (target.type !== candidate.type) {
+    throw new Error(`Cannot merge a ${candidate.type} into a ${target.type}`);
+  }
+
+  const entity = (await updateEntity(projectId, entityId, mergeIntoEntity(target, candidate)))!;
+  const resolved = await resolveCandidate(id, "merged", entity.id);
+  await linkCandidateRelationships(resolved);
+  return { candidate: resolved, entity: (await storage.getEntityById(entity.id))! };
+}
+
+export async function dismissCandidate(projectId: string, id: string): Promise<EntityCandidate | undefined> {
+  const candidate = await findPendingCandidate(projectId, id);
+  if (!candidate) return undefined;
+  return resolveCandidate(id, "dismissed", candidate.entityId);
+}
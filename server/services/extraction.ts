@@ -0,0 +1,178 @@
+import path from "path";
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+
+export type ManuscriptFormat = "txt" | "md" | "docx" | "pdf" | "epub";
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+export interface ExtractedText {
+  text: string;
+  format: ManuscriptFormat;
+  title?: string;
+}
+
+export const SUPPORTED_EXTENSIONS = [".txt", ".md", ".markdown", ".docx", ".pdf", ".epub"];
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Convert (X)HTML to plain text, keeping headings as Markdown so the
+// paragraph chunker can still split on them
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, inner: string) =>
+      `\n\n${"#".repeat(Number(level))} ${inner.replace(/<[^>]+>/g, "").trim()}\n\n`)
+    .replace(/<li[^>]*>/gi, "\n• ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|blockquote|ul|ol|table|tr)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function extractDocx(buffer: Buffer): Promise<string> {
+  const result = await mammoth.convertToHtml({ buffer });
+  return htmlToText(result.value);
+}
+
+async function extractPdf(buffer: Buffer): Promise<string> {
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const result = await parser.getText();
+    return result.text.trim();
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// EPUB is a zip of XHTML files; the package document's spine gives the reading order
+async function extractEpub(buffer: Buffer): Promise<{ text: string; title?: string }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = await zip.file("META-INF/container.xml")?.async("string");
+  const packagePath = container?.match(/full-path="([^"]+)"/)?.[1];
+  if (!packagePath) {
+    throw new Error("Invalid EPUB: missing package document");
+  }
+
+  const packageXml = await zip.file(packagePath)?.async("string");
+  if (!packageXml) {
+    throw new Error(`Invalid EPUB: ${packagePath} not found`);
+  }
+
+  const baseDir = path.posix.dirname(packagePath);
+  const manifest = new Map<string, string>();
+  for (const item of Array.from(packageXml.matchAll(/<item\b[^>]*>/g))) {
+    const id = item[0].match(/\bid="([^"]+)"/)?.[1];
+    const href = item[0].match(/\bhref="([^"]+)"/)?.[1];
+    if (id && href) manifest.set(id, href);
+  }
+
+  const sections: string[] = [];
+  for (const itemref of Array.from(packageXml.matchAll(/<itemref\b[^>]*idref="([^"]+)"/g))) {
+    const href = manifest.get(itemref[1]);
+    if (!href) continue;
+
+    const filePath = path.posix.normalize(path.posix.join(baseDir, decodeURIComponent(href)));
+    const html = await zip.file(filePath)?.async("string");
+    if (html) {
+      const text = htmlToText(html);
+      if (text) sections.push(text);
+    }
+  }
+
+  const title = packageXml.match(/<dc:title[^>]*>([\s\S]*?)<\/dc:title>/)?.[1];
+  return { text: sections.join("\n\n"), title: title ? decodeEntities(title.trim()) : undefined };
+}
+
+export function detectFormat(file: Pick<UploadedFile, "originalname" | "mimetype">): ManuscriptFormat | undefined {
+  const extension = path.extname(file.originalname).toLowerCase();
+  switch (extension) {
+    case ".txt":
+      return "txt";
+    case ".md":
+    case ".markdown":
+      return "md";
+    case ".docx":
+      return "docx";
+    case ".pdf":
+      return "pdf";
+    case ".epub":
+      return "epub";
+  }
+
+  if (file.mimetype === "text/plain") return "txt";
+  if (file.mimetype === "text/markdown") return "md";
+  if (file.mimetype === "application/pdf") return "pdf";
+  if (file.mimetype === "application/epub+zip") return "epub";
+  if (file.mimetype === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") return "docx";
+  return undefined;
+}
+
+export async function extractText(file: UploadedFile): Promise<ExtractedText> {
+  const format = detectFormat(file);
+
+  switch (format) {
+    case "txt":
+    case "md":
+      return { text: file.buffer.toString("utf-8").replace(/^\uFEFF/, "").trim(), format };
+    case "docx":
+      return { text: await extractDocx(file.buffer), format };
+    case "pdf":
+      return { text: await extractPdf(file.buffer), format };
+    case "epub":
+      return { ...(await extractEpub(file.buffer)), format };
+    default:
+      throw new Error(`Unsupported file type: ${file.originalname}. Supported types: ${SUPPORTED_EXTENSIONS.join(", ")}`);
+  }
+}
+
+// "Evie Cullum - Character Sketch.docx" -> "evie-cullum-character-sketch"
+export function deriveDocumentId(fileName: string): string {
+  const base = path.basename(fileName, path.extname(fileName));
+  const slug = base
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || `upload-${Date.now()}`;
+}
+
+export function deriveCategory(fileName: string, text: string): string {
+  const haystack = `${fileName}\n${text.slice(0, 500)}`.toLowerCase();
+  if (/character|sketch|profile|backstory/.test(haystack)) return "characters";
+  if (/location|setting|world|map\b/.test(haystack)) return "locations";
+  if (/chapter|scene|draft|manuscript/.test(haystack)) return "manuscript";
+  return "notes";
+}
@@ -0,0 +1,84 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { MetadataFilter } from "@shared/schema";
+import { createTestDatabase, type TestDatabase } from "../test-database";
+import { PineconeService, type VectorStore } from "./pinecone";
+import { PgVectorService } from "./pgvector";
+
+// Every vector is the same, so a query returns exactly the ids its filter lets through
+const EMBEDDING = Array.from({ length: 1536 }, (_, i) => (i === 0 ? 1 : 0));
+
+const METADATA: Record<string, Record<string, unknown>> = {
+  "chunk-a": { category: "chapters", chapter: 1, tags: ["night", "storm"], date: "2024-03-01", pov: "Evie", draft: true },
+  "chunk-b": { category: "chapters", chapter: 2, tags: ["dawn"], date: "2024-05-10", pov: null, draft: false },
+  "chunk-c": { category: "notes", chapter: 10, date: "2023-12-31" },
+  "chunk-d": { category: "characters", chapter: "3", tags: [] },
+};
+
+// Both backends must agree on every case
+const CASES: { name: string; filter: MetadataFilter; expected: string[] }[] = [
+  { name: "$ne matches a missing or null field", filter: { pov: { $ne: "Evie" } }, expected: ["chunk-b", "chunk-c", "chunk-d"] },
+  { name: "$nin matches a missing or null field", filter: { pov: { $nin: ["Evie", "Sam"] } }, expected: ["chunk-b", "chunk-c", "chunk-d"] },
+  { name: "$nin on a present field", filter: { category: { $nin: ["chapters"] } }, expected: ["chunk-c", "chunk-d"] },
+  { name: "equality matches an array holding the value", filter: { tags: "night" }, expected: ["chunk-a"] },
+  { name: "$in matches an array holding any value", filter: { tags: { $in: ["dawn", "storm"] } }, expected: ["chunk-a", "chunk-b"] },
+  { name: "$ne rejects an array holding the value", filter: { tags: { $ne: "night" } }, expected: ["chunk-b", "chunk-c", "chunk-d"] },
+  { name: "$nin rejects an array holding any value", filter: { tags: { $nin: ["night", "dawn"] } }, expected: ["chunk-c", "chunk-d"] },
+  { name: "equality on booleans", filter: { draft: false }, expected: ["chunk-b"] },
+  { name: "$exists treats null as missing", filter: { pov: { $exists: true } }, expected: ["chunk-a"] },
+  { name: "$exists: false matches null and missing", filter: { pov: { $exists: false } }, expected: ["chunk-b", "chunk-c", "chunk-d"] },
+  { name: "$exists counts an empty array as present", filter: { tags: { $exists: true } }, expected: ["chunk-a", "chunk-b", "chunk-d"] },
+  { name: "string ranges compare ISO dates", filter: { date: { $gte: "2024-01-01" } }, expected: ["chunk-a", "chunk-b"] },
+  { name: "string ranges skip missing fields", filter: { date: { $lt: "2024-04-01" } }, expected: ["chunk-a", "chunk-c"] },
+  { name: "number ranges skip strings", filter: { chapter: { $gt: 1, $lte: 10 } }, expected: ["chunk-b", "chunk-c"] },
+  { name: "string ranges skip numbers", filter: { chapter: { $lt: "5" } }, expected: ["chunk-d"] },
+  {
+    name: "$and nested in $or",
+    filter: { $or: [{ category: "notes" }, { $and: [{ category: "chapters" }, { chapter: { $gt: 1 } }] }] },
+    expected: ["chunk-b", "chunk-c"],
+  },
+  {
+    name: "$or nested in $and, beside a field",
+    filter: { $and: [{ $or: [{ pov: "Evie" }, { tags: "dawn" }] }], date: { $gte: "2024-04-01" } },
+    expected: ["chunk-b"],
+  },
+  { name: "an empty $and matches everything", filter: { $and: [] }, expected: ["chunk-a", "chunk-b", "chunk-c", "chunk-d"] },
+  { name: "an empty $or matches nothing", filter: { $or: [] }, expected: [] },
+];
+
+const BACKENDS: { name: string; create: () => Promise<{ store: VectorStore; close: () => Promise<void> }> }[] = [
+  {
+    name: "PineconeService",
+    create: async () => ({ store: new PineconeService({ index: "flat" }), close: async () => {} }),
+  },
+  {
+    name: "PgVectorService",
+    create: async () => {
+      const database: TestDatabase = await createTestDatabase();
+      return { store: new PgVectorService(database.db, "filters"), close: () => database.close() };
+    },
+  },
+];
+
+for (const backend of BACKENDS) {
+  describe(`metadata filters in ${backend.name}`, () => {
+    let store: VectorStore;
+    let close: () => Promise<void>;
+
+    before(async () => {
+      ({ store, close } = await backend.create());
+      for (const [id, metadata] of Object.entries(METADATA)) {
+        await store.upsert(id, EMBEDDING, metadata);
+      }
+    });
+
+    after(() => close());
+
+    for (const { name, filter, expected } of CASES) {
+      it(name, async () => {
+        const results = await store.query(EMBEDDING, 10, 0, filter);
+        assert.deepEqual(results.map(result => result.id).sort(), expected);
+      });
+    }
+  });
+}
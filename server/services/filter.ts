@@ -0,0 +1,66 @@
+import type { FilterCondition, FilterValue, MetadataFilter } from "@shared/schema";
+
+// Array-valued metadata matches when any element matches, as in Pinecone
+function equals(actual: unknown, expected: FilterValue): boolean {
+  return Array.isArray(actual) ? actual.some(item => item === expected) : actual === expected;
+}
+
+// Range operators compare numbers with numbers and strings (e.g. ISO dates) with strings
+function compare(actual: unknown, expected: number | string): number | null {
+  if (typeof actual !== typeof expected || (typeof actual !== "number" && typeof actual !== "string")) {
+    return null;
+  }
+  return actual < expected ? -1 : actual > expected ? 1 : 0;
+}
+
+function matchesCondition(actual: unknown, condition: FilterCondition): boolean {
+  if (typeof condition !== "object") {
+    return equals(actual, condition);
+  }
+
+  for (const [operator, expected] of Object.entries(condition)) {
+    if (expected === undefined) continue;
+
+    let matched: boolean;
+    switch (operator) {
+      case "$eq":
+        matched = equals(actual, expected as FilterValue);
+        break;
+      case "$ne":
+        matched = !equals(actual, expected as FilterValue);
+        break;
+      case "$in":
+        matched = (expected as FilterValue[]).some(value => equals(actual, value));
+        break;
+      case "$nin":
+        matched = !(expected as FilterValue[]).some(value => equals(actual, value));
+        break;
+      case "$exists":
+        matched = (actual !== undefined && actual !== null) === expected;
+        break;
+      default: {
+        const order = compare(actual, expected as number | string);
+        matched = order !== null && (
+          operator === "$gt" ? order > 0 :
+          operator === "$gte" ? order >= 0 :
+          operator === "$lt" ? order < 0 :
+          order <= 0
+        );
+      }
+    }
+
+    if (!matched) return false;
+  }
+
+  return true;
+}
+
+// Evaluate a metadata filter against one vector's metadata; sibling keys are ANDed
+export function matchesFilter(metadata: Record<string, any> | undefined, filter: MetadataFilter): boolean {
+  return Object.entries(filter).every(([key, value]) => {
+    if (value === undefined) return true;
+    if (key === "$and") return (value as MetadataFilter[]).every(clause => matchesFilter(metadata, clause));
+    if (key === "$or") return (value as MetadataFilter[]).some(clause => matchesFilter(metadata, clause));
+    return matchesCondition(metadata?.[key], value as FilterCondition);
+  });
+}
@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HnswIndex } from "./hnsw";
+
+const RECALL_TARGET = 0.95;
+
+// Mulberry32: a small seeded generator, so every run builds the same vectors and graph
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Text embeddings cluster by topic, so sample around a set of centroids rather than uniformly
+function clusteredVectors(random: () => number, count: number, dimensions: number): number[][] {
+  const randomVector = () => Array.from({ length: dimensions }, () => random() * 2 - 1);
+  const centroids = Array.from({ length: 20 }, randomVector);
+  return Array.from({ length: count }, () => {
+    const centroid = centroids[Math.floor(random() * centroids.length)];
+    return centroid.map(value => value + (random() * 2 - 1) * 0.5);
+  });
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB) || 1);
+}
+
+// Share of the true k nearest neighbours, by brute force, that the index returns
+function recallAtK(index: HnswIndex, vectors: Map<string, number[]>, queries: number[][], k: number): number {
+  let hits = 0;
+  for (const query of queries) {
+    const expected = Array.from(vectors.entries())
+      .map(([id, values]) => ({ id, score: cosineSimilarity(query, values) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+    const actual = new Set(index.search(query, k).map(result => result.id));
+    hits += expected.filter(result => actual.has(result.id)).length;
+  }
+  return hits / (queries.length * k);
+}
+
+function buildIndex(seed: number, count: number) {
+  const random = seededRandom(seed);
+  const index = new HnswIndex({ M: 16, efConstruction: 100, efSearch: 50, random });
+  const vectors = new Map<string, number[]>();
+  for (const [i, values] of Array.from(clusteredVectors(random, count, 32).entries())) {
+    vectors.set(`vec_${i}`, values);
+    index.insert(`vec_${i}`, values);
+  }
+  return { index, vectors, queries: clusteredVectors(random, 50, 32) };
+}
+
+describe("HnswIndex", () => {
+  it("meets the recall@10 target against brute force", () => {
+    const { index, vectors, queries } = buildIndex(42, 1000);
+    const recall = recallAtK(index, vectors, queries, 10);
+    assert.ok(recall >= RECALL_TARGET, `recall@10 ${recall.toFixed(4)} is below ${RECALL_TARGET}`);
+  });
+
+  it("keeps recall after removing and re-inserting vectors", () => {
+    const { index, vectors, queries } = buildIndex(7, 1000);
+    const random = seededRandom(99);
+
+    // Remove a third of the vectors, then move another third by re-inserting under the same id
+    for (let i = 0; i < 1000; i += 3) {
+      index.remove(`vec_${i}`);
+      vectors.delete(`vec_${i}`);
+    }
+    for (let i = 1; i < 1000; i += 3) {
+      const values = vectors.get(`vec_${i}`)!.map(value => value + (random() * 2 - 1) * 0.1);
+      vectors.set(`vec_${i}`, values);
+      index.insert(`vec_${i}`, values);
+    }
+
+    assert.equal(index.size, vectors.size);
+    const recall = recallAtK(index, vectors, queries, 10);
+    assert.ok(recall >= RECALL_TARGET, `recall@10 ${recall.toFixed(4)} is below ${RECALL_TARGET}`);
+  });
+
+  it("never returns removed vectors", () => {
+    const { index, vectors, queries } = buildIndex(3, 200);
+    const removed = Array.from(vectors.keys()).slice(0, 100);
+    for (const id of removed) {
+      assert.equal(index.remove(id), true);
+    }
+
+    assert.equal(index.remove(removed[0]), false);
+    assert.equal(index.has(removed[0]), false);
+    for (const query of queries) {
+      const results = index.search(query, 100);
+      assert.equal(results.length, 100);
+      assert.ok(results.every(result => !removed.includes(result.id)));
+    }
+  });
+
+  it("empties and accepts new dimensions once every vector is removed", () => {
+    const index = new HnswIndex();
+    index.insert("a", [1, 0]);
+    index.insert("b", [0, 1]);
+    index.remove("a");
+    index.remove("b");
+
+    assert.deepEqual(index.search([1, 0], 1), []);
+    index.insert("c", [1, 0, 0]);
+    assert.deepEqual(index.search([1, 0, 0], 1), [{ id: "c", score: 1 }]);
+    assert.throws(() => index.insert("d", [1, 0]), { message: "Vectors must have the same length" });
+  });
+});
@@ -0,0 +1,292 @@
+export interface HnswOptions {
+  M?: number;
+  efConstruction?: number;
+  efSearch?: number;
+  // Source of the random node levels, in [0, 1); seeded in tests to make the graph reproducible
+  random?: () => number;
+}
+
+export interface HnswSearchResult {
+  id: string;
+  score: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: number[];
+  level: number;
+  neighbors: Set<string>[];
+  // Reverse edges: the nodes whose neighbour lists point at this one, per layer
+  referrers: Set<string>[];
+}
+
+interface Candidate {
+  id: string;
+  distance: number;
+}
+
+// Hierarchical Navigable Small World graph over cosine distance. Vectors are
+// normalised on the way in so distance is simply 1 - dot product.
+export class HnswIndex {
+  readonly M: number;
+  readonly efConstruction: number;
+  efSearch: number;
+
+  private maxConnectionsLayer0: number;
+  private levelMultiplier: number;
+  private random: () => number;
+  private nodes: Map<string, HnswNode> = new Map();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private dimensions: number | null = null;
+
+  constructor(options: HnswOptions = {}) {
+    this.M = options.M || 16;
+    this.efConstruction = options.efConstruction || 200;
+    this.efSearch = options.efSearch || 50;
+    this.maxConnectionsLayer0 = this.M * 2;
+    this.levelMultiplier = 1 / Math.log(this.M);
+    this.random = options.random || Math.random;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  insert(id: string, vector: number[]): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const normalized = this.normalize(vector);
+    const level = Math.floor(-Math.log(this.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HnswNode = {
+      id,
+      vector: normalized,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => new Set<string>()),
+      referrers: Array.from({ length: level + 1 }, () => new Set<string>()),
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entryPoints = [this.entryPoint];
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entryPoints = [this.searchLayer(normalized, entryPoints, 1, layer)[0].id];
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(normalized, entryPoints, this.efConstruction, layer);
+      const selected = this.selectNeighbors(candidates, this.M);
+
+      for (const candidate of selected) {
+        const neighbor = this.nodes.get(candidate.id)!;
+        this.link(node, neighbor, layer);
+        this.link(neighbor, node, layer);
+        this.pruneConnections(neighbor, layer);
+      }
+
+      entryPoints = candidates.map(candidate => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+    }
+  }
+
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+
+    this.nodes.delete(id);
+
+    // Edges are directed, so the reverse index finds every node pointing at the removed
+    // one. Drop those edges and reconnect each referrer through its former neighbours.
+    for (let layer = 0; layer <= node.level; layer++) {
+      const formerNeighbors = Array.from(node.neighbors[layer]);
+      for (const neighborId of formerNeighbors) {
+        this.unlink(node, neighborId, layer);
+      }
+
+      for (const referrerId of Array.from(node.referrers[layer])) {
+        const other = this.nodes.get(referrerId)!;
+        this.unlink(other, id, layer);
+
+        for (const candidateId of formerNeighbors) {
+          const candidate = this.nodes.get(candidateId);
+          if (candidate && candidateId !== other.id) {
+            this.link(other, candidate, layer);
+          }
+        }
+        this.pruneConnections(other, layer);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const other of Array.from(this.nodes.values())) {
+        if (other.level > this.maxLevel) {
+          this.entryPoint = other.id;
+          this.maxLevel = other.level;
+        }
+      }
+    }
+
+    if (this.nodes.size === 0) {
+      this.dimensions = null;
+    }
+
+    return true;
+  }
+
+  search(vector: number[], k: number, ef: number = this.efSearch): HnswSearchResult[] {
+    if (this.entryPoint === null || k <= 0) return [];
+
+    const query = this.normalize(vector);
+    let entryPoints = [this.entryPoint];
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entryPoints = [this.searchLayer(query, entryPoints, 1, layer)[0].id];
+    }
+
+    return this.searchLayer(query, entryPoints, Math.max(ef, k), 0)
+      .slice(0, k)
+      .map(candidate => ({ id: candidate.id, score: 1 - candidate.distance }));
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+    this.dimensions = null;
+  }
+
+  private searchLayer(query: number[], entryPoints: string[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<string>(entryPoints);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const id of entryPoints) {
+      const candidate = { id, distance: this.distance(query, this.nodes.get(id)!.vector) };
+      this.insertSorted(candidates, candidate);
+      this.insertSorted(results, candidate);
+    }
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!;
+      const furthest = results[results.length - 1];
+      if (results.length >= ef && closest.distance > furthest.distance) break;
+
+      const node = this.nodes.get(closest.id)!;
+      for (const neighborId of Array.from(node.neighbors[layer] || [])) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const distance = this.distance(query, this.nodes.get(neighborId)!.vector);
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          const candidate = { id: neighborId, distance };
+          this.insertSorted(candidates, candidate);
+          this.insertSorted(results, candidate);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private pruneConnections(node: HnswNode, layer: number): void {
+    const maxConnections = layer === 0 ? this.maxConnectionsLayer0 : this.M;
+    if (node.neighbors[layer].size <= maxConnections) return;
+
+    const candidates = Array.from(node.neighbors[layer])
+      .map(id => ({ id, distance: this.distance(node.vector, this.nodes.get(id)!.vector) }))
+      .sort((a, b) => a.distance - b.distance);
+    const kept = new Set(this.selectNeighbors(candidates, maxConnections).map(candidate => candidate.id));
+    for (const id of Array.from(node.neighbors[layer])) {
+      if (!kept.has(id)) this.unlink(node, id, layer);
+    }
+  }
+
+  private link(node: HnswNode, neighbor: HnswNode, layer: number): void {
+    node.neighbors[layer].add(neighbor.id);
+    neighbor.referrers[layer].add(node.id);
+  }
+
+  // The neighbour may already be gone from the graph when its own removal is unlinking it
+  private unlink(node: HnswNode, neighborId: string, layer: number): void {
+    node.neighbors[layer].delete(neighborId);
+    this.nodes.get(neighborId)?.referrers[layer].delete(node.id);
+  }
+
+  // Neighbour selection heuristic from the HNSW paper: prefer candidates that are closer
+  // to the base node than to any neighbour already chosen, which keeps links spread across
+  // clusters instead of all pointing into the nearest one. Skipped candidates fill any gap.
+  private selectNeighbors(candidates: Candidate[], maxConnections: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= maxConnections) break;
+
+      const vector = this.nodes.get(candidate.id)!.vector;
+      const diverse = selected.every(
+        chosen => candidate.distance < this.distance(vector, this.nodes.get(chosen.id)!.vector),
+      );
+      if (diverse) selected.push(candidate);
+      else skipped.push(candidate);
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= maxConnections) break;
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+
+  private insertSorted(list: Candidate[], candidate: Candidate): void {
+    let low = 0;
+    let high = list.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (list[mid].distance < candidate.distance) low = mid + 1;
+      else high = mid;
+    }
+    list.splice(low, 0, candidate);
+  }
+
+  private normalize(vector: number[]): number[] {
+    if (this.dimensions === null) {
+      this.dimensions = vector.length;
+    } else if (vector.length !== this.dimensions) {
+      throw new Error("Vectors must have the same length");
+    }
+
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+
+    return norm === 0 ? vector.map(() => 0) : vector.map(value => value / norm);
+  }
+
+  private distance(a: number[], b: number[]): number {
+    let dotProduct = 0;
+    for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i];
+    }
+    return 1 - dotProduct;
+  }
+}
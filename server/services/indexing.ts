@@ -0,0 +1,327 @@
+import type { ChunkingOptions, Document, DocumentChunk, IndexSettings, InsertDocument, InsertDocumentVersion } from "@shared/schema";
+import { storage } from "../storage";
+import { chunkText } from "./chunking";
+import { generateEmbeddings, DEFAULT_EMBEDDING_MODEL, EMBEDDING_MODELS, type EmbeddingResponse } from "./openai";
+import { pineconeService } from "./pinecone";
+
+export interface IndexedDocument {
+  chunks: DocumentChunk[];
+  dimensions: number;
+  model: string;
+}
+
+export interface ReindexResult {
+  total: number;
+  chunks: number;
+  reused: number;
+  reembedded: number;
+  failed: number;
+}
+
+export async function getIndexSettings(projectId: string): Promise<IndexSettings> {
+  return (await storage.getIndexSettings(projectId)) ?? {
+    id: projectId,
+    embeddingModel: DEFAULT_EMBEDDING_MODEL,
+    dimensions: EMBEDDING_MODELS[DEFAULT_EMBEDDING_MODEL],
+    updatedAt: null,
+  };
+}
+
+// A project's index holds vectors from exactly one model. Callers may name the model
+// they expect; a different one is rejected rather than mixed into the index.
+export async function resolveEmbeddingModel(projectId: string, requested?: string): Promise<string> {
+  const settings = await getIndexSettings(projectId);
+  if (requested && !(requested in EMBEDDING_MODELS)) {
+    throw new Error(`Unsupported embedding model: ${requested}`);
+  }
+  if (requested && requested !== settings.embeddingModel) {
+    throw new Error(
+      `The knowledge base is indexed with ${settings.embeddingModel}; re-embed it before using ${requested}`
+    );
+  }
+  return settings.embeddingModel;
+}
+
+export function buildVectorMetadata(document: Document, chunk: DocumentChunk): Record<string, any> {
+  return {
+    content: chunk.content,
+    category: document.category,
+    documentId: document.documentId,
+    createdAt: document.createdAt?.toISOString(),
+    ...(document.metadata && typeof document.metadata === 'object' ? document.metadata as Record<string, any> : {}),
+    parentId: document.id,
+    chunkIndex: chunk.chunkIndex,
+    startOffset: chunk.startOffset,
+    endOffset: chunk.endOffset,
+  };
+}
+
+async function embedChunks(content: string, options: Partial<ChunkingOptions>, model: string) {
+  const textChunks = chunkText(content, options);
+  const embeddings = await generateEmbeddings(textChunks.map(chunk => chunk.content), model);
+  return { textChunks, embeddings, model };
+}
+
+async function storeChunks(
+  document: Document,
+  { textChunks, embeddings, model }: Awaited<ReturnType<typeof embedChunks>>,
+): Promise<IndexedDocument> {
+  const chunks = await storage.createDocumentChunks(textChunks.map((chunk, i) => ({
+    parentId: document.id,
+    chunkIndex: chunk.index,
+    content: chunk.content,
+    startOffset: chunk.startOffset,
+    endOffset: chunk.endOffset,
+    embedding: embeddings[i].embedding,
+    embeddingModel: embeddings[i].model,
+  })));
+
+  const store = pineconeService.namespace(document.projectId);
+  for (const chunk of chunks) {
+    await store.upsert(chunk.id, chunk.embedding!, buildVectorMetadata(document, chunk));
+  }
+
+  return {
+    chunks,
+    dimensions: embeddings[0]?.dimensions ?? 0,
+    model,
+  };
+}
+
+// Split a stored document into chunks, embed them and upsert one vector per chunk
+export async function indexDocument(document: Document, options: Partial<ChunkingOptions> = {}): Promise<IndexedDocument> {
+  const model = await resolveEmbeddingModel(document.projectId);
+  return storeChunks(document, await embedChunks(document.content, options, model));
+}
+
+// Record the document's current state in its version history
+async function snapshotDocument(document: Document): Promise<void> {
+  await storage.createDocumentVersion({
+    parentId: document.id,
+    version: document.version,
+    content: document.content,
+    category: document.category,
+    documentId: document.documentId,
+    metadata: document.metadata as InsertDocumentVersion["metadata"],
+  });
+}
+
+// Embed first and only then store, so a failed embedding call leaves no orphaned document behind
+export async function ingestDocument(
+  projectId: string,
+  documentData: InsertDocument,
+  options: Partial<ChunkingOptions> = {},
+  embeddingModel?: string,
+): Promise<IndexedDocument & { document: Document }> {
+  const model = await resolveEmbeddingModel(projectId, embeddingModel);
+  const embedded = await embedChunks(documentData.content, options, model);
+  const document = await storage.createDocument(projectId, documentData);
+  await snapshotDocument(document);
+  return { document, ...(await storeChunks(document, embedded)) };
+}
+
+// Apply changes to a stored document as a new version. Changed content is re-chunked
+// and re-embedded (before anything is replaced); other changes only refresh the
+// metadata on the existing vectors. Returns undefined when the document does not exist
+// in the project.
+export async function reviseDocument(
+  projectId: string,
+  id: string,
+  changes: Partial<InsertDocument>,
+  options: Partial<ChunkingOptions> = {},
+  embeddingModel?: string,
+): Promise<(IndexedDocument & { document: Document; reembedded: boolean }) | undefined> {
+  const existing = await storage.getDocumentById(id);
+  if (!existing || existing.projectId !== projectId) return undefined;
+
+  // Documents stored before versioning existed get their current state recorded first
+  if (!(await storage.getDocumentVersion(id, existing.version))) {
+    await snapshotDocument(existing);
+  }
+
+  const model = await resolveEmbeddingModel(projectId, embeddingModel);
+  const store = pineconeService.namespace(projectId);
+  const contentChanged = changes.content !== undefined && changes.content !== existing.content;
+  const embedded = contentChanged ? await embedChunks(changes.content!, options, model) : undefined;
+
+  const document = (await storage.updateDocument(id, { ...changes, version: existing.version + 1 }))!;
+  await snapshotDocument(document);
+
+  if (embedded) {
+    for (const chunk of await storage.getDocumentChunks(id)) {
+      await store.delete(chunk.id);
+    }
+    await storage.deleteDocumentChunks(id);
+    return { document, reembedded: true, ...(await storeChunks(document, embedded)) };
+  }
+
+  const chunks = await storage.getDocumentChunks(id);
+  for (const chunk of chunks) {
+    if (chunk.embedding) {
+      await store.upsert(chunk.id, chunk.embedding, buildVectorMetadata(document, chunk));
+    }
+  }
+  return { document, reembedded: false, chunks, dimensions: chunks[0]?.embedding?.length ?? 0, model };
+}
+
+// Restore an earlier version by saving its fields as a new version
+export async function rollbackDocument(
+  projectId: string,
+  id: string,
+  version: number,
+): Promise<(IndexedDocument & { document: Document; reembedded: boolean }) | undefined> {
+  const snapshot = await storage.getDocumentVersion(id, version);
+  if (!snapshot) return undefined;
+
+  return reviseDocument(projectId, id, {
+    content: snapshot.content,
+    category: snapshot.category,
+    documentId: snapshot.documentId,
+    metadata: snapshot.metadata as InsertDocument["metadata"],
+  });
+}
+
+// Delete a document together with its chunk vectors; false when it is not in the project
+export async function removeDocument(projectId: string, id: string): Promise<boolean> {
+  const document = await storage.getDocumentById(id);
+  if (!document || document.projectId !== projectId) return false;
+
+  const store = pineconeService.namespace(projectId);
+  for (const chunk of await storage.getDocumentChunks(id)) {
+    await store.delete(chunk.id);
+  }
+  return storage.deleteDocument(id);
+}
+
+// Repopulate the vector service from stored chunks, for one project or all of them.
+// Stored embeddings are reused when they were produced by the project's current
+// model; anything else is embedded again. Documents stored before chunking existed
+// are chunked on the way through.
+export async function reindexDocuments(projectId?: string): Promise<ReindexResult> {
+  const projectIds = projectId ? [projectId] : (await storage.getProjects()).map(project => project.id);
+  const result: ReindexResult = { total: 0, chunks: 0, reused: 0, reembedded: 0, failed: 0 };
+
+  for (const id of projectIds) {
+    await reindexProject(id, result);
+  }
+
+  return result;
+}
+
+async function reindexProject(projectId: string, result: ReindexResult): Promise<void> {
+  const { embeddingModel } = await getIndexSettings(projectId);
+  const store = pineconeService.namespace(projectId);
+  const documents = await storage.getDocuments(projectId);
+  result.total += documents.length;
+
+  for (const document of documents) {
+    try {
+      const chunks = await storage.getDocumentChunks(document.id);
+
+      // Blank documents chunk to nothing, so having no chunks is already their indexed state
+      if (chunks.length === 0 && !document.content.trim()) continue;
+
+      if (chunks.length === 0) {
+        const indexed = await indexDocument(document);
+        result.chunks += indexed.chunks.length;
+        result.reembedded += indexed.chunks.length;
+        continue;
+      }
+
+      const stale = chunks.filter(chunk =>
+        !chunk.embedding || chunk.embedding.length === 0 || chunk.embeddingModel !== embeddingModel
+      );
+      const embeddings = await generateEmbeddings(stale.map(chunk => chunk.content), embeddingModel);
+
+      for (const [i, chunk] of Array.from(stale.entries())) {
+        chunk.embedding = embeddings[i].embedding;
+        chunk.embeddingModel = embeddings[i].model;
+        await storage.updateChunkEmbedding(chunk.id, {
+          embedding: chunk.embedding,
+          embeddingModel: chunk.embeddingModel,
+        });
+      }
+
+      for (const chunk of chunks) {
+        await store.upsert(chunk.id, chunk.embedding!, buildVectorMetadata(document, chunk));
+      }
+
+      result.chunks += chunks.length;
+      result.reused += chunks.length - stale.length;
+      result.reembedded += stale.length;
+    } catch (error) {
+      console.error(`Failed to reindex document ${document.id}:`, error);
+      result.failed++;
+    }
+  }
+}
+
+// Switch a project's index to another embedding model. The whole corpus is embedded
+// with the new model before anything is replaced, so a failed embedding request leaves
+// the index, the stored embeddings and the settings as they were. The settings are
+// saved last: should the swap itself fail part way, the next reindex finds chunks that
+// don't match the recorded model and embeds them with it again.
+export async function reembedIndex(
+  projectId: string,
+  embeddingModel: string,
+): Promise<{ settings: IndexSettings; result: ReindexResult }> {
+  const dimensions = EMBEDDING_MODELS[embeddingModel];
+  if (!dimensions) {
+    throw new Error(`Unsupported embedding model: ${embeddingModel}`);
+  }
+
+  const documents = await storage.getDocuments(projectId);
+  const staged: Array<{ document: Document; chunks: DocumentChunk[]; embeddings: EmbeddingResponse[] }> = [];
+  const unchunked: Array<{ document: Document; embedded: Awaited<ReturnType<typeof embedChunks>> }> = [];
+
+  for (const document of documents) {
+    const chunks = await storage.getDocumentChunks(document.id);
+    if (chunks.length > 0) {
+      const embeddings = await generateEmbeddings(chunks.map(chunk => chunk.content), embeddingModel);
+      staged.push({ document, chunks, embeddings });
+    } else if (document.content.trim()) {
+      unchunked.push({ document, embedded: await embedChunks(document.content, {}, embeddingModel) });
+    }
+  }
+
+  const store = pineconeService.namespace(projectId);
+  const result: ReindexResult = { total: documents.length, chunks: 0, reused: 0, reembedded: 0, failed: 0 };
+  await store.deleteAll();
+
+  for (const { document, chunks, embeddings } of staged) {
+    for (const [i, chunk] of Array.from(chunks.entries())) {
+      chunk.embedding = embeddings[i].embedding;
+      chunk.embeddingModel = embeddings[i].model;
+      await storage.updateChunkEmbedding(chunk.id, {
+        embedding: chunk.embedding,
+        embeddingModel: chunk.embeddingModel,
+      });
+      await store.upsert(chunk.id, chunk.embedding, buildVectorMetadata(document, chunk));
+    }
+    result.chunks += chunks.length;
+    result.reembedded += chunks.length;
+  }
+
+  for (const { document, embedded } of unchunked) {
+    const indexed = await storeChunks(document, embedded);
+    result.chunks += indexed.chunks.length;
+    result.reembedded += indexed.chunks.length;
+  }
+
+  const settings = await storage.saveIndexSettings(projectId, { embeddingModel, dimensions });
+  return { settings, result };
+}
+
+// Empty a project's knowledge base except for its story bible profiles, whose vectors
+// are put back from their stored embeddings
+export async function clearKnowledgeBase(projectId: string): Promise<ReindexResult> {
+  await storage.clearDocuments(projectId);
+  await pineconeService.namespace(projectId).deleteAll();
+  return reindexDocuments(projectId);
+}
+
+// Delete a project with everything it owns, including its vector namespace
+export async function removeProject(projectId: string): Promise<boolean> {
+  await pineconeService.drop(projectId);
+  return storage.deleteProject(projectId);
+}
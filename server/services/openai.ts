@@ -1,59 +1,346 @@
 import OpenAI from "openai";
+import {
+  EMBEDDING_DIMENSIONS,
+  defaultPromptTemplate,
+  entityFieldDefinitions,
+  relationshipTypes,
+  renderPromptTemplate,
+  timelineEventKinds,
+  timelineRelations,
+  type PromptTemplateSettings,
+  type SceneBrief,
+} from "@shared/schema";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 const openai = new OpenAI({ 
   apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key" 
 });
 
+export const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+// Supported embedding models and the vector dimensions each produces. Every model has to
+// fit the pgvector column, so text-embedding-3-large is asked to shorten its native 3072.
+export const EMBEDDING_MODELS: Record<string, number> = {
+  "text-embedding-3-small": EMBEDDING_DIMENSIONS,
+  "text-embedding-3-large": EMBEDDING_DIMENSIONS,
+  "text-embedding-ada-002": EMBEDDING_DIMENSIONS,
+};
+
+// Only the text-embedding-3 models accept a `dimensions` parameter
+function dimensionsParameter(model: string): { dimensions?: number } {
+  return model.startsWith("text-embedding-3") && model in EMBEDDING_MODELS
+    ? { dimensions: EMBEDDING_MODELS[model] }
+    : {};
+}
+
 export interface EmbeddingResponse {
   embedding: number[];
   dimensions: number;
   model: string;
 }
 
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
 export interface ChatResponse {
   response: string;
   tokensUsed: number;
   model: string;
 }
 
-export async function generateEmbedding(text: string): Promise<EmbeddingResponse> {
+export async function generateEmbedding(text: string, model: string = DEFAULT_EMBEDDING_MODEL): Promise<EmbeddingResponse> {
   const response = await openai.embeddings.create({
-    model: "text-embedding-3-small",
+    model,
     input: text,
+    ...dimensionsParameter(model),
   });
 
   return {
     embedding: response.data[0].embedding,
     dimensions: response.data[0].embedding.length,
-    model: "text-embedding-3-small",
+    model,
   };
 }
 
+// Embeds many texts with as few requests as possible; results keep the input order
+export async function generateEmbeddings(texts: string[], model: string = DEFAULT_EMBEDDING_MODEL): Promise<EmbeddingResponse[]> {
+  const results: EmbeddingResponse[] = [];
+
+  for (let i = 0; i < texts.length; i += 100) {
+    const response = await openai.embeddings.create({
+      model,
+      input: texts.slice(i, i + 100),
+      ...dimensionsParameter(model),
+    });
+
+    for (const item of response.data.sort((a, b) => a.index - b.index)) {
+      results.push({
+        embedding: item.embedding,
+        dimensions: item.embedding.length,
+        model,
+      });
+    }
+  }
+
+  return results;
+}
+
+// The system message, earlier turns and user message a template renders to. Earlier turns
+// go in as separate messages unless the template already places {conversation} itself.
+function buildRagMessages(
+  query: string,
+  context: string[],
+  history: ChatTurn[],
+  template: PromptTemplateSettings,
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const prompt = renderPromptTemplate(template, { query, context, conversation: history });
+
+  return [
+    ...(prompt.system ? [{ role: "system" as const, content: prompt.system }] : []),
+    ...(prompt.usesConversation ? [] : history),
+    { role: "user", content: prompt.user },
+  ];
+}
+
 export async function generateChatResponse(
   query: string, 
   context: string[], 
-  model: string = "gpt-4o"
+  model: string = "gpt-4o",
+  history: ChatTurn[] = [],
+  template: PromptTemplateSettings = defaultPromptTemplate,
 ): Promise<ChatResponse> {
-  const contextText = context.length > 0 
-    ? `Context from knowledge base:\n${context.join('\n\n')}\n\n`
-    : '';
+  const response = await openai.chat.completions.create({
+    model,
+    messages: buildRagMessages(query, context, history, template),
+    temperature: template.temperature,
+    max_tokens: template.maxTokens,
+    ...(template.topP != null ? { top_p: template.topP } : {}),
+  });
+
+  return {
+    response: response.choices[0].message.content || "",
+    tokensUsed: response.usage?.total_tokens || 0,
+    model,
+  };
+}
+
+// Same prompt as generateChatResponse, but hands each content delta to `onToken` as it arrives
+export async function streamChatResponse(
+  query: string,
+  context: string[],
+  model: string = "gpt-4o",
+  history: ChatTurn[] = [],
+  template: PromptTemplateSettings = defaultPromptTemplate,
+  onToken: (delta: string) => void,
+  signal?: AbortSignal,
+): Promise<ChatResponse> {
+  const stream = await openai.chat.completions.create({
+    model,
+    messages: buildRagMessages(query, context, history, template),
+    temperature: template.temperature,
+    max_tokens: template.maxTokens,
+    ...(template.topP != null ? { top_p: template.topP } : {}),
+    stream: true,
+    stream_options: { include_usage: true },
+  }, { signal });
+
+  let response = "";
+  let tokensUsed = 0;
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      response += delta;
+      onToken(delta);
+    }
+    if (chunk.usage) {
+      tokensUsed = chunk.usage.total_tokens;
+    }
+  }
+
+  return {
+    response,
+    tokensUsed,
+    model,
+  };
+}
+
+// Fold prior turns into a standalone query so follow-ups like "what about her brother?"
+// still retrieve the right context when embedded on their own
+export async function rewriteQuery(query: string, history: ChatTurn[], model: string = "gpt-4o"): Promise<string> {
+  if (history.length === 0) return query;
 
-  const prompt = `${contextText}User question: ${query}
+  const transcript = history
+    .map(turn => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`)
+    .join('\n');
 
-Please provide a comprehensive answer based on the provided context. If context is provided, reference it in your response. If no relevant context is available, provide a helpful general answer.`;
+  const response = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: "Rewrite the user's follow-up question as a standalone search query that can be understood without the conversation. Resolve pronouns and references to names. Reply with the query only.",
+      },
+      { role: "user", content: `Conversation:\n${transcript}\n\nFollow-up question: ${query}` },
+    ],
+    temperature: 0,
+    max_tokens: 100,
+  });
+
+  return response.choices[0].message.content?.trim() || query;
+}
+
+// Passages are cut to this many characters before being sent for scoring
+const MAX_SCORED_PASSAGE_LENGTH = 1500;
+
+// Ask the chat model how well each passage answers the query. Returns one score in
+// [0, 1] per passage, in input order; passages the model skips score 0.
+export async function scorePassages(query: string, passages: string[], model: string = "gpt-4o"): Promise<number[]> {
+  if (passages.length === 0) return [];
+
+  const numbered = passages
+    .map((passage, i) => `[${i + 1}] ${passage.slice(0, MAX_SCORED_PASSAGE_LENGTH)}`)
+    .join('\n\n');
+
+  const response = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: 'Rate how relevant each numbered passage is to answering the question, from 0 (irrelevant) to 10 (answers it directly). Reply with JSON of the form {"scores": [n, ...]} with one score per passage, in order.',
+      },
+      { role: "user", content: `Question: ${query}\n\nPassages:\n${numbered}` },
+    ],
+    temperature: 0,
+    response_format: { type: "json_object" },
+  });
+
+  const parsed = JSON.parse(response.choices[0].message.content || "{}");
+  const scores: unknown[] = Array.isArray(parsed.scores) ? parsed.scores : [];
+  return passages.map((_, i) => {
+    const score = Number(scores[i]);
+    return isNaN(score) ? 0 : Math.min(Math.max(score / 10, 0), 1);
+  });
+}
 
+const EXTRACTION_INSTRUCTIONS = `Extract story facts from the passage of fiction or worldbuilding notes. Reply with JSON of the form:
+{
+  "characters": [{"name": "...", "aliases": ["..."], "summary": "...", "fields": {...}, "evidence": "..."}],
+  "places": [{"name": "...", "aliases": ["..."], "summary": "...", "fields": {...}, "evidence": "..."}],
+  "dates": [{"date": "...", "description": "...", "evidence": "..."}],
+  "relationships": [{"source": "...", "target": "...", "type": "...", "description": "...", "evidence": "..."}],
+  "events": [{"title": "...", "kind": "event", "description": "...", "participants": ["..."], "location": "...", "when": "...", "startYear": null, "endYear": null, "durationYears": null, "relativeTo": null, "relation": null, "offsetYears": null, "ages": {"Name": 0}, "evidence": "..."}]
+}
+Character fields may use the keys ${entityFieldDefinitions.character.map(field => field.key).join(", ")}.
+Place fields may use the keys ${entityFieldDefinitions.location.map(field => field.key).join(", ")}.
+Relationship types are one of ${relationshipTypes.join(", ")}; source and target are character or place names.
+Event kinds are one of ${timelineEventKinds.join(", ")}; a phase is a period such as "College years". Give an event a short title. Set startYear and endYear only when the passage states or clearly implies the year; otherwise place it against another event in the passage with "relativeTo" (that event's title), "relation" (one of ${timelineRelations.join(", ")}) and "offsetYears" when the gap is stated. "ages" maps participants to their age at the time, when stated.
+"evidence" is the sentence from the passage that states the fact, copied exactly. Use full names where the passage gives them.
+Only include what the passage states; leave out anything you would have to guess, and use empty lists when nothing is found.`;
+
+// Ask the chat model for the characters, places, dates, relationships and events in a
+// passage. Returns the parsed JSON unvalidated; callers check it against extractionResultSchema.
+export async function extractStoryFacts(text: string, model: string = "gpt-4o"): Promise<unknown> {
   const response = await openai.chat.completions.create({
     model,
-    messages: [{ role: "user", content: prompt }],
-    temperature: 0.7,
-    max_tokens: 1000,
+    messages: [
+      { role: "system", content: EXTRACTION_INSTRUCTIONS },
+      { role: "user", content: text },
+    ],
+    temperature: 0,
+    response_format: { type: "json_object" },
+  });
+
+  return JSON.parse(response.choices[0].message.content || "{}");
+}
+
+// Pull the checkable factual claims out of a draft passage. Returns the parsed JSON
+// unvalidated: {"claims": [{"claim": "...", "quote": "..."}]}.
+export async function extractClaims(passage: string, model: string = "gpt-4o"): Promise<unknown> {
+  const response = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: 'List the factual claims the passage makes that could be checked against established canon: physical descriptions, ages, heights, relationships, where things are, who did what and when. Skip opinions, mood and style. Reply with JSON of the form {"claims": [{"claim": "...", "quote": "..."}]}, where "claim" restates one fact as a standalone sentence using full names and "quote" copies the words of the passage that state it exactly.',
+      },
+      { role: "user", content: passage },
+    ],
+    temperature: 0,
+    response_format: { type: "json_object" },
+  });
+
+  return JSON.parse(response.choices[0].message.content || "{}");
+}
+
+// Ask the chat model which claims the canon retrieved for them contradicts. Claims and
+// their passages are numbered from 1. Returns the parsed JSON unvalidated.
+export async function findContradictions(
+  claims: Array<{ claim: string; canon: string[] }>,
+  model: string = "gpt-4o",
+): Promise<unknown> {
+  const numbered = claims
+    .map(({ claim, canon }, i) => {
+      const passages = canon
+        .map((passage, j) => `[${j + 1}] ${passage.slice(0, MAX_SCORED_PASSAGE_LENGTH)}`)
+        .join('\n');
+      return `Claim ${i + 1}: ${claim}\nCanon:\n${passages}`;
+    })
+    .join('\n\n');
+
+  const response = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: 'You check a draft against established canon. Each numbered claim from the draft comes with the canon passages retrieved for it, numbered within the claim. Report only claims a passage contradicts (a different eye colour, height, age, date, place or relationship), not claims the canon does not mention. Reply with JSON of the form {"contradictions": [{"claim": n, "passage": n, "evidence": "...", "explanation": "...", "severity": "low" | "medium" | "high"}]}, where "evidence" copies the contradicting words of the canon passage exactly. Use "high" for a direct conflict a reader would notice, "medium" for a probable conflict and "low" for a minor or arguable one.',
+      },
+      { role: "user", content: numbered },
+    ],
+    temperature: 0,
+    response_format: { type: "json_object" },
+  });
+
+  return JSON.parse(response.choices[0].message.content || "{}");
+}
+
+// Draft a scene from a brief, treating the numbered canon as constraints. Returns the
+// parsed JSON unvalidated: {"prose": "...", "facts": [{"fact": "...", "sources": [n]}]}.
+export async function writeScene(
+  brief: SceneBrief,
+  canon: string[],
+  model: string = "gpt-4o",
+): Promise<{ answer: unknown; tokensUsed: number }> {
+  const lines = [
+    brief.title ? `Title: ${brief.title}` : "",
+    `Point of view: ${brief.pov}`,
+    `Setting: ${brief.setting}`,
+    brief.participants.length > 0 ? `Participants: ${brief.participants.join(", ")}` : "",
+    `Beats, in order:\n${brief.beats.map((beat, i) => `${i + 1}. ${beat}`).join("\n")}`,
+    `Length: about ${brief.targetWords} words`,
+  ].filter(Boolean);
+  const numbered = canon.map((passage, i) => `[${i + 1}] ${passage}`).join("\n\n");
+
+  const response = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: 'You draft scenes of fiction for a writer from a scene brief and numbered canon from their story bible and manuscript. Write in the point-of-view character\'s perspective, hit every beat in order, and stay close to the requested length. The canon is fixed: never contradict the appearance, ages, relationships, history or places it describes, and do not invent major facts about named characters that it does not support. Reply with JSON of the form {"prose": "...", "facts": [{"fact": "...", "sources": [n]}]}, where "prose" is the scene alone and "facts" lists each canon fact the scene relies on, stated as a sentence, with the numbers of the canon passages that establish it.',
+      },
+      { role: "user", content: `${lines.join("\n")}\n\nCanon:\n${numbered || "(none found)"}` },
+    ],
+    temperature: 0.8,
+    // Roughly two tokens per word of prose, plus room for the fact list
+    max_tokens: Math.min(brief.targetWords * 2 + 600, 10000),
+    response_format: { type: "json_object" },
   });
 
   return {
-    response: response.choices[0].message.content || "",
+    answer: JSON.parse(response.choices[0].message.content || "{}"),
     tokensUsed: response.usage?.total_tokens || 0,
-    model,
   };
 }
 
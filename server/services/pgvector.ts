@@ -0,0 +1,139 @@
+import { and, cosineDistance, count, eq, gte, not, or, sql, type SQL } from "drizzle-orm";
+import { documentVectors, type FilterCondition, type FilterValue, type MetadataFilter } from "@shared/schema";
+import type { Database } from "../db";
+import { toSearchResult, type SimilaritySearchResult, type VectorStore } from "./pinecone";
+
+// drizzle's and()/or() return undefined for no clauses; an empty $and matches everything, an empty $in nothing
+function all(clauses: SQL[]): SQL {
+  return and(...clauses) ?? sql`true`;
+}
+
+function any(clauses: SQL[]): SQL {
+  return or(...clauses) ?? sql`false`;
+}
+
+function fieldEquals(field: SQL, value: FilterValue): SQL {
+  // jsonb containment matches a scalar equal to the value or an array holding it
+  return sql`(${field} @> ${JSON.stringify(value)}::jsonb or ${field} @> ${JSON.stringify([value])}::jsonb)`;
+}
+
+function fieldCompare(field: SQL, operator: string, value: number | string): SQL {
+  const op = sql.raw({ $gt: ">", $gte: ">=", $lt: "<", $lte: "<=" }[operator]!);
+  return typeof value === "number"
+    ? sql`(case when jsonb_typeof(${field}) = 'number' then (${field} #>> '{}')::numeric end) ${op} ${value}`
+    : sql`(case when jsonb_typeof(${field}) = 'string' then ${field} #>> '{}' end) ${op} ${value}`;
+}
+
+function conditionToSql(key: string, condition: FilterCondition): SQL {
+  const field = sql`(${documentVectors.metadata} -> ${key}::text)`;
+  if (typeof condition !== "object") {
+    return fieldEquals(field, condition);
+  }
+
+  const clauses = Object.entries(condition).filter(([, value]) => value !== undefined).map(([operator, value]) => {
+    switch (operator) {
+      case "$eq":
+        return fieldEquals(field, value as FilterValue);
+      case "$ne":
+        return not(sql`coalesce(${fieldEquals(field, value as FilterValue)}, false)`);
+      case "$in":
+        return any((value as FilterValue[]).map(item => fieldEquals(field, item)));
+      case "$nin":
+        return not(sql`coalesce(${any((value as FilterValue[]).map(item => fieldEquals(field, item)))}, false)`);
+      case "$exists":
+        return value ? sql`${field} is not null and ${field} <> 'null'::jsonb` : sql`(${field} is null or ${field} = 'null'::jsonb)`;
+      default:
+        return fieldCompare(field, operator, value as number | string);
+    }
+  });
+  return all(clauses);
+}
+
+// Translate a Pinecone-style filter into a predicate over the jsonb metadata column
+export function filterToSql(filter: MetadataFilter): SQL {
+  const clauses = Object.entries(filter).filter(([, value]) => value !== undefined).map(([key, value]) => {
+    if (key === "$and") return all((value as MetadataFilter[]).map(filterToSql));
+    if (key === "$or") return any((value as MetadataFilter[]).map(filterToSql));
+    return conditionToSql(key, value as FilterCondition);
+  });
+  return all(clauses);
+}
+
+// Vector store backed by a pgvector column with an HNSW index, so the whole
+// RAG pipeline can run on the application database. Each instance reads and
+// writes the rows of a single namespace.
+export class PgVectorService implements VectorStore {
+  constructor(private db: Database, private namespace: string = "") {}
+
+  async upsert(id: string, embedding: number[], metadata: any): Promise<void> {
+    const values = {
+      namespace: this.namespace,
+      embedding,
+      category: metadata?.category ?? null,
+      documentId: metadata?.documentId ?? null,
+      metadata: metadata ?? {},
+      updatedAt: new Date(),
+    };
+
+    await this.db
+      .insert(documentVectors)
+      .values({ id, ...values })
+      .onConflictDoUpdate({ target: documentVectors.id, set: values });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db
+      .delete(documentVectors)
+      .where(and(eq(documentVectors.namespace, this.namespace), eq(documentVectors.id, id)));
+  }
+
+  async query(
+    embedding: number[],
+    topK: number = 5,
+    threshold: number = 0.7,
+    filter?: MetadataFilter,
+  ): Promise<SimilaritySearchResult[]> {
+    const distance = cosineDistance(documentVectors.embedding, embedding);
+    const similarity = sql<number>`1 - (${distance})`;
+
+    const rows = await this.db
+      .select({
+        id: documentVectors.id,
+        metadata: documentVectors.metadata,
+        score: similarity,
+      })
+      .from(documentVectors)
+      .where(and(
+        eq(documentVectors.namespace, this.namespace),
+        gte(similarity, threshold),
+        filter ? filterToSql(filter) : undefined,
+      ))
+      // Ordering by raw distance lets PostgreSQL use the HNSW index
+      .orderBy(distance)
+      .limit(topK);
+
+    return rows.map(row => toSearchResult(row.id, Number(row.score), row.metadata as Record<string, any>));
+  }
+
+  async deleteAll(): Promise<void> {
+    await this.db.delete(documentVectors).where(eq(documentVectors.namespace, this.namespace));
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const result = await this.db.execute(sql`select 1 from pg_extension where extname = 'vector'`);
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error("pgvector connection failed:", error);
+      return false;
+    }
+  }
+
+  async getVectorCount(): Promise<number> {
+    const [result] = await this.db
+      .select({ value: count() })
+      .from(documentVectors)
+      .where(eq(documentVectors.namespace, this.namespace));
+    return result?.value ?? 0;
+  }
+}
@@ -0,0 +1,169 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { PineconeRestService } from "./pinecone-rest";
+
+interface RecordedRequest {
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: any;
+}
+
+// A stand-in for a Pinecone index host: records every request and answers from `responses`
+describe("PineconeRestService", () => {
+  let server: Server;
+  let host: string;
+  let requests: RecordedRequest[];
+  let responses: Record<string, { status?: number; body: unknown }>;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let data = "";
+      req.on("data", chunk => { data += chunk; });
+      req.on("end", () => {
+        const path = req.url || "";
+        requests.push({ path, headers: req.headers, body: data ? JSON.parse(data) : undefined });
+        const response = responses[path] || { body: {} };
+        res.writeHead(response.status || 200, { "Content-Type": "application/json" });
+        res.end(typeof response.body === "string" ? response.body : JSON.stringify(response.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    host = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests = [];
+    responses = {};
+  });
+
+  function createService(namespace?: string, batchSize?: number) {
+    return new PineconeRestService({ apiKey: "test-key", host, namespace, batchSize });
+  }
+
+  it("upserts vectors with the API key and version headers", async () => {
+    await createService("novel").upsert("chunk-1", [0.1, 0.2], { content: "It was a dark night.", chunkIndex: 0 });
+
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].path, "/vectors/upsert");
+    assert.equal(requests[0].headers["api-key"], "test-key");
+    assert.equal(requests[0].headers["x-pinecone-api-version"], "2024-07");
+    assert.deepEqual(requests[0].body, {
+      vectors: [{ id: "chunk-1", values: [0.1, 0.2], metadata: { content: "It was a dark night.", chunkIndex: 0 } }],
+      namespace: "novel",
+    });
+  });
+
+  it("splits large upserts into batches", async () => {
+    const vectors = [1, 2, 3, 4, 5].map(n => ({ id: `chunk-${n}`, values: [n] }));
+    await createService("novel", 2).upsertBatch(vectors);
+
+    assert.deepEqual(requests.map(request => request.body.vectors.map((vector: any) => vector.id)), [
+      ["chunk-1", "chunk-2"],
+      ["chunk-3", "chunk-4"],
+      ["chunk-5"],
+    ]);
+  });
+
+  it("flattens metadata to the value types Pinecone accepts", async () => {
+    await createService().upsert("chunk-1", [0.1], {
+      title: "Chapter 1",
+      chunkIndex: 3,
+      draft: false,
+      tags: ["night", 7, true],
+      source: { author: "Evie", revisions: [1, 2] },
+      summary: null,
+      notes: undefined,
+    });
+
+    assert.deepEqual(requests[0].body.vectors[0].metadata, {
+      title: "Chapter 1",
+      chunkIndex: 3,
+      draft: false,
+      tags: ["night", "7", "true"],
+      source: JSON.stringify({ author: "Evie", revisions: [1, 2] }),
+    });
+  });
+
+  it("queries with a metadata filter and drops matches under the threshold", async () => {
+    responses["/query"] = {
+      body: {
+        matches: [
+          { id: "chunk-1", score: 0.9, metadata: { content: "It was a dark night.", category: "chapters", parentId: "doc-1", documentId: "chapter-1", chunkIndex: 0, startOffset: 0, endOffset: 20 } },
+          { id: "chunk-2", score: 0.5, metadata: { content: "Dawn came.", category: "chapters" } },
+        ],
+      },
+    };
+    const filter = { category: { $in: ["chapters"] } };
+    const results = await createService("novel").query([0.1, 0.2], 3, 0.7, filter);
+
+    assert.equal(requests[0].path, "/query");
+    assert.deepEqual(requests[0].body, {
+      vector: [0.1, 0.2],
+      topK: 3,
+      namespace: "novel",
+      includeMetadata: true,
+      includeValues: false,
+      filter,
+    });
+    assert.deepEqual(results.map(result => result.id), ["chunk-1"]);
+    assert.equal(results[0].text, "It was a dark night.");
+    assert.deepEqual(results[0].source, { parentId: "doc-1", documentId: "chapter-1", chunkIndex: 0, startOffset: 0, endOffset: 20 });
+  });
+
+  it("leaves the filter out of unfiltered queries", async () => {
+    const results = await createService().query([0.1]);
+
+    assert.equal("filter" in requests[0].body, false);
+    assert.deepEqual(results, []);
+  });
+
+  it("deletes single vectors and whole namespaces", async () => {
+    const service = createService("novel");
+    await service.delete("chunk-1");
+    await service.deleteAll();
+
+    assert.deepEqual(requests.map(request => [request.path, request.body]), [
+      ["/vectors/delete", { ids: ["chunk-1"], namespace: "novel" }],
+      ["/vectors/delete", { deleteAll: true, namespace: "novel" }],
+    ]);
+  });
+
+  it("keeps each service to its own namespace", async () => {
+    responses["/describe_index_stats"] = {
+      body: { namespaces: { novel: { vectorCount: 12 }, sequel: { vectorCount: 4 } }, totalVectorCount: 16 },
+    };
+
+    await createService("sequel").upsert("chunk-1", [0.1], {});
+    await createService().delete("chunk-1");
+
+    assert.deepEqual(requests.map(request => request.body.namespace), ["sequel", ""]);
+    assert.equal(await createService("novel").getVectorCount(), 12);
+    assert.equal(await createService("sequel").getVectorCount(), 4);
+    assert.equal(await createService("empty").getVectorCount(), 0);
+  });
+
+  it("reports failed requests with the response body", async () => {
+    responses["/vectors/delete"] = { status: 400, body: "Namespace not found" };
+
+    await assert.rejects(createService("novel").delete("chunk-1"), {
+      message: "Pinecone request to /vectors/delete failed: 400 Namespace not found",
+    });
+  });
+
+  it("tests the connection through index stats", async () => {
+    assert.equal(await createService().testConnection(), true);
+
+    responses["/describe_index_stats"] = { status: 401, body: "Invalid API key" };
+    const error = console.error;
+    console.error = () => {};
+    try {
+      assert.equal(await createService().testConnection(), false);
+    } finally {
+      console.error = error;
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import type { MetadataFilter } from "@shared/schema";
+import { toSearchResult, type PineconeQueryResponse, type SimilaritySearchResult, type VectorStore } from "./pinecone";
+
+export interface PineconeRestConfig {
+  apiKey: string;
+  host: string;
+  namespace?: string;
+  apiVersion?: string;
+  batchSize?: number;
+}
+
+export interface PineconeVector {
+  id: string;
+  values: number[];
+  metadata?: Record<string, any>;
+}
+
+interface DescribeIndexStatsResponse {
+  namespaces?: Record<string, { vectorCount: number }>;
+  dimension?: number;
+  totalVectorCount?: number;
+}
+
+// Pinecone data plane client talking to the index host over its REST API
+export class PineconeRestService implements VectorStore {
+  private baseUrl: string;
+  private namespace: string;
+  private batchSize: number;
+
+  constructor(private config: PineconeRestConfig) {
+    this.baseUrl = config.host.startsWith("http") ? config.host : `https://${config.host}`;
+    this.baseUrl = this.baseUrl.replace(/\/+$/, "");
+    this.namespace = config.namespace || "";
+    this.batchSize = config.batchSize || 100;
+  }
+
+  async upsert(id: string, embedding: number[], metadata: any): Promise<void> {
+    await this.upsertBatch([{ id, values: embedding, metadata }]);
+  }
+
+  async upsertBatch(vectors: PineconeVector[]): Promise<void> {
+    // Pinecone caps request size, so large upserts are sent in batches
+    for (let i = 0; i < vectors.length; i += this.batchSize) {
+      const batch = vectors.slice(i, i + this.batchSize).map(vector => ({
+        ...vector,
+        metadata: vector.metadata ? this.sanitizeMetadata(vector.metadata) : undefined,
+      }));
+
+      await this.request("/vectors/upsert", {
+        vectors: batch,
+        namespace: this.namespace,
+      });
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request("/vectors/delete", {
+      ids: [id],
+      namespace: this.namespace,
+    });
+  }
+
+  async query(
+    embedding: number[],
+    topK: number = 5,
+    threshold: number = 0.7,
+    filter?: MetadataFilter,
+  ): Promise<SimilaritySearchResult[]> {
+    const response = await this.request<PineconeQueryResponse>("/query", {
+      vector: embedding,
+      topK,
+      namespace: this.namespace,
+      includeMetadata: true,
+      includeValues: false,
+      ...(filter ? { filter } : {}),
+    });
+
+    return (response.matches || [])
+      .filter(match => match.score >= threshold)
+      .map(match => toSearchResult(match.id, match.score, match.metadata));
+  }
+
+  async deleteAll(): Promise<void> {
+    await this.request("/vectors/delete", {
+      deleteAll: true,
+      namespace: this.namespace,
+    });
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.describeIndexStats();
+      return true;
+    } catch (error) {
+      console.error("Pinecone connection failed:", error);
+      return false;
+    }
+  }
+
+  async getVectorCount(): Promise<number> {
+    const stats = await this.describeIndexStats();
+    return stats.namespaces?.[this.namespace]?.vectorCount || 0;
+  }
+
+  private async describeIndexStats(): Promise<DescribeIndexStatsResponse> {
+    return this.request<DescribeIndexStatsResponse>("/describe_index_stats", {});
+  }
+
+  private async request<T = unknown>(path: string, body: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Api-Key": this.config.apiKey,
+        "Content-Type": "application/json",
+        "X-Pinecone-API-Version": this.config.apiVersion || "2024-07",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = (await response.text()) || response.statusText;
+      throw new Error(`Pinecone request to ${path} failed: ${response.status} ${text}`);
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : {}) as T;
+  }
+
+  // Pinecone metadata values must be strings, numbers, booleans or lists of strings
+  private sanitizeMetadata(metadata: Record<string, any>): Record<string, any> {
+    const sanitized: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(metadata)) {
+      if (value === null || value === undefined) continue;
+
+      if (Array.isArray(value)) {
+        sanitized[key] = value.map(item => String(item));
+      } else if (typeof value === "object") {
+        sanitized[key] = JSON.stringify(value);
+      } else {
+        sanitized[key] = value;
+      }
+    }
+
+    return sanitized;
+  }
+}
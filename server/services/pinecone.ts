@@ -1,38 +1,130 @@
-interface PineconeMatch {
+import { PineconeRestService } from "./pinecone-rest";
+import { PgVectorService } from "./pgvector";
+import { HnswIndex, type HnswOptions } from "./hnsw";
+import { Bm25Index, type Bm25Options } from "./bm25";
+import { matchesFilter } from "./filter";
+import type { MetadataFilter } from "@shared/schema";
+import { getDatabase } from "../db";
+
+export interface PineconeMatch {
   id: string;
   score: number;
   values?: number[];
   metadata?: Record<string, any>;
 }
 
-interface PineconeQueryResponse {
+export interface PineconeQueryResponse {
   matches: PineconeMatch[];
 }
 
+export interface ChunkSource {
+  parentId: string;
+  documentId: string;
+  chunkIndex: number;
+  startOffset: number;
+  endOffset: number;
+}
+
 export interface SimilaritySearchResult {
   id: string;
   score: number;
   text: string;
   category: string;
   timestamp: string;
+  source?: ChunkSource;
   metadata?: Record<string, any>;
+  // Set by hybrid retrieval: the scores each ranking gave this result before fusion
+  vectorScore?: number;
+  keywordScore?: number;
+  // Set when a reranker reordered the results: `score` stays the retrieval score
+  retrievalRank?: number;
+  rerankScore?: number;
+}
+
+export interface VectorStore {
+  upsert(id: string, embedding: number[], metadata: any): Promise<void>;
+  delete(id: string): Promise<void>;
+  // `filter` narrows candidates by metadata before they are ranked
+  query(embedding: number[], topK?: number, threshold?: number, filter?: MetadataFilter): Promise<SimilaritySearchResult[]>;
+  deleteAll(): Promise<void>;
+  testConnection(): Promise<boolean>;
+  getVectorCount(): Promise<number>;
+}
+
+export function toSearchResult(id: string, score: number, metadata: Record<string, any> = {}): SimilaritySearchResult {
+  return {
+    id,
+    score,
+    text: metadata.content || "",
+    category: metadata.category || "unknown",
+    timestamp: metadata.createdAt || new Date().toISOString(),
+    source: metadata.parentId !== undefined ? {
+      parentId: metadata.parentId,
+      documentId: metadata.documentId,
+      chunkIndex: Number(metadata.chunkIndex),
+      startOffset: Number(metadata.startOffset),
+      endOffset: Number(metadata.endOffset),
+    } : undefined,
+    metadata,
+  };
+}
+
+// Below this share of matching vectors a filtered query scans the matches exactly
+// instead of oversampling the HNSW graph
+const MIN_INDEXED_SELECTIVITY = 0.1;
+
+export interface InMemoryVectorOptions {
+  // "hnsw" answers queries from an approximate index, "flat" scans every vector
+  index?: "hnsw" | "flat";
+  hnsw?: HnswOptions;
 }
 
 // Mock Pinecone implementation using in-memory similarity search
-export class PineconeService {
+export class PineconeService implements VectorStore {
   private vectors: Map<string, { embedding: number[]; metadata: any }> = new Map();
+  private index: HnswIndex | null;
+
+  constructor(options: InMemoryVectorOptions = {}) {
+    this.index = options.index === "flat" ? null : new HnswIndex(options.hnsw);
+  }
 
   async upsert(id: string, embedding: number[], metadata: any): Promise<void> {
+    this.index?.insert(id, embedding);
     this.vectors.set(id, { embedding, metadata });
   }
 
-  async query(embedding: number[], topK: number = 5, threshold: number = 0.7): Promise<SimilaritySearchResult[]> {
+  async delete(id: string): Promise<void> {
+    this.index?.remove(id);
+    this.vectors.delete(id);
+  }
+
+  async query(
+    embedding: number[],
+    topK: number = 5,
+    threshold: number = 0.7,
+    filter?: MetadataFilter,
+  ): Promise<SimilaritySearchResult[]> {
     const results: { id: string; score: number; metadata: any }[] = [];
+    const matching = filter
+      ? new Set(Array.from(this.vectors.entries()).filter(([, vector]) => matchesFilter(vector.metadata, filter)).map(([id]) => id))
+      : null;
 
-    for (const [id, vector] of Array.from(this.vectors.entries())) {
-      const score = this.cosineSimilarity(embedding, vector.embedding);
-      if (score >= threshold) {
-        results.push({ id, score, metadata: vector.metadata });
+    if (this.index && (!matching || matching.size >= this.vectors.size * MIN_INDEXED_SELECTIVITY)) {
+      // Oversample in proportion to the filter's selectivity so enough matches survive
+      const k = matching ? Math.ceil(topK * this.vectors.size / Math.max(matching.size, 1)) : topK;
+      for (const match of this.index.search(embedding, k)) {
+        if ((!matching || matching.has(match.id)) && match.score >= threshold) {
+          results.push({ ...match, metadata: this.vectors.get(match.id)!.metadata });
+        }
+      }
+    } else {
+      const ids = matching ? Array.from(matching) : Array.from(this.vectors.keys());
+      for (const id of ids) {
+        const vector = this.vectors.get(id)!;
+        const score = this.cosineSimilarity(embedding, vector.embedding);
+        if (score >= threshold) {
+          results.push({ id, score, metadata: vector.metadata });
+        }
       }
     }
 
@@ -40,17 +132,11 @@ export class PineconeService {
     results.sort((a, b) => b.score - a.score);
     const topResults = results.slice(0, topK);
 
-    return topResults.map(result => ({
-      id: result.id,
-      score: result.score,
-      text: result.metadata.content || "",
-      category: result.metadata.category || "unknown",
-      timestamp: result.metadata.createdAt || new Date().toISOString(),
-      metadata: result.metadata,
-    }));
+    return topResults.map(result => toSearchResult(result.id, result.score, result.metadata));
   }
 
   async deleteAll(): Promise<void> {
+    this.index?.clear();
     this.vectors.clear();
   }
 
@@ -84,9 +170,109 @@ export class PineconeService {
     return dotProduct / (normA * normB);
   }
 
-  getVectorCount(): number {
+  async getVectorCount(): Promise<number> {
     return this.vectors.size;
   }
 }
 
-export const pineconeService = new PineconeService();
+// Wraps any vector store with a BM25 index over the same passages, kept in step on
+// every upsert and delete, so rare tokens like character names can be matched exactly
+export class KeywordIndexedStore implements VectorStore {
+  private keywords: Bm25Index;
+  private metadata: Map<string, any> = new Map();
+
+  constructor(private store: VectorStore, options: Bm25Options = {}) {
+    this.keywords = new Bm25Index(options);
+  }
+
+  async upsert(id: string, embedding: number[], metadata: any): Promise<void> {
+    await this.store.upsert(id, embedding, metadata);
+    this.keywords.add(id, metadata?.content || "");
+    this.metadata.set(id, metadata);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+    this.keywords.remove(id);
+    this.metadata.delete(id);
+  }
+
+  query(embedding: number[], topK?: number, threshold?: number, filter?: MetadataFilter): Promise<SimilaritySearchResult[]> {
+    return this.store.query(embedding, topK, threshold, filter);
+  }
+
+  async keywordQuery(text: string, topK: number = 5, filter?: MetadataFilter): Promise<SimilaritySearchResult[]> {
+    const accept = filter ? (id: string) => matchesFilter(this.metadata.get(id), filter) : undefined;
+    return this.keywords.search(text, topK, accept).map(match => {
+      const result = toSearchResult(match.id, match.score, this.metadata.get(match.id));
+      return { ...result, keywordScore: match.score };
+    });
+  }
+
+  async deleteAll(): Promise<void> {
+    await this.store.deleteAll();
+    this.keywords.clear();
+    this.metadata.clear();
+  }
+
+  testConnection(): Promise<boolean> {
+    return this.store.testConnection();
+  }
+
+  getVectorCount(): Promise<number> {
+    return this.store.getVectorCount();
+  }
+}
+
+// Every project gets its own namespace, each with its own keyword index, so a query
+// can only ever see the vectors of the project it runs in
+export class NamespacedVectorStore {
+  private namespaces: Map<string, KeywordIndexedStore> = new Map();
+
+  constructor(private createStore: (namespace: string) => VectorStore, private keywordOptions: Bm25Options = {}) {}
+
+  namespace(name: string): KeywordIndexedStore {
+    let store = this.namespaces.get(name);
+    if (!store) {
+      store = new KeywordIndexedStore(this.createStore(name), this.keywordOptions);
+      this.namespaces.set(name, store);
+    }
+    return store;
+  }
+
+  // Delete every vector in the namespace and forget it
+  async drop(name: string): Promise<void> {
+    await this.namespace(name).deleteAll();
+    this.namespaces.delete(name);
+  }
+}
+
+function createVectorStore(namespace: string): VectorStore {
+  if (process.env.VECTOR_STORE === "pinecone") {
+    if (!process.env.PINECONE_API_KEY || !process.env.PINECONE_INDEX_HOST) {
+      throw new Error("PINECONE_API_KEY and PINECONE_INDEX_HOST are required when VECTOR_STORE=pinecone");
+    }
+    // PINECONE_NAMESPACE prefixes the project namespaces when several apps share an index
+    return new PineconeRestService({
+      apiKey: process.env.PINECONE_API_KEY,
+      host: process.env.PINECONE_INDEX_HOST,
+      namespace: process.env.PINECONE_NAMESPACE ? `${process.env.PINECONE_NAMESPACE}-${namespace}` : namespace,
+    });
+  }
+  if (process.env.VECTOR_STORE === "pgvector") {
+    return new PgVectorService(getDatabase(), namespace);
+  }
+  return new PineconeService({
+    index: process.env.VECTOR_INDEX === "flat" ? "flat" : "hnsw",
+    hnsw: {
+      M: parseInt(process.env.HNSW_M || "16"),
+      efConstruction: parseInt(process.env.HNSW_EF_CONSTRUCTION || "200"),
+      efSearch: parseInt(process.env.HNSW_EF_SEARCH || "50"),
+    },
+  });
+}
+
+export const pineconeService = new NamespacedVectorStore(createVectorStore, {
+  k1: parseFloat(process.env.BM25_K1 || "1.2"),
+  b: parseFloat(process.env.BM25_B || "0.75"),
+});
@@ -0,0 +1,102 @@
+import {
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  defaultPromptTemplate,
+  type InsertPromptTemplate,
+  type MetadataFilter,
+  type PromptTemplate,
+  type PromptTemplateSettings,
+  type RetrievalOptions,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { generateEmbedding } from "./openai";
+import { retrieve } from "./retrieval";
+import { resolveEmbeddingModel } from "./indexing";
+import { labelContext } from "./citations";
+
+export interface PromptPreviewOptions {
+  projectId: string;
+  query: string;
+  topK: number;
+  threshold: number;
+  embeddingModel?: string;
+  retrieval?: RetrievalOptions;
+  filter?: MetadataFilter;
+}
+
+// The built-in template as listed alongside the project's own
+export interface BuiltInPromptTemplate extends PromptTemplateSettings {
+  id: typeof DEFAULT_PROMPT_TEMPLATE_ID;
+  description: string;
+  builtIn: true;
+}
+
+export const builtInPromptTemplate: BuiltInPromptTemplate = {
+  ...defaultPromptTemplate,
+  id: DEFAULT_PROMPT_TEMPLATE_ID,
+  builtIn: true,
+};
+
+// Names are unique within a project, and the built-in template's name is taken too
+async function checkName(projectId: string, id: string | undefined, name: string): Promise<void> {
+  const templates = await storage.getPromptTemplates(projectId);
+  if (name === defaultPromptTemplate.name || templates.some(template => template.id !== id && template.name === name)) {
+    throw new Error(`A prompt template named ${name} already exists`);
+  }
+}
+
+// The template a query should use: the built-in one unless another is chosen
+export async function resolvePromptTemplate(projectId: string, id?: string): Promise<PromptTemplateSettings> {
+  if (!id || id === DEFAULT_PROMPT_TEMPLATE_ID) return defaultPromptTemplate;
+
+  const template = await storage.getPromptTemplateById(id);
+  if (!template || template.projectId !== projectId) {
+    throw new Error(`Prompt template ${id} not found`);
+  }
+  return template;
+}
+
+export async function listPromptTemplates(projectId: string): Promise<Array<BuiltInPromptTemplate | PromptTemplate>> {
+  return [builtInPromptTemplate, ...await storage.getPromptTemplates(projectId)];
+}
+
+export async function createPromptTemplate(projectId: string, templateData: InsertPromptTemplate): Promise<PromptTemplate> {
+  await checkName(projectId, undefined, templateData.name);
+  return storage.createPromptTemplate(projectId, templateData);
+}
+
+// Replaces every field, so clearing the system message or top P in the editor sticks
+export async function updatePromptTemplate(projectId: string, id: string, templateData: InsertPromptTemplate): Promise<PromptTemplate | undefined> {
+  const existing = await storage.getPromptTemplateById(id);
+  if (!existing || existing.projectId !== projectId) return undefined;
+
+  await checkName(projectId, id, templateData.name);
+  return storage.updatePromptTemplate(id, {
+    description: null,
+    systemMessage: null,
+    topP: null,
+    ...templateData,
+  });
+}
+
+export async function deletePromptTemplate(projectId: string, id: string): Promise<boolean> {
+  const existing = await storage.getPromptTemplateById(id);
+  if (!existing || existing.projectId !== projectId) return false;
+  return storage.deletePromptTemplate(id);
+}
+
+// The numbered context a query would be answered from, for previewing a template. The
+// editor renders the template itself so the preview follows every keystroke.
+export async function retrievePromptContext(options: PromptPreviewOptions): Promise<string[]> {
+  const embeddingModel = await resolveEmbeddingModel(options.projectId, options.embeddingModel);
+  const { embedding } = await generateEmbedding(options.query, embeddingModel);
+  const results = await retrieve({
+    projectId: options.projectId,
+    embedding,
+    text: options.query,
+    topK: options.topK,
+    threshold: options.threshold,
+    options: options.retrieval,
+    filter: options.filter,
+  });
+  return labelContext(results);
+}
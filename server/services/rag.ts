@@ -0,0 +1,160 @@
+import type { Conversation, MetadataFilter, Query, RetrievalOptions } from "@shared/schema";
+import { storage } from "../storage";
+import {
+  generateEmbedding,
+  generateChatResponse,
+  streamChatResponse,
+  rewriteQuery,
+  type ChatTurn,
+} from "./openai";
+import type { SimilaritySearchResult } from "./pinecone";
+import { retrieve } from "./retrieval";
+import { resolveEmbeddingModel } from "./indexing";
+import { labelContext, resolveCitations, type Citation } from "./citations";
+import { expandWithRelated } from "./relationship-graph";
+import { resolvePromptTemplate } from "./prompt-templates";
+
+// Prior messages sent with each turn (three user/assistant exchanges)
+const HISTORY_MESSAGES = 6;
+
+export interface RagQueryOptions {
+  // The project whose knowledge base is searched and that owns the query record
+  projectId: string;
+  query: string;
+  topK: number;
+  threshold: number;
+  chatModel: string;
+  embeddingModel?: string;
+  retrieval?: RetrievalOptions;
+  filter?: MetadataFilter;
+  conversationId?: string;
+  // Stored prompt template to answer with; the built-in one when unset
+  promptTemplateId?: string;
+}
+
+export interface EmbeddingSummary {
+  dimensions: number;
+  model: string;
+  preview: number[];
+}
+
+export interface RagPipelineHooks {
+  onEmbedding?: (embedding: EmbeddingSummary) => void;
+  onSearch?: (searchResults: SimilaritySearchResult[]) => void;
+  // When set the chat response is streamed and each delta is passed here
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface RagResult {
+  query: Query | undefined;
+  searchQuery: string;
+  // Story bible facts about related characters added to the search (retrieval.expandRelated)
+  relatedFacts: string[];
+  conversation?: Conversation;
+  embedding: EmbeddingSummary;
+  searchResults: SimilaritySearchResult[];
+  chatResponse: {
+    response: string;
+    tokensUsed: number;
+    model: string;
+    promptTemplate: string;
+    contextCount: number;
+    avgSimilarity: number;
+    citations: Citation[];
+    invalidCitations: number[];
+  };
+}
+
+export async function runRagPipeline(options: RagQueryOptions, hooks: RagPipelineHooks = {}): Promise<RagResult> {
+  const startTime = Date.now();
+  const embeddingModel = await resolveEmbeddingModel(options.projectId, options.embeddingModel);
+  const template = await resolvePromptTemplate(options.projectId, options.promptTemplateId);
+
+  let conversation: Conversation | undefined;
+  let history: ChatTurn[] = [];
+  if (options.conversationId) {
+    conversation = await storage.getConversationById(options.conversationId);
+    if (!conversation || conversation.projectId !== options.projectId) {
+      throw new Error(`Conversation ${options.conversationId} not found`);
+    }
+    const messages = await storage.getMessages(conversation.id);
+    history = messages.slice(-HISTORY_MESSAGES).map(message => ({
+      role: message.role as ChatTurn["role"],
+      content: message.content,
+    }));
+  }
+
+  // Generate embedding for the standalone form of the query
+  const searchQuery = await rewriteQuery(options.query, history, options.chatModel);
+  const relatedFacts = options.retrieval?.expandRelated ? await expandWithRelated(options.projectId, searchQuery) : [];
+  const searchText = [searchQuery, ...relatedFacts].join("\n");
+  const embeddingResponse = await generateEmbedding(searchText, embeddingModel);
+  const embedding = {
+    dimensions: embeddingResponse.dimensions,
+    model: embeddingResponse.model,
+    preview: embeddingResponse.embedding.slice(0, 10),
+  };
+  hooks.onEmbedding?.(embedding);
+
+  // Search similar documents, fusing in keyword matches in hybrid mode
+  const searchResults = await retrieve({
+    projectId: options.projectId,
+    embedding: embeddingResponse.embedding,
+    text: searchText,
+    topK: options.topK,
+    threshold: options.threshold,
+    options: options.retrieval,
+    filter: options.filter,
+  });
+  hooks.onSearch?.(searchResults);
+
+  // Generate chat response with numbered context, then tie its citation markers back to the results
+  const context = labelContext(searchResults);
+  const chatResponse = hooks.onToken
+    ? await streamChatResponse(options.query, context, options.chatModel, history, template, hooks.onToken, hooks.signal)
+    : await generateChatResponse(options.query, context, options.chatModel, history, template);
+  const cited = resolveCitations(chatResponse.response, searchResults);
+
+  // Record the query only once it has been answered, so a failed retrieval or chat call
+  // leaves no query behind without a response
+  const query = await storage.createQuery(options.projectId, { query: options.query });
+  const updatedQuery = await storage.updateQuery(query.id, {
+    searchQuery,
+    embedding: embeddingResponse.embedding,
+    response: cited.response,
+    contextDocuments: searchResults,
+    similarityScores: searchResults.map(r => r.score),
+    tokensUsed: chatResponse.tokensUsed,
+    responseTime: (Date.now() - startTime) / 1000,
+  });
+
+  if (conversation) {
+    await storage.createMessage({ conversationId: conversation.id, queryId: query.id, role: "user", content: options.query });
+    await storage.createMessage({ conversationId: conversation.id, queryId: query.id, role: "assistant", content: cited.response });
+    conversation = await storage.updateConversation(conversation.id, {
+      title: conversation.title || options.query.slice(0, 80),
+    });
+  }
+
+  return {
+    query: updatedQuery,
+    searchQuery,
+    relatedFacts,
+    conversation,
+    embedding,
+    searchResults,
+    chatResponse: {
+      response: cited.response,
+      tokensUsed: chatResponse.tokensUsed,
+      model: chatResponse.model,
+      promptTemplate: template.name,
+      contextCount: searchResults.length,
+      avgSimilarity: searchResults.length > 0
+        ? searchResults.reduce((sum, r) => sum + r.score, 0) / searchResults.length
+        : 0,
+      citations: cited.citations,
+      invalidCitations: cited.invalidMarkers,
+    },
+  };
+}
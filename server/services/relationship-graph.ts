@@ -0,0 +1,172 @@
+import {
+  sameRelationship,
+  type Entity,
+  type EntityRelationship,
+  type ExtractionResult,
+  type RelationshipType,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { createRelationship, deleteRelationship, describeRelationship } from "./story-bible";
+
+// Neighbourhoods further out than this are most of the cast in a typical novel
+export const MAX_NEIGHBOURHOOD_HOPS = 4;
+
+// Facts added to a query by expandWithRelated, so the expansion cannot swamp the query itself
+const MAX_RELATED_FACTS = 12;
+
+export interface NeighbourhoodNode {
+  entity: Entity;
+  // Hops from the centre entity; the centre is 0
+  distance: number;
+}
+
+export interface Neighbourhood {
+  center: Entity;
+  nodes: NeighbourhoodNode[];
+  // Every relationship between two of the nodes, including ones beyond the search frontier
+  edges: EntityRelationship[];
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Entities within `hops` relationships of the centre, following relationships in either
+// direction. `types` limits which relationships are followed and returned.
+export async function getNeighbourhood(
+  projectId: string,
+  entityId: string,
+  hops: number,
+  types?: RelationshipType[],
+): Promise<Neighbourhood | undefined> {
+  const center = await storage.getEntityById(entityId);
+  if (!center || center.projectId !== projectId) return undefined;
+
+  const entities = new Map((await storage.getEntities(projectId)).map(entity => [entity.id, entity]));
+  const relationships = (await storage.getEntityRelationships(projectId))
+    .filter(relationship => !types?.length || types.includes(relationship.type as RelationshipType));
+
+  const distances = new Map<string, number>([[center.id, 0]]);
+  let frontier = [center.id];
+  for (let hop = 1; hop <= Math.min(hops, MAX_NEIGHBOURHOOD_HOPS) && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const relationship of relationships) {
+      for (const [from, to] of [[relationship.sourceId, relationship.targetId], [relationship.targetId, relationship.sourceId]]) {
+        if (frontier.includes(from) && !distances.has(to) && entities.has(to)) {
+          distances.set(to, hop);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    center,
+    nodes: Array.from(distances.entries())
+      .map(([id, distance]) => ({ entity: entities.get(id)!, distance }))
+      .sort((a, b) => a.distance - b.distance || a.entity.name.localeCompare(b.entity.name)),
+    edges: relationships.filter(relationship => distances.has(relationship.sourceId) && distances.has(relationship.targetId)),
+  };
+}
+
+function entityResolver(entities: Entity[]): (name: string) => Entity | undefined {
+  const byName = new Map<string, Entity>();
+  for (const entity of entities) {
+    for (const name of [entity.name, ...entity.aliases]) {
+      if (!byName.has(normalizeName(name))) byName.set(normalizeName(name), entity);
+    }
+  }
+  return (name: string) => byName.get(normalizeName(name));
+}
+
+// Add the relationships extraction found between entities already in the story bible,
+// and remove the ones an earlier extraction of the same document found that are no
+// longer there. Relationships naming someone not yet in the story bible are skipped
+// until that candidate is accepted or merged, which runs this again. Anything already
+// recorded, by hand or from another document, is left alone.
+export async function importExtractedRelationships(
+  projectId: string,
+  sourceDocumentId: string,
+  result: ExtractionResult,
+): Promise<EntityRelationship[]> {
+  const resolve = entityResolver(await storage.getEntities(projectId));
+  const existing = await storage.getEntityRelationships(projectId);
+  const previous = existing.filter(relationship =>
+    relationship.origin === "extracted" && relationship.sourceDocumentId === sourceDocumentId
+  );
+
+  const found: Array<Pick<EntityRelationship, "sourceId" | "targetId" | "description" | "evidence"> & { type: RelationshipType }> = [];
+  for (const relationship of result.relationships) {
+    const source = resolve(relationship.source);
+    const target = resolve(relationship.target);
+    if (!source || !target || source.id === target.id) continue;
+
+    const candidate = {
+      sourceId: source.id,
+      targetId: target.id,
+      type: relationship.type,
+      description: relationship.description ?? null,
+      evidence: relationship.evidence ?? null,
+    };
+    if (!found.some(other => sameRelationship(other, candidate))) found.push(candidate);
+  }
+
+  for (const relationship of previous) {
+    if (!found.some(other => sameRelationship(other, relationship))) {
+      await deleteRelationship(projectId, relationship.id);
+    }
+  }
+
+  const created: EntityRelationship[] = [];
+  for (const relationship of found) {
+    if (existing.some(other => sameRelationship(other, relationship))) continue;
+    created.push(await createRelationship(projectId, { ...relationship, origin: "extracted", sourceDocumentId }));
+  }
+  return created;
+}
+
+function words(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\u00c0-\u024f]+/g, " ").trim();
+}
+
+// Story bible entities the text names, by name or alias as whole words
+export function findMentionedEntities(entities: Entity[], text: string): Entity[] {
+  const haystack = ` ${words(text)} `;
+  return entities.filter(entity =>
+    [entity.name, ...entity.aliases].some(name => {
+      const needle = words(name);
+      return needle.length > 1 && haystack.includes(` ${needle} `);
+    })
+  );
+}
+
+// Facts about the entities related to the ones a query names: each relationship as a
+// sentence, followed by the related entity's summary. Used to expand retrieval so a
+// question about Evie also finds what is known about Evie's husband.
+export async function expandWithRelated(projectId: string, text: string): Promise<string[]> {
+  const entities = await storage.getEntities(projectId);
+  const byId = new Map(entities.map(entity => [entity.id, entity]));
+  const mentioned = findMentionedEntities(entities, text);
+  if (mentioned.length === 0) return [];
+
+  const mentionedIds = new Set(mentioned.map(entity => entity.id));
+  const facts: string[] = [];
+  const summarized = new Set<string>();
+  for (const relationship of await storage.getEntityRelationships(projectId)) {
+    if (!mentionedIds.has(relationship.sourceId) && !mentionedIds.has(relationship.targetId)) continue;
+    const source = byId.get(relationship.sourceId);
+    const target = byId.get(relationship.targetId);
+    if (!source || !target) continue;
+
+    facts.push(`${describeRelationship(source.name, relationship.type, target.name)}.${relationship.description ? ` ${relationship.description}` : ""}`);
+    for (const other of [source, target]) {
+      if (!mentionedIds.has(other.id) && !summarized.has(other.id) && other.summary?.trim()) {
+        summarized.add(other.id);
+        facts.push(`${other.name}: ${other.summary.trim()}`);
+      }
+    }
+    if (facts.length >= MAX_RELATED_FACTS) break;
+  }
+  return facts.slice(0, MAX_RELATED_FACTS);
+}
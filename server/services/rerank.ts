@@ -0,0 +1,74 @@
+import { tokenize } from "./bm25";
+import { scorePassages } from "./openai";
+import type { SimilaritySearchResult } from "./pinecone";
+
+// Scores each candidate for the query, in input order; higher is more relevant
+export interface Reranker {
+  readonly name: string;
+  score(query: string, candidates: SimilaritySearchResult[]): Promise<number[]>;
+}
+
+// Share of the lexical score given to query terms appearing next to each other in
+// the passage, which rewards "Evie Cullum" over a passage that mentions Evie and a Cullum
+const PHRASE_WEIGHT = 0.3;
+
+// Cheap local reranker: how much of the query the passage covers, word for word
+export class LexicalReranker implements Reranker {
+  readonly name = "lexical";
+
+  async score(query: string, candidates: SimilaritySearchResult[]): Promise<number[]> {
+    const queryTerms = tokenize(query);
+    const terms = Array.from(new Set(queryTerms));
+    const bigrams = Array.from(new Set(queryTerms.slice(1).map((term, i) => `${queryTerms[i]} ${term}`)));
+    if (terms.length === 0) return candidates.map(() => 0);
+
+    return candidates.map(candidate => {
+      const passageTerms = tokenize(candidate.text);
+      const passageSet = new Set(passageTerms);
+      const passageBigrams = new Set(passageTerms.slice(1).map((term, i) => `${passageTerms[i]} ${term}`));
+
+      const coverage = terms.filter(term => passageSet.has(term)).length / terms.length;
+      if (bigrams.length === 0) return coverage;
+
+      const phraseCoverage = bigrams.filter(bigram => passageBigrams.has(bigram)).length / bigrams.length;
+      return (1 - PHRASE_WEIGHT) * coverage + PHRASE_WEIGHT * phraseCoverage;
+    });
+  }
+}
+
+// Asks the chat model to grade every candidate in a single request
+export class LlmReranker implements Reranker {
+  readonly name = "llm";
+
+  constructor(private model: string = "gpt-4o") {}
+
+  score(query: string, candidates: SimilaritySearchResult[]): Promise<number[]> {
+    return scorePassages(query, candidates.map(candidate => candidate.text), this.model);
+  }
+}
+
+const rerankers: Record<string, Reranker> = {
+  lexical: new LexicalReranker(),
+  llm: new LlmReranker(process.env.RERANK_MODEL || "gpt-4o"),
+};
+
+export function getReranker(name: string): Reranker | undefined {
+  return rerankers[name];
+}
+
+// Reorder candidates by reranker score and keep the best topK. The retrieval score and
+// position are kept alongside so callers can show what the reranker changed.
+export async function rerank(
+  reranker: Reranker,
+  query: string,
+  candidates: SimilaritySearchResult[],
+  topK: number,
+): Promise<SimilaritySearchResult[]> {
+  const scores = await reranker.score(query, candidates);
+
+  return candidates
+    .map((candidate, i) => ({ ...candidate, retrievalRank: i + 1, rerankScore: scores[i] ?? 0 }))
+    // Array.prototype.sort is stable, so ties keep their retrieval order
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, topK);
+}
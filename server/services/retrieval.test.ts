@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Bm25Index, tokenize } from "./bm25";
+import { KeywordIndexedStore, PineconeService, toSearchResult } from "./pinecone";
+import { fuseRankings } from "./retrieval";
+
+const PASSAGES: Record<string, { content: string; embedding: number[] }> = {
+  "chunk-1": { content: "Keda crossed the river at night.", embedding: [1, 0, 0] },
+  "chunk-2": { content: "The river flooded the valley.", embedding: [0.9, 0.1, 0] },
+  "chunk-3": { content: "Keda's sword was forged in the valley.", embedding: [0, 1, 0] },
+  "chunk-4": { content: "Nothing happened on Tuesday.", embedding: [0, 0, 1] },
+};
+
+async function createStore(): Promise<KeywordIndexedStore> {
+  const store = new KeywordIndexedStore(new PineconeService({ index: "flat" }));
+  for (const [id, { content, embedding }] of Object.entries(PASSAGES)) {
+    await store.upsert(id, embedding, { content, category: "chapters" });
+  }
+  return store;
+}
+
+function ids(results: { id: string }[]): string[] {
+  return results.map(result => result.id);
+}
+
+function ranking(...idList: string[]) {
+  return idList.map((id, rank) => toSearchResult(id, 1 - rank / 10, { content: PASSAGES[id]?.content }));
+}
+
+describe("Bm25Index", () => {
+  it("drops stopwords and possessives when tokenizing", () => {
+    assert.deepEqual(tokenize("Keda's sword was forged in the valley."), ["keda", "sword", "forged", "valley"]);
+  });
+
+  it("ranks passages matching more query terms, then shorter ones, first", () => {
+    const index = new Bm25Index();
+    for (const [id, { content }] of Object.entries(PASSAGES)) {
+      index.add(id, content);
+    }
+
+    assert.deepEqual(ids(index.search("Keda river", 10)), ["chunk-1", "chunk-2", "chunk-3"]);
+    assert.deepEqual(ids(index.search("Keda river", 10, id => id !== "chunk-1")), ["chunk-2", "chunk-3"]);
+
+    index.remove("chunk-1");
+    index.add("chunk-3", "Nothing about names.");
+    assert.deepEqual(ids(index.search("Keda river", 10)), ["chunk-2"]);
+  });
+});
+
+describe("fuseRankings", () => {
+  it("reduces to the vector ranking at vectorWeight 1 and the keyword ranking at 0", async () => {
+    const store = await createStore();
+    const vectorResults = await store.query([1, 0, 0], 10, 0.5);
+    const keywordResults = await store.keywordQuery("Keda river", 10);
+    assert.deepEqual(ids(vectorResults), ["chunk-1", "chunk-2"]);
+    assert.deepEqual(ids(keywordResults), ["chunk-1", "chunk-2", "chunk-3"]);
+
+    assert.deepEqual(ids(fuseRankings(vectorResults, keywordResults, 1, 10)), ids(vectorResults));
+    assert.deepEqual(ids(fuseRankings(vectorResults, keywordResults, 0, 10)), ids(keywordResults));
+    // Only the weighted ranking's own results survive, however long the other list is
+    assert.deepEqual(ids(fuseRankings(ranking("chunk-2"), ranking("chunk-3", "chunk-4", "chunk-1"), 1, 10)), ["chunk-2"]);
+    assert.deepEqual(ids(fuseRankings(ranking("chunk-2", "chunk-4"), ranking("chunk-3"), 0, 10)), ["chunk-3"]);
+  });
+
+  it("scores a result ranked first by both lists 1 and keeps each list's score", async () => {
+    const store = await createStore();
+    const vectorResults = await store.query([1, 0, 0], 10, 0.5);
+    const keywordResults = await store.keywordQuery("Keda river", 10);
+
+    const [top] = fuseRankings(vectorResults, keywordResults, 0.3, 10);
+    assert.equal(top.id, "chunk-1");
+    assert.ok(Math.abs(top.score - 1) < 1e-9, `score ${top.score}`);
+    assert.equal(top.vectorScore, vectorResults[0].score);
+    assert.equal(top.keywordScore, keywordResults[0].keywordScore);
+  });
+
+  it("ranks a result found by both retrievers above one only a single retriever ranked first", () => {
+    const fused = fuseRankings(ranking("chunk-1", "chunk-2"), ranking("chunk-3", "chunk-2"), 0.5, 10);
+
+    assert.deepEqual(ids(fused), ["chunk-2", "chunk-1", "chunk-3"]);
+    assert.deepEqual(ids(fuseRankings(ranking("chunk-1", "chunk-2"), ranking("chunk-3", "chunk-2"), 0.5, 1)), ["chunk-2"]);
+  });
+});
@@ -0,0 +1,85 @@
+import type { MetadataFilter, RetrievalOptions } from "@shared/schema";
+import { pineconeService, type SimilaritySearchResult } from "./pinecone";
+import { getReranker, rerank } from "./rerank";
+
+// Reciprocal rank fusion constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+// Each ranking contributes this many times topK candidates to the fusion
+const CANDIDATE_MULTIPLIER = 4;
+
+export interface RetrievalRequest {
+  // Only vectors in this project's namespace are searched
+  projectId: string;
+  embedding: number[];
+  text: string;
+  topK: number;
+  threshold: number;
+  options?: RetrievalOptions;
+  filter?: MetadataFilter;
+}
+
+// Weighted reciprocal rank fusion. Scores are normalised so a result ranked first
+// by both lists scores 1; the original scores are kept as vectorScore/keywordScore.
+export function fuseRankings(
+  vectorResults: SimilaritySearchResult[],
+  keywordResults: SimilaritySearchResult[],
+  vectorWeight: number,
+  topK: number,
+): SimilaritySearchResult[] {
+  const fused = new Map<string, SimilaritySearchResult & { fusedScore: number }>();
+
+  vectorResults.forEach((result, rank) => {
+    fused.set(result.id, { ...result, vectorScore: result.score, fusedScore: vectorWeight / (RRF_K + rank + 1) });
+  });
+
+  keywordResults.forEach((result, rank) => {
+    const contribution = (1 - vectorWeight) / (RRF_K + rank + 1);
+    const existing = fused.get(result.id);
+    if (existing) {
+      existing.keywordScore = result.keywordScore ?? result.score;
+      existing.fusedScore += contribution;
+    } else {
+      fused.set(result.id, { ...result, keywordScore: result.keywordScore ?? result.score, fusedScore: contribution });
+    }
+  });
+
+  const maxScore = 1 / (RRF_K + 1);
+  return Array.from(fused.values())
+    .filter(result => result.fusedScore > 0)
+    .sort((a, b) => b.fusedScore - a.fusedScore)
+    .slice(0, topK)
+    .map(({ fusedScore, ...result }) => ({ ...result, score: fusedScore / maxScore }));
+}
+
+// Vector search alone, or vector and BM25 rankings fused. The similarity threshold
+// only applies to the vector side; keyword hits have no comparable score. The
+// metadata filter is applied by both indexes before they rank.
+async function search(request: RetrievalRequest, topK: number): Promise<SimilaritySearchResult[]> {
+  const { embedding, text, threshold, options, filter } = request;
+  const store = pineconeService.namespace(request.projectId);
+
+  if (!options || options.mode === "vector") {
+    return store.query(embedding, topK, threshold, filter);
+  }
+
+  const candidates = topK * CANDIDATE_MULTIPLIER;
+  const [vectorResults, keywordResults] = await Promise.all([
+    store.query(embedding, candidates, threshold, filter),
+    store.keywordQuery(text, candidates, filter),
+  ]);
+  return fuseRankings(vectorResults, keywordResults, options.vectorWeight, topK);
+}
+
+// With a reranker, a wider candidate set is searched and the reranker picks the final topK
+export async function retrieve(request: RetrievalRequest): Promise<SimilaritySearchResult[]> {
+  const reranker = request.options && request.options.reranker !== "none"
+    ? getReranker(request.options.reranker)
+    : undefined;
+
+  if (!reranker) {
+    return search(request, request.topK);
+  }
+
+  const candidates = await search(request, Math.max(request.options!.rerankCandidates, request.topK));
+  return rerank(reranker, request.text, candidates, request.topK);
+}
@@ -0,0 +1,161 @@
+import { z } from "zod";
+import type { Document, Entity, MetadataFilter, RetrievalOptions, SceneBrief } from "@shared/schema";
+import { storage } from "../storage";
+import { generateEmbeddings, writeScene } from "./openai";
+import type { SimilaritySearchResult } from "./pinecone";
+import { retrieve } from "./retrieval";
+import { ingestDocument, resolveEmbeddingModel } from "./indexing";
+import { getRelatedEntities, renderEntity } from "./story-bible";
+
+// Drafts are filed here so they can be scoped out of searches for canon
+const DRAFT_CATEGORY = "drafts";
+
+const sceneSchema = z.object({
+  prose: z.string().trim().min(1),
+  facts: z.array(z.object({
+    fact: z.string().trim().min(1),
+    sources: z.array(z.coerce.number().int()).default([]),
+  })).default([]),
+});
+
+export interface SceneDraftOptions {
+  projectId: string;
+  brief: SceneBrief;
+  topK: number;
+  threshold: number;
+  chatModel: string;
+  embeddingModel?: string;
+  retrieval?: RetrievalOptions;
+  filter?: MetadataFilter;
+}
+
+// One numbered piece of canon the model was given: a story bible profile for a name the
+// brief uses, or a passage retrieved for an unmatched name or for the beats
+export interface SceneCanon {
+  kind: "profile" | "passage";
+  // The entity's name, or the passage's document ID
+  label: string;
+  entityId?: string;
+  text: string;
+}
+
+export interface SceneFact {
+  fact: string;
+  // Indexes into the draft's canon; numbers the model made up are dropped
+  sources: number[];
+}
+
+export interface SceneDraft {
+  document: Document;
+  prose: string;
+  facts: SceneFact[];
+  canon: SceneCanon[];
+  // Names in the brief with no story bible entity, searched for in the knowledge base instead
+  unmatched: string[];
+  model: string;
+  tokensUsed: number;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function findEntity(entities: Entity[], name: string): Entity | undefined {
+  return entities.find(entity => [entity.name, ...entity.aliases].some(other => normalizeName(other) === normalizeName(name)));
+}
+
+function documentIdOf(result: SimilaritySearchResult): string {
+  return result.source?.documentId ?? result.metadata?.documentId ?? result.id;
+}
+
+// A document ID for the draft that no other document in the project uses
+async function draftDocumentId(projectId: string, brief: SceneBrief): Promise<string> {
+  const slug = (brief.title || `${brief.pov} ${brief.setting}`)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  const base = `draft-${slug || "scene"}`;
+  const taken = new Set((await storage.getDocuments(projectId)).map(document => document.documentId));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+// Gather the canon a scene has to respect, draft it with the chat model and save the
+// prose as a new document. Every name in the brief that matches a story bible entity
+// contributes its full rendered profile; other names, and the beats, are searched for
+// through the normal retrieval path.
+export async function draftScene(options: SceneDraftOptions): Promise<SceneDraft> {
+  const { brief } = options;
+  const embeddingModel = await resolveEmbeddingModel(options.projectId, options.embeddingModel);
+  const entities = await storage.getEntities(options.projectId);
+
+  const names = Array.from(new Set([brief.pov, ...brief.participants, brief.setting].map(name => name.trim())));
+  const canon: SceneCanon[] = [];
+  const unmatched: string[] = [];
+  for (const name of names) {
+    const entity = findEntity(entities, name);
+    if (!entity) {
+      unmatched.push(name);
+    } else if (!canon.some(item => item.entityId === entity.id)) {
+      canon.push({ kind: "profile", label: entity.name, entityId: entity.id, text: renderEntity(entity, await getRelatedEntities(entity)) });
+    }
+  }
+
+  const searches = [...unmatched, `${brief.setting}. ${brief.beats.join(" ")}`];
+  const embeddings = await generateEmbeddings(searches, embeddingModel);
+  const seen = new Set<string>();
+  for (const [i, text] of Array.from(searches.entries())) {
+    const results = await retrieve({
+      projectId: options.projectId,
+      embedding: embeddings[i].embedding,
+      text,
+      topK: options.topK,
+      threshold: options.threshold,
+      options: options.retrieval,
+      filter: options.filter,
+    });
+    for (const result of results) {
+      // Profiles already included in full are not repeated as chunks, and earlier drafts are not canon
+      const profiled = canon.some(item => item.entityId && item.entityId === result.metadata?.entityId);
+      if (seen.has(result.id) || profiled || result.metadata?.source === "scene-draft") continue;
+      seen.add(result.id);
+      canon.push({ kind: "passage", label: documentIdOf(result), text: result.text });
+    }
+  }
+
+  const { answer, tokensUsed } = await writeScene(brief, canon.map(item => item.text), options.chatModel);
+  const parsed = sceneSchema.safeParse(answer);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`The drafted scene did not match the expected format at ${issue.path.join(".") || "the top level"}: ${issue.message}`);
+  }
+
+  const facts = parsed.data.facts.map(({ fact, sources }) => ({
+    fact,
+    sources: Array.from(new Set(sources.map(n => n - 1).filter(index => index >= 0 && index < canon.length))),
+  }));
+
+  const { document } = await ingestDocument(options.projectId, {
+    content: parsed.data.prose,
+    category: DRAFT_CATEGORY,
+    documentId: await draftDocumentId(options.projectId, brief),
+    // Copied onto every vector, so kept to strings, numbers and string lists as Pinecone requires
+    metadata: {
+      source: "scene-draft",
+      model: options.chatModel,
+      ...(brief.title ? { title: brief.title } : {}),
+      pov: brief.pov,
+      setting: brief.setting,
+      participants: brief.participants,
+      beats: brief.beats,
+      targetWords: brief.targetWords,
+      canonFacts: facts.map(({ fact, sources }) =>
+        sources.length > 0 ? `${fact} (${sources.map(index => canon[index].label).join(", ")})` : fact
+      ),
+    },
+  }, {}, embeddingModel);
+
+  return { document, prose: parsed.data.prose, facts, canon, unmatched, model: options.chatModel, tokensUsed };
+}
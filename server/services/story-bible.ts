@@ -0,0 +1,195 @@
+import {
+  ENTITY_PROFILE_SOURCE,
+  entityFieldDefinitions,
+  relationshipLabels,
+  type Entity,
+  type EntityRelationship,
+  type EntityType,
+  type InsertDocument,
+  type InsertEntity,
+  type InsertEntityRelationship,
+  type RelationshipType,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { ingestDocument, reviseDocument, removeDocument } from "./indexing";
+
+// Profile documents are filed under the same categories uploads use
+const PROFILE_CATEGORIES: Record<EntityType, string> = {
+  character: "characters",
+  location: "locations",
+  organization: "organizations",
+  artifact: "artifacts",
+};
+
+export interface RelatedEntity {
+  relationship: EntityRelationship;
+  // "outgoing" when this entity is the relationship's source
+  direction: "outgoing" | "incoming";
+  entity: Entity;
+}
+
+export async function getRelatedEntities(entity: Entity): Promise<RelatedEntity[]> {
+  const related: RelatedEntity[] = [];
+  for (const relationship of await storage.getRelationshipsForEntity(entity.id)) {
+    const direction = relationship.sourceId === entity.id ? "outgoing" : "incoming";
+    const other = await storage.getEntityById(direction === "outgoing" ? relationship.targetId : relationship.sourceId);
+    if (other) related.push({ relationship, direction, entity: other });
+  }
+  return related;
+}
+
+export function describeRelationship(source: string, type: string, target: string): string {
+  return `${source} ${relationshipLabels[type as RelationshipType] ?? type.replace(/_/g, " ")} ${target}`;
+}
+
+// Render an entity as Markdown for embedding. Section headings repeat the entity's
+// name so every chunk still says who it is about once the profile is split.
+export function renderEntity(entity: Entity, related: RelatedEntity[] = []): string {
+  const definitions = entityFieldDefinitions[entity.type as EntityType] ?? [];
+  const fields = entity.fields ?? {};
+  const label = entity.type.charAt(0).toUpperCase() + entity.type.slice(1);
+  const sections: string[] = [];
+
+  const intro = [`# ${entity.name}`, `${label}.`];
+  if (entity.aliases.length > 0) {
+    intro[1] += ` Also known as: ${entity.aliases.join(", ")}.`;
+  }
+  sections.push(intro.join("\n"));
+
+  if (entity.summary?.trim()) {
+    sections.push(entity.summary.trim());
+  }
+
+  const facts = definitions
+    .filter(field => !field.multiline && fields[field.key]?.trim())
+    .map(field => `${field.label}: ${fields[field.key].trim()}`);
+  if (facts.length > 0) {
+    sections.push(facts.join("\n"));
+  }
+
+  for (const field of definitions) {
+    if (field.multiline && fields[field.key]?.trim()) {
+      sections.push(`## ${entity.name}: ${field.label}\n${fields[field.key].trim()}`);
+    }
+  }
+
+  if (related.length > 0) {
+    const lines = related.map(({ relationship, direction, entity: other }) => {
+      const sentence = direction === "outgoing"
+        ? describeRelationship(entity.name, relationship.type, other.name)
+        : describeRelationship(other.name, relationship.type, entity.name);
+      return `- ${sentence}.${relationship.description ? ` ${relationship.description}` : ""}`;
+    });
+    sections.push(`## ${entity.name}: Relationships\n${lines.join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+function profileDocumentId(entity: Entity): string {
+  const slug = entity.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return `${entity.type}-${slug || entity.id}`;
+}
+
+// Create or update the profile document that makes the entity searchable. Nothing
+// is re-embedded when the rendered profile has not changed.
+export async function syncEntityProfile(entity: Entity): Promise<Entity> {
+  const profile: InsertDocument = {
+    content: renderEntity(entity, await getRelatedEntities(entity)),
+    category: PROFILE_CATEGORIES[entity.type as EntityType] ?? "notes",
+    documentId: profileDocumentId(entity),
+    metadata: {
+      source: ENTITY_PROFILE_SOURCE,
+      entityId: entity.id,
+      entityType: entity.type,
+      entityName: entity.name,
+    },
+  };
+
+  if (entity.profileDocumentId) {
+    const existing = await storage.getDocumentById(entity.profileDocumentId);
+    if (existing && existing.content === profile.content && existing.documentId === profile.documentId && existing.category === profile.category) {
+      return entity;
+    }
+    // The profile document may have been deleted from the knowledge base; it is recreated below
+    if (existing && await reviseDocument(entity.projectId, existing.id, profile)) {
+      return entity;
+    }
+  }
+
+  const { document } = await ingestDocument(entity.projectId, profile);
+  return (await storage.updateEntity(entity.id, { profileDocumentId: document.id }))!;
+}
+
+async function syncEntityProfiles(ids: string[]): Promise<void> {
+  for (const id of Array.from(new Set(ids))) {
+    const entity = await storage.getEntityById(id);
+    if (entity) await syncEntityProfile(entity);
+  }
+}
+
+async function findProjectEntity(projectId: string, id: string): Promise<Entity | undefined> {
+  const entity = await storage.getEntityById(id);
+  return entity && entity.projectId === projectId ? entity : undefined;
+}
+
+// The entity is only kept once its profile is in the knowledge base, so a failed
+// embedding call can be retried without leaving a duplicate entity behind
+export async function createEntity(projectId: string, entityData: InsertEntity): Promise<Entity> {
+  const entity = await storage.createEntity(projectId, entityData);
+  try {
+    return await syncEntityProfile(entity);
+  } catch (error) {
+    await storage.deleteEntity(entity.id);
+    throw error;
+  }
+}
+
+// Renaming an entity changes the profiles of everything related to it, so those are re-rendered too
+export async function updateEntity(projectId: string, id: string, entityData: InsertEntity): Promise<Entity | undefined> {
+  const existing = await findProjectEntity(projectId, id);
+  if (!existing) return undefined;
+
+  const entity = await syncEntityProfile((await storage.updateEntity(id, entityData))!);
+  if (entity.name !== existing.name) {
+    await syncEntityProfiles((await getRelatedEntities(entity)).map(related => related.entity.id));
+  }
+  return entity;
+}
+
+export async function deleteEntity(projectId: string, id: string): Promise<boolean> {
+  const entity = await findProjectEntity(projectId, id);
+  if (!entity) return false;
+
+  const related = await getRelatedEntities(entity);
+  if (entity.profileDocumentId) {
+    await removeDocument(projectId, entity.profileDocumentId);
+  }
+  await storage.deleteEntity(id);
+  await syncEntityProfiles(related.map(({ entity: other }) => other.id));
+  return true;
+}
+
+export async function createRelationship(
+  projectId: string,
+  relationshipData: InsertEntityRelationship & Partial<Pick<EntityRelationship, "origin" | "sourceDocumentId" | "evidence">>,
+): Promise<EntityRelationship> {
+  for (const id of [relationshipData.sourceId, relationshipData.targetId]) {
+    if (!(await findProjectEntity(projectId, id))) {
+      throw new Error(`Entity ${id} not found`);
+    }
+  }
+
+  const relationship = await storage.createEntityRelationship(projectId, relationshipData);
+  await syncEntityProfiles([relationship.sourceId, relationship.targetId]);
+  return relationship;
+}
+
+export async function deleteRelationship(projectId: string, id: string): Promise<boolean> {
+  const relationship = await storage.getEntityRelationshipById(id);
+  if (!relationship || relationship.projectId !== projectId) return false;
+
+  await storage.deleteEntityRelationship(id);
+  await syncEntityProfiles([relationship.sourceId, relationship.targetId]);
+  return true;
+}
@@ -0,0 +1,137 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Entity, TimelineEvent } from "@shared/schema";
+import { solveTimeline } from "./timeline";
+
+function event(id: string, fields: Partial<TimelineEvent> = {}): TimelineEvent {
+  return {
+    id,
+    projectId: "project-1",
+    kind: "event",
+    title: id,
+    description: null,
+    participants: [],
+    location: null,
+    ages: {},
+    when: null,
+    startYear: null,
+    endYear: null,
+    durationYears: null,
+    anchorEventId: null,
+    relation: null,
+    offsetYears: null,
+    origin: "manual",
+    sourceDocumentId: null,
+    createdAt: null,
+    updatedAt: null,
+    ...fields,
+  };
+}
+
+const EVIE: Entity = {
+  id: "entity-evie",
+  projectId: "project-1",
+  type: "character",
+  name: "Evie",
+  aliases: ["Eve"],
+  summary: null,
+  fields: {},
+  profileDocumentId: null,
+  createdAt: null,
+  updatedAt: null,
+};
+
+describe("solveTimeline", () => {
+  it("places events relative to their anchors", () => {
+    const { placements, issues } = solveTimeline([
+      event("Graduation", { startYear: 2009 }),
+      event("First job", { anchorEventId: "Graduation", relation: "after", offsetYears: 3, durationYears: 2 }),
+      event("Gap year", { anchorEventId: "Graduation", relation: "before" }),
+    ]);
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(placements["First job"], { start: 2012, end: 2014, approximate: false });
+    assert.deepEqual(placements["Gap year"], { start: 2008, end: 2009, approximate: true });
+  });
+
+  it("reports an anchor cycle once and leaves its events unplaced", () => {
+    const { placements, issues } = solveTimeline([
+      event("Wedding", { anchorEventId: "Honeymoon", relation: "before" }),
+      event("Honeymoon", { anchorEventId: "Divorce", relation: "before" }),
+      event("Divorce", { anchorEventId: "Wedding", relation: "after", offsetYears: 2 }),
+      event("Remarriage", { anchorEventId: "Divorce", relation: "after" }),
+    ]);
+
+    assert.deepEqual(issues, [{
+      kind: "cycle",
+      severity: "error",
+      message: `"Wedding" → "Honeymoon" → "Divorce" → "Wedding" are placed relative to each other in a circle`,
+      eventIds: ["Wedding", "Honeymoon", "Divorce"],
+    }]);
+    assert.deepEqual(placements, {});
+  });
+
+  it("reports an event dated before the anchor it follows", () => {
+    const { placements, issues } = solveTimeline([
+      event("Graduation", { startYear: 2009 }),
+      event("First job", { startYear: 2005, anchorEventId: "Graduation", relation: "after" }),
+      event("Promotion", { startYear: 2015, anchorEventId: "Graduation", relation: "after", offsetYears: 3 }),
+      event("Move", { startYear: 2013, anchorEventId: "Graduation", relation: "after", offsetYears: 3 }),
+    ]);
+
+    assert.deepEqual(issues, [
+      {
+        kind: "ordering",
+        severity: "error",
+        message: `"First job" (2005) is placed after "Graduation", which ends in 2009`,
+        eventIds: ["First job", "Graduation"],
+      },
+      {
+        kind: "ordering",
+        severity: "error",
+        message: `"Promotion" is dated 2015, but 3 years after "Graduation" (2009) is around 2012`,
+        eventIds: ["Promotion", "Graduation"],
+      },
+    ]);
+    // The event's own years win over its relative placement
+    assert.deepEqual(placements["First job"], { start: 2005, end: 2006, approximate: false });
+  });
+
+  it("only warns when the anchor is itself approximate", () => {
+    const { issues } = solveTimeline([
+      event("Graduation", { startYear: 2009 }),
+      event("Travels", { anchorEventId: "Graduation", relation: "after" }),
+      event("Return", { startYear: 2000, anchorEventId: "Travels", relation: "after" }),
+    ]);
+
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.severity]), [["ordering", "warning"]]);
+  });
+
+  it("reports an age that contradicts a birth year", () => {
+    const { issues } = solveTimeline([
+      event("Evie is born", { kind: "birth", participants: ["Evie"], startYear: 1990 }),
+      event("Wedding", { participants: ["Evie"], ages: { Eve: 30 }, startYear: 2010 }),
+      event("Graduation", { ages: { Evie: 21 }, startYear: 2012 }),
+    ], [EVIE]);
+
+    assert.deepEqual(issues, [{
+      kind: "age",
+      severity: "error",
+      message: `Evie is 30 at "Wedding" (2010), which puts Evie's birth around 1980, but is born in 1990`,
+      eventIds: ["Evie is born", "Wedding"],
+      entityId: "entity-evie",
+    }]);
+  });
+
+  it("places an event whose anchor was deleted by its own years, or not at all", () => {
+    // Deleting an anchor sets anchorEventId to null but keeps the relation and offset
+    const { placements, issues } = solveTimeline([
+      event("First job", { anchorEventId: null, relation: "after", offsetYears: 3 }),
+      event("Promotion", { startYear: 2015, anchorEventId: null, relation: "after", offsetYears: 3 }),
+      event("Move", { anchorEventId: "deleted-event", relation: "before" }),
+    ]);
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(placements, { Promotion: { start: 2015, end: 2016, approximate: false } });
+  });
+});
@@ -0,0 +1,417 @@
+import type { Entity, ExtractionResult, InsertTimelineEvent, TimelineEvent } from "@shared/schema";
+import { storage } from "../storage";
+
+// Years are a continuous axis on which an event dated 2009 covers [2009, 2010), so a
+// phase from 2005 to 2009 covers [2005, 2010). Relative offsets count from the anchor's
+// first year ("during") or last year ("after"), so "3 years after" a 2009 event is 2012.
+export interface TimelinePlacement {
+  start: number;
+  end: number;
+  // Only bounded by its anchor ("after college", no offset) rather than dated
+  approximate: boolean;
+}
+
+export type TimelineIssueKind = "cycle" | "ordering" | "dates" | "age";
+
+export interface TimelineIssue {
+  kind: TimelineIssueKind;
+  // "warning" when an approximate placement is involved, so the conflict may not be real
+  severity: "error" | "warning";
+  message: string;
+  eventIds: string[];
+  entityId?: string;
+}
+
+export interface SolvedTimeline {
+  placements: Record<string, TimelinePlacement>;
+  issues: TimelineIssue[];
+}
+
+// Years of slack allowed when comparing dates, since most are only known to the year
+const TOLERANCE_YEARS = 1;
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function lastYear(placement: TimelinePlacement): number {
+  return Math.ceil(placement.end) - 1;
+}
+
+function formatSpan(placement: TimelinePlacement): string {
+  const first = Math.floor(placement.start);
+  const last = lastYear(placement);
+  return `${placement.approximate ? "around " : ""}${first === last ? first : `${first}–${last}`}`;
+}
+
+// Placement from the event's own years, if it has any
+function absolutePlacement(event: TimelineEvent): TimelinePlacement | null {
+  if (event.startYear != null) {
+    const end = event.endYear != null
+      ? event.endYear + 1
+      : event.startYear + (event.durationYears ?? 1);
+    return { start: event.startYear, end: Math.max(end, event.startYear + 1), approximate: false };
+  }
+  if (event.endYear != null) {
+    return { start: event.endYear + 1 - (event.durationYears ?? 1), end: event.endYear + 1, approximate: false };
+  }
+  return null;
+}
+
+// Placement implied by the anchor alone
+function relativePlacement(event: TimelineEvent, anchor: TimelinePlacement): TimelinePlacement {
+  const duration = event.durationYears ?? 1;
+  const approximate = anchor.approximate || event.offsetYears == null;
+  const offset = event.offsetYears ?? 0;
+
+  switch (event.relation) {
+    case "before": {
+      const end = anchor.start - offset + (event.offsetYears == null ? 0 : 1);
+      return { start: end - duration, end, approximate };
+    }
+    case "during": {
+      const start = anchor.start + offset;
+      return { start, end: start + duration, approximate };
+    }
+    default: {
+      const start = lastYear(anchor) + offset;
+      return { start, end: start + duration, approximate };
+    }
+  }
+}
+
+// Where the event's own years disagree with its relative placement, say how
+function checkOrdering(event: TimelineEvent, own: TimelinePlacement, anchorEvent: TimelineEvent, anchor: TimelinePlacement): string | undefined {
+  const ownFirst = Math.floor(own.start);
+  const ownLast = lastYear(own);
+  const offset = event.offsetYears;
+
+  switch (event.relation) {
+    case "before":
+      if (offset != null) {
+        const expected = anchor.start - offset;
+        if (Math.abs(ownLast - expected) > TOLERANCE_YEARS) {
+          return `"${event.title}" is dated ${formatSpan(own)}, but ${offset} years before "${anchorEvent.title}" (${formatSpan(anchor)}) is around ${expected}`;
+        }
+      } else if (ownLast > anchor.start) {
+        return `"${event.title}" (${formatSpan(own)}) is placed before "${anchorEvent.title}", which starts in ${Math.floor(anchor.start)}`;
+      }
+      return undefined;
+    case "during":
+      if (offset != null) {
+        const expected = anchor.start + offset;
+        if (Math.abs(ownFirst - expected) > TOLERANCE_YEARS) {
+          return `"${event.title}" is dated ${formatSpan(own)}, but ${offset} years into "${anchorEvent.title}" (${formatSpan(anchor)}) is around ${expected}`;
+        }
+      } else if (ownFirst < Math.floor(anchor.start) || ownFirst > lastYear(anchor)) {
+        return `"${event.title}" (${formatSpan(own)}) is placed during "${anchorEvent.title}" (${formatSpan(anchor)})`;
+      }
+      return undefined;
+    default:
+      if (offset != null) {
+        const expected = lastYear(anchor) + offset;
+        if (Math.abs(ownFirst - expected) > TOLERANCE_YEARS) {
+          return `"${event.title}" is dated ${formatSpan(own)}, but ${offset} years after "${anchorEvent.title}" (${formatSpan(anchor)}) is around ${expected}`;
+        }
+      } else if (ownFirst < lastYear(anchor)) {
+        return `"${event.title}" (${formatSpan(own)}) is placed after "${anchorEvent.title}", which ends in ${lastYear(anchor)}`;
+      }
+      return undefined;
+  }
+}
+
+function checkDates(event: TimelineEvent): string | undefined {
+  if (event.startYear != null && event.endYear != null) {
+    if (event.endYear < event.startYear) {
+      return `"${event.title}" ends in ${event.endYear}, before it starts in ${event.startYear}`;
+    }
+    const span = event.endYear + 1 - event.startYear;
+    if (event.durationYears != null && Math.abs(span - event.durationYears) > TOLERANCE_YEARS) {
+      return `"${event.title}" runs ${event.startYear}–${event.endYear} (${span} years) but is said to last ${event.durationYears} years`;
+    }
+  }
+  return undefined;
+}
+
+// Who the checks are about: a story bible entity when a participant name matches one,
+// otherwise the name itself
+interface Person {
+  key: string;
+  name: string;
+  entityId?: string;
+}
+
+function personResolver(entities: Entity[]): (name: string) => Person {
+  const byName = new Map<string, Entity>();
+  for (const entity of entities) {
+    for (const name of [entity.name, ...entity.aliases]) {
+      if (!byName.has(normalizeName(name))) byName.set(normalizeName(name), entity);
+    }
+  }
+  return (name: string) => {
+    const entity = byName.get(normalizeName(name));
+    return entity
+      ? { key: entity.id, name: entity.name, entityId: entity.id }
+      : { key: `name:${normalizeName(name)}`, name: name.trim() };
+  };
+}
+
+// Births, deaths and stated ages must agree with each other and with when each
+// person takes part in events
+function checkAges(
+  events: TimelineEvent[],
+  placements: Record<string, TimelinePlacement>,
+  resolvePerson: (name: string) => Person,
+): TimelineIssue[] {
+  const issues: TimelineIssue[] = [];
+  const people = new Map<string, { person: Person; events: Array<{ event: TimelineEvent; placement: TimelinePlacement; age?: number }> }>();
+
+  for (const event of events) {
+    const placement = placements[event.id];
+    if (!placement) continue;
+    const ages = new Map(Object.entries(event.ages ?? {}).map(([name, age]) => [resolvePerson(name).key, age]));
+    const names = Array.from(new Set([...event.participants, ...Object.keys(event.ages ?? {})]));
+    for (const name of names) {
+      const person = resolvePerson(name);
+      const entry = people.get(person.key) ?? { person, events: [] };
+      if (!entry.events.some(existing => existing.event.id === event.id)) {
+        entry.events.push({ event, placement, age: ages.get(person.key) });
+      }
+      people.set(person.key, entry);
+    }
+  }
+
+  for (const { person, events: involved } of Array.from(people.values())) {
+    const issue = (message: string, related: TimelineEvent[], approximate: boolean) => issues.push({
+      kind: "age",
+      severity: approximate ? "warning" : "error",
+      message,
+      eventIds: related.map(event => event.id),
+      entityId: person.entityId,
+    });
+
+    const births = involved.filter(({ event }) => event.kind === "birth");
+    const deaths = involved.filter(({ event }) => event.kind === "death");
+    const birth = births[0];
+    const death = deaths[0];
+
+    for (const other of births.slice(1)) {
+      if (Math.abs(Math.floor(other.placement.start) - Math.floor(birth.placement.start)) > TOLERANCE_YEARS) {
+        issue(
+          `${person.name} is born in both ${formatSpan(birth.placement)} ("${birth.event.title}") and ${formatSpan(other.placement)} ("${other.event.title}")`,
+          [birth.event, other.event],
+          birth.placement.approximate || other.placement.approximate,
+        );
+      }
+    }
+
+    // Each stated age implies a birth year; they must agree with the birth and with each other
+    const implied = involved
+      .filter(({ age }) => age !== undefined)
+      .map(entry => ({ ...entry, birthYear: Math.floor(entry.placement.start) - entry.age! }));
+    const reference = birth
+      ? { birthYear: Math.floor(birth.placement.start), event: birth.event, placement: birth.placement, label: `born in ${formatSpan(birth.placement)}` }
+      : implied[0] && { ...implied[0], label: `${implied[0].age} at "${implied[0].event.title}" (${formatSpan(implied[0].placement)})` };
+    for (const entry of implied) {
+      if (!reference || entry.event === reference.event) continue;
+      if (Math.abs(entry.birthYear - reference.birthYear) > TOLERANCE_YEARS) {
+        issue(
+          `${person.name} is ${entry.age} at "${entry.event.title}" (${formatSpan(entry.placement)}), which puts ${person.name}'s birth around ${entry.birthYear}, but is ${reference.label}`,
+          [reference.event, entry.event],
+          entry.placement.approximate || reference.placement.approximate,
+        );
+      }
+    }
+
+    const birthYear = birth ? Math.floor(birth.placement.start) : undefined;
+    const deathYear = death ? lastYear(death.placement) : undefined;
+
+    if (birth && death && deathYear! < birthYear!) {
+      issue(
+        `${person.name} dies in ${formatSpan(death.placement)}, before being born in ${formatSpan(birth.placement)}`,
+        [birth.event, death.event],
+        birth.placement.approximate || death.placement.approximate,
+      );
+    }
+
+    for (const { event, placement } of involved) {
+      if (event.kind === "birth" || event.kind === "death") continue;
+      if (birth && lastYear(placement) < birthYear!) {
+        issue(
+          `${person.name} takes part in "${event.title}" (${formatSpan(placement)}) before being born in ${formatSpan(birth.placement)}`,
+          [birth.event, event],
+          placement.approximate || birth.placement.approximate,
+        );
+      }
+      if (death && Math.floor(placement.start) > deathYear!) {
+        issue(
+          `${person.name} takes part in "${event.title}" (${formatSpan(placement)}) after dying in ${formatSpan(death.placement)}`,
+          [death.event, event],
+          placement.approximate || death.placement.approximate,
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Place every event on the year axis and report what cannot all be true: circular
+// relative placements, dates that disagree with their relative placement or with
+// themselves, and births, deaths and ages that do not fit together. Events with no
+// years and no placed anchor are left out of the placements.
+export function solveTimeline(events: TimelineEvent[], entities: Entity[] = []): SolvedTimeline {
+  const byId = new Map(events.map(event => [event.id, event]));
+  const placements: Record<string, TimelinePlacement> = {};
+  const issues: TimelineIssue[] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const reportedCycles = new Set<string>();
+
+  const place = (event: TimelineEvent): TimelinePlacement | undefined => {
+    if (state.get(event.id) === "done") return placements[event.id];
+    if (state.get(event.id) === "visiting") {
+      const cycle = stack.slice(stack.indexOf(event.id));
+      const key = cycle.slice().sort().join(",");
+      if (!reportedCycles.has(key)) {
+        reportedCycles.add(key);
+        issues.push({
+          kind: "cycle",
+          severity: "error",
+          message: `${cycle.map(id => `"${byId.get(id)!.title}"`).join(" → ")} → "${event.title}" are placed relative to each other in a circle`,
+          eventIds: cycle,
+        });
+      }
+      return undefined;
+    }
+
+    state.set(event.id, "visiting");
+    stack.push(event.id);
+
+    const own = absolutePlacement(event);
+    const anchorEvent = event.anchorEventId ? byId.get(event.anchorEventId) : undefined;
+    const anchor = anchorEvent && event.relation ? place(anchorEvent) : undefined;
+
+    if (own && anchor && anchorEvent) {
+      const conflict = checkOrdering(event, own, anchorEvent, anchor);
+      if (conflict) {
+        issues.push({
+          kind: "ordering",
+          severity: anchor.approximate ? "warning" : "error",
+          message: conflict,
+          eventIds: [event.id, anchorEvent.id],
+        });
+      }
+    }
+
+    stack.pop();
+    state.set(event.id, "done");
+    const placement = own ?? (anchor ? relativePlacement(event, anchor) : undefined);
+    if (placement) placements[event.id] = placement;
+    return placement;
+  };
+
+  for (const event of events) {
+    const problem = checkDates(event);
+    if (problem) {
+      issues.push({ kind: "dates", severity: "error", message: problem, eventIds: [event.id] });
+    }
+    place(event);
+  }
+
+  issues.push(...checkAges(events, placements, personResolver(entities)));
+  return { placements, issues };
+}
+
+// The anchor must be another event in the same project
+async function checkAnchor(projectId: string, id: string | undefined, eventData: InsertTimelineEvent): Promise<void> {
+  if (!eventData.anchorEventId) return;
+  if (eventData.anchorEventId === id) {
+    throw new Error("An event cannot be placed relative to itself");
+  }
+  const anchor = await storage.getTimelineEventById(eventData.anchorEventId);
+  if (!anchor || anchor.projectId !== projectId) {
+    throw new Error(`Event ${eventData.anchorEventId} not found`);
+  }
+}
+
+export async function createTimelineEvent(projectId: string, eventData: InsertTimelineEvent): Promise<TimelineEvent> {
+  await checkAnchor(projectId, undefined, eventData);
+  return storage.createTimelineEvent(projectId, eventData);
+}
+
+// Edited events are the writer's from then on and survive re-extraction of their source
+export async function updateTimelineEvent(projectId: string, id: string, eventData: InsertTimelineEvent): Promise<TimelineEvent | undefined> {
+  const existing = await storage.getTimelineEventById(id);
+  if (!existing || existing.projectId !== projectId) return undefined;
+
+  await checkAnchor(projectId, id, eventData);
+  return storage.updateTimelineEvent(id, {
+    description: null,
+    location: null,
+    when: null,
+    startYear: null,
+    endYear: null,
+    durationYears: null,
+    anchorEventId: null,
+    relation: null,
+    offsetYears: null,
+    ...eventData,
+    origin: "manual",
+  });
+}
+
+export async function deleteTimelineEvent(projectId: string, id: string): Promise<boolean> {
+  const existing = await storage.getTimelineEventById(id);
+  if (!existing || existing.projectId !== projectId) return false;
+  return storage.deleteTimelineEvent(id);
+}
+
+function eventTitle(event: ExtractionResult["events"][number]): string {
+  if (event.title) return event.title.slice(0, 200);
+  const sentence = event.description.split(/(?<=[.!?])\s/)[0];
+  return sentence.length > 80 ? `${sentence.slice(0, 77)}...` : sentence;
+}
+
+// Replace the events a document's previous extraction added with the ones just
+// extracted. Relative placements are resolved against the other events from the same
+// passage first, then against the rest of the project's timeline by title.
+export async function importExtractedEvents(projectId: string, sourceDocumentId: string, result: ExtractionResult): Promise<TimelineEvent[]> {
+  await storage.deleteExtractedTimelineEvents(sourceDocumentId);
+  const existing = await storage.getTimelineEvents(projectId);
+
+  const created: TimelineEvent[] = [];
+  for (const event of result.events) {
+    created.push(await storage.createTimelineEvent(projectId, {
+      kind: event.kind,
+      title: eventTitle(event),
+      description: event.description,
+      participants: event.participants,
+      location: event.location ?? null,
+      ages: event.ages,
+      when: event.when ?? null,
+      startYear: event.startYear ?? null,
+      endYear: event.endYear ?? null,
+      durationYears: event.durationYears ?? null,
+      origin: "extracted",
+      sourceDocumentId,
+    }));
+  }
+
+  const findAnchor = (title: string) =>
+    created.find(event => normalizeName(event.title) === normalizeName(title)) ??
+    existing.find(event => normalizeName(event.title) === normalizeName(title));
+
+  for (const [i, event] of Array.from(result.events.entries())) {
+    if (!event.relativeTo || !event.relation) continue;
+    const anchor = findAnchor(event.relativeTo);
+    if (!anchor || anchor.id === created[i].id) continue;
+    created[i] = (await storage.updateTimelineEvent(created[i].id, {
+      anchorEventId: anchor.id,
+      relation: event.relation,
+      offsetYears: event.offsetYears ?? null,
+    }))!;
+  }
+
+  return created;
+}
@@ -0,0 +1,424 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import session from "express-session";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+import { createTestDatabase, type TestDatabase } from "./test-database";
+
+// One suite, run against both backends, so MemStorage keeps behaving like the database
+// it stands in for: same defaults, ordering, cascades and errors.
+function storageContract(name: string, setup: { create(): Promise<IStorage>; teardown?(): Promise<void> }) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await setup.create();
+    });
+
+    if (setup.teardown) after(setup.teardown);
+
+    async function createProject(username = "writer") {
+      const user = await storage.createUser({ username, password: "hashed" });
+      return storage.createProject(user.id, { name: "Novel" });
+    }
+
+    async function createDocument(projectId: string, documentId = "chapter-1") {
+      return storage.createDocument(projectId, { content: "It was a dark night.", category: "chapters", documentId });
+    }
+
+    describe("users and projects", () => {
+      it("finds users by id and username", async () => {
+        const user = await storage.createUser({ username: "evie", password: "hashed" });
+        assert.equal((await storage.getUser(user.id))?.username, "evie");
+        assert.equal((await storage.getUserByUsername("evie"))?.id, user.id);
+        assert.equal(await storage.getUserByUsername("nobody"), undefined);
+      });
+
+      it("lists projects oldest first, optionally by owner", async () => {
+        const first = await createProject("first");
+        const second = await createProject("second");
+        assert.deepEqual((await storage.getProjects()).map(project => project.id), [first.id, second.id]);
+        assert.deepEqual((await storage.getProjects(second.ownerId)).map(project => project.id), [second.id]);
+        assert.equal(first.description, null);
+      });
+
+      it("updates projects and reports missing ones", async () => {
+        const project = await createProject();
+        const updated = await storage.updateProject(project.id, { name: "Sequel" });
+        assert.equal(updated?.name, "Sequel");
+        assert.equal(await storage.updateProject("00000000-0000-0000-0000-000000000000", { name: "x" }), undefined);
+      });
+
+      it("deletes everything a project owns", async () => {
+        const project = await createProject();
+        const document = await createDocument(project.id);
+        await storage.createDocumentChunks([{ parentId: document.id, chunkIndex: 0, content: "It was", startOffset: 0, endOffset: 6 }]);
+        await storage.createDocumentVersion({ parentId: document.id, version: 1, content: "Old", category: "chapters", documentId: "chapter-1" });
+        const [a, b] = [
+          await storage.createEntity(project.id, { type: "character", name: "A", aliases: [], fields: {} }),
+          await storage.createEntity(project.id, { type: "character", name: "B", aliases: [], fields: {} }),
+        ];
+        await storage.createEntityRelationship(project.id, { sourceId: a.id, targetId: b.id, type: "ally_of" });
+        await storage.createTimelineEvent(project.id, { kind: "event", title: "Flood", participants: [], ages: {} });
+        await storage.createPromptTemplate(project.id, { name: "Terse", userTemplate: "{query}", temperature: 0.2, maxTokens: 100 });
+        const query = await storage.createQuery(project.id, { query: "Who?" });
+        const conversation = await storage.createConversation(project.id, {});
+        await storage.createMessage({ conversationId: conversation.id, queryId: query.id, role: "user", content: "Who?" });
+        await storage.saveIndexSettings(project.id, { embeddingModel: "text-embedding-3-small", dimensions: 1536 });
+        await storage.createApiLog({ projectId: project.id, method: "GET", endpoint: "/api/documents", status: 200, duration: 0.1 });
+
+        assert.equal(await storage.deleteProject(project.id), true);
+        assert.equal(await storage.getProjectById(project.id), undefined);
+        assert.deepEqual(await storage.getDocuments(project.id), []);
+        assert.deepEqual(await storage.getDocumentChunks(document.id), []);
+        assert.deepEqual(await storage.getDocumentVersions(document.id), []);
+        assert.deepEqual(await storage.getEntities(project.id), []);
+        assert.deepEqual(await storage.getEntityRelationships(project.id), []);
+        assert.deepEqual(await storage.getTimelineEvents(project.id), []);
+        assert.deepEqual(await storage.getPromptTemplates(project.id), []);
+        assert.deepEqual(await storage.getQueries(project.id), []);
+        assert.deepEqual(await storage.getConversations(project.id), []);
+        assert.deepEqual(await storage.getMessages(conversation.id), []);
+        assert.equal(await storage.getIndexSettings(project.id), undefined);
+        assert.deepEqual(await storage.getApiLogs(project.id), []);
+        assert.equal(await storage.deleteProject(project.id), false);
+      });
+    });
+
+    describe("documents", () => {
+      it("creates documents at version 1 with no embedding", async () => {
+        const project = await createProject();
+        const document = await createDocument(project.id);
+        assert.equal(document.version, 1);
+        assert.equal(document.embedding, null);
+        assert.equal(document.metadata, null);
+        assert.deepEqual(await storage.getDocumentById(document.id), document);
+      });
+
+      it("keeps each project's documents apart", async () => {
+        const project = await createProject("one");
+        const other = await createProject("two");
+        await createDocument(project.id);
+        assert.equal((await storage.getDocuments(project.id)).length, 1);
+        assert.deepEqual(await storage.getDocuments(other.id), []);
+      });
+
+      it("updates documents and bumps updatedAt", async () => {
+        const project = await createProject();
+        const document = await createDocument(project.id);
+        const updated = await storage.updateDocument(document.id, { content: "Revised", version: 2 });
+        assert.equal(updated?.content, "Revised");
+        assert.equal(updated?.version, 2);
+        assert.ok(updated!.updatedAt!.getTime() >= document.updatedAt!.getTime());
+      });
+
+      it("lists versions newest first and finds one by number", async () => {
+        const project = await createProject();
+        const document = await createDocument(project.id);
+        for (const version of [1, 2, 3]) {
+          await storage.createDocumentVersion({ parentId: document.id, version, content: `v${version}`, category: "chapters", documentId: "chapter-1" });
+        }
+        assert.deepEqual((await storage.getDocumentVersions(document.id)).map(version => version.version), [3, 2, 1]);
+        assert.equal((await storage.getDocumentVersion(document.id, 2))?.content, "v2");
+        assert.equal(await storage.getDocumentVersion(document.id, 9), undefined);
+      });
+
+      it("stores chunks in order and updates their embeddings", async () => {
+        const project = await createProject();
+        const document = await createDocument(project.id);
+        assert.deepEqual(await storage.createDocumentChunks([]), []);
+        const chunks = await storage.createDocumentChunks([
+          { parentId: document.id, chunkIndex: 1, content: "dark night", startOffset: 10, endOffset: 20 },
+          { parentId: document.id, chunkIndex: 0, content: "It was a", startOffset: 0, endOffset: 8 },
+        ]);
+        assert.equal(chunks[0].embedding, null);
+        assert.deepEqual((await storage.getDocumentChunks(document.id)).map(chunk => chunk.chunkIndex), [0, 1]);
+
+        const updated = await storage.updateChunkEmbedding(chunks[0].id, { embedding: [0.5, 0.25], embeddingModel: "test-model" });
+        assert.deepEqual(updated?.embedding, [0.5, 0.25]);
+        assert.equal(updated?.embeddingModel, "test-model");
+
+        await storage.deleteDocumentChunks(document.id);
+        assert.deepEqual(await storage.getDocumentChunks(document.id), []);
+      });
+
+      it("removes a document's dependents and unlinks what refers to it", async () => {
+        const project = await createProject();
+        const document = await createDocument(project.id);
+        await storage.createDocumentChunks([{ parentId: document.id, chunkIndex: 0, content: "It was", startOffset: 0, endOffset: 6 }]);
+        await storage.createDocumentVersion({ parentId: document.id, version: 1, content: "Old", category: "chapters", documentId: "chapter-1" });
+        const entity = await storage.createEntity(project.id, { type: "character", name: "Evie", aliases: [], fields: {} });
+        const other = await storage.createEntity(project.id, { type: "character", name: "Keda", aliases: [], fields: {} });
+        await storage.updateEntity(entity.id, { profileDocumentId: document.id });
+        const relationship = await storage.createEntityRelationship(project.id, {
+          sourceId: entity.id, targetId: other.id, type: "ally_of", origin: "extracted", sourceDocumentId: document.id,
+        });
+        const event = await storage.createTimelineEvent(project.id, {
+          kind: "event", title: "Flood", participants: [], ages: {}, origin: "manual", sourceDocumentId: document.id,
+        });
+        const extraction = await storage.createDocumentExtraction(project.id, { sourceDocumentId: document.id, documentVersion: 1, model: "gpt-4o" });
+        await storage.createEntityCandidate(project.id, {
+          extractionId: extraction.id, sourceDocumentId: document.id, type: "character", name: "Mara", aliases: [], fields: {},
+        });
+
+        assert.equal(await storage.deleteDocument(document.id), true);
+        assert.equal(await storage.getDocumentById(document.id), undefined);
+        assert.deepEqual(await storage.getDocumentChunks(document.id), []);
+        assert.deepEqual(await storage.getDocumentVersions(document.id), []);
+        assert.deepEqual(await storage.getDocumentExtractions(document.id), []);
+        assert.deepEqual(await storage.getEntityCandidates(project.id), []);
+        assert.equal((await storage.getEntityById(entity.id))?.profileDocumentId, null);
+        assert.equal((await storage.getEntityRelationshipById(relationship.id))?.sourceDocumentId, null);
+        assert.equal((await storage.getTimelineEventById(event.id))?.sourceDocumentId, null);
+        assert.equal(await storage.deleteDocument(document.id), false);
+      });
+
+      it("clears only the given project's documents", async () => {
+        const project = await createProject("one");
+        const other = await createProject("two");
+        await createDocument(project.id, "a");
+        await createDocument(project.id, "b");
+        await createDocument(other.id, "c");
+        await storage.clearDocuments(project.id);
+        assert.deepEqual(await storage.getDocuments(project.id), []);
+        assert.equal((await storage.getDocuments(other.id)).length, 1);
+      });
+
+      it("keeps story bible profiles when clearing, but not when the project goes", async () => {
+        const project = await createProject();
+        await createDocument(project.id, "a");
+        await storage.createDocument(project.id, { content: "Notes", category: "notes", documentId: "b", metadata: { source: "upload" } });
+        const profile = await storage.createDocument(project.id, {
+          content: "# Evie",
+          category: "characters",
+          documentId: "character-evie",
+          metadata: { source: "story-bible" },
+        });
+        await storage.clearDocuments(project.id);
+        assert.deepEqual((await storage.getDocuments(project.id)).map(document => document.id), [profile.id]);
+
+        await storage.deleteProject(project.id);
+        assert.equal(await storage.getDocumentById(profile.id), undefined);
+      });
+    });
+
+    describe("story bible", () => {
+      it("lists entities by name and defaults optional fields", async () => {
+        const project = await createProject();
+        await storage.createEntity(project.id, { type: "character", name: "Keda", aliases: [], fields: {} });
+        const evie = await storage.createEntity(project.id, { type: "character", name: "Evie", aliases: ["Evelyn"], fields: { age: "30" } });
+        assert.equal(evie.summary, null);
+        assert.equal(evie.profileDocumentId, null);
+        assert.deepEqual(evie.aliases, ["Evelyn"]);
+        assert.deepEqual(evie.fields, { age: "30" });
+        assert.deepEqual((await storage.getEntities(project.id)).map(entity => entity.name), ["Evie", "Keda"]);
+      });
+
+      it("defaults relationship origin and finds them from either end", async () => {
+        const project = await createProject();
+        const a = await storage.createEntity(project.id, { type: "character", name: "A", aliases: [], fields: {} });
+        const b = await storage.createEntity(project.id, { type: "character", name: "B", aliases: [], fields: {} });
+        const relationship = await storage.createEntityRelationship(project.id, { sourceId: a.id, targetId: b.id, type: "mentor_of" });
+        assert.equal(relationship.origin, "manual");
+        assert.equal(relationship.description, null);
+        assert.equal(relationship.evidence, null);
+        assert.deepEqual((await storage.getRelationshipsForEntity(b.id)).map(r => r.id), [relationship.id]);
+        assert.equal(await storage.deleteEntityRelationship(relationship.id), true);
+        assert.equal(await storage.deleteEntityRelationship(relationship.id), false);
+      });
+
+      it("rejects a duplicate relationship with a readable error", async () => {
+        const project = await createProject();
+        const a = await storage.createEntity(project.id, { type: "character", name: "A", aliases: [], fields: {} });
+        const b = await storage.createEntity(project.id, { type: "character", name: "B", aliases: [], fields: {} });
+        await storage.createEntityRelationship(project.id, { sourceId: a.id, targetId: b.id, type: "mentor_of" });
+        await assert.rejects(
+          storage.createEntityRelationship(project.id, { sourceId: a.id, targetId: b.id, type: "mentor_of" }),
+          { message: "This relationship already exists" },
+        );
+        // The other direction of a directed type is a different relationship
+        await storage.createEntityRelationship(project.id, { sourceId: b.id, targetId: a.id, type: "mentor_of" });
+      });
+
+      it("rejects a symmetric relationship stated the other way round", async () => {
+        const project = await createProject();
+        const a = await storage.createEntity(project.id, { type: "character", name: "A", aliases: [], fields: {} });
+        const b = await storage.createEntity(project.id, { type: "character", name: "B", aliases: [], fields: {} });
+        await storage.createEntityRelationship(project.id, { sourceId: a.id, targetId: b.id, type: "spouse_of" });
+        await assert.rejects(
+          storage.createEntityRelationship(project.id, { sourceId: b.id, targetId: a.id, type: "spouse_of" }),
+          { message: "This relationship already exists" },
+        );
+      });
+
+      it("removes an entity's relationships and unlinks its candidates", async () => {
+        const project = await createProject();
+        const document = await createDocument(project.id);
+        const a = await storage.createEntity(project.id, { type: "character", name: "A", aliases: [], fields: {} });
+        const b = await storage.createEntity(project.id, { type: "character", name: "B", aliases: [], fields: {} });
+        await storage.createEntityRelationship(project.id, { sourceId: a.id, targetId: b.id, type: "ally_of" });
+        const extraction = await storage.createDocumentExtraction(project.id, { sourceDocumentId: document.id, documentVersion: 1, model: "gpt-4o" });
+        const candidate = await storage.createEntityCandidate(project.id, {
+          extractionId: extraction.id, sourceDocumentId: document.id, type: "character", name: "A", aliases: [], fields: {}, entityId: a.id,
+        });
+
+        assert.equal(await storage.deleteEntity(a.id), true);
+        assert.deepEqual(await storage.getRelationshipsForEntity(b.id), []);
+        assert.equal((await storage.getEntityCandidateById(candidate.id))?.entityId, null);
+        assert.equal(await storage.deleteEntity(a.id), false);
+      });
+
+      it("tracks extractions newest first and drops only pending candidates", async () => {
+        const project = await createProject();
+        const document = await createDocument(project.id);
+        const first = await storage.createDocumentExtraction(project.id, { sourceDocumentId: document.id, documentVersion: 1, model: "gpt-4o" });
+        assert.equal(first.status, "pending");
+        assert.equal(first.result, null);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const second = await storage.createDocumentExtraction(project.id, { sourceDocumentId: document.id, documentVersion: 2, model: "gpt-4o" });
+        assert.deepEqual((await storage.getDocumentExtractions(document.id)).map(extraction => extraction.id), [second.id, first.id]);
+        assert.equal((await storage.updateDocumentExtraction(first.id, { status: "completed" }))?.status, "completed");
+
+        const pending = await storage.createEntityCandidate(project.id, {
+          extractionId: second.id, sourceDocumentId: document.id, type: "character", name: "Mara", aliases: [], fields: {},
+        });
+        const accepted = await storage.createEntityCandidate(project.id, {
+          extractionId: second.id, sourceDocumentId: document.id, type: "character", name: "Keda", aliases: [], fields: {},
+        });
+        assert.equal(pending.status, "pending");
+        await storage.updateEntityCandidate(accepted.id, { status: "accepted", resolvedAt: new Date() });
+        await storage.deletePendingEntityCandidates(document.id);
+        assert.deepEqual((await storage.getEntityCandidates(project.id)).map(candidate => candidate.id), [accepted.id]);
+      });
+    });
+
+    describe("timeline", () => {
+      it("defaults events and clears relative placements when the anchor goes", async () => {
+        const project = await createProject();
+        const anchor = await storage.createTimelineEvent(project.id, { kind: "birth", title: "Evie is born", participants: ["Evie"], ages: {}, startYear: 1990 });
+        assert.equal(anchor.origin, "manual");
+        assert.equal(anchor.endYear, null);
+        const relative = await storage.createTimelineEvent(project.id, {
+          kind: "event", title: "Leaves home", participants: ["Evie"], ages: { Evie: 18 }, anchorEventId: anchor.id, relation: "after", offsetYears: 18,
+        });
+
+        assert.equal(await storage.deleteTimelineEvent(anchor.id), true);
+        const cleared = await storage.getTimelineEventById(relative.id);
+        assert.equal(cleared?.anchorEventId, null);
+        assert.equal(cleared?.relation, null);
+        assert.equal(cleared?.offsetYears, null);
+        assert.deepEqual(cleared?.ages, { Evie: 18 });
+      });
+
+      it("drops a document's extracted events but keeps edited ones", async () => {
+        const project = await createProject();
+        const document = await createDocument(project.id);
+        await storage.createTimelineEvent(project.id, { kind: "event", title: "Extracted", participants: [], ages: {}, origin: "extracted", sourceDocumentId: document.id });
+        const edited = await storage.createTimelineEvent(project.id, { kind: "event", title: "Edited", participants: [], ages: {}, origin: "manual", sourceDocumentId: document.id });
+        await storage.deleteExtractedTimelineEvents(document.id);
+        assert.deepEqual((await storage.getTimelineEvents(project.id)).map(event => event.id), [edited.id]);
+      });
+    });
+
+    describe("prompt templates", () => {
+      it("lists templates by name and defaults optional fields", async () => {
+        const project = await createProject();
+        await storage.createPromptTemplate(project.id, { name: "Verbose", userTemplate: "{query}", temperature: 0.9, maxTokens: 2000 });
+        const terse = await storage.createPromptTemplate(project.id, { name: "Terse", userTemplate: "{query}", temperature: 0.2, maxTokens: 100 });
+        assert.equal(terse.systemMessage, null);
+        assert.equal(terse.topP, null);
+        assert.deepEqual((await storage.getPromptTemplates(project.id)).map(template => template.name), ["Terse", "Verbose"]);
+        assert.equal((await storage.updatePromptTemplate(terse.id, { maxTokens: 50 }))?.maxTokens, 50);
+        assert.equal(await storage.deletePromptTemplate(terse.id), true);
+        assert.equal(await storage.getPromptTemplateById(terse.id), undefined);
+      });
+
+      it("rejects duplicate names within a project with a readable error", async () => {
+        const project = await createProject("one");
+        const other = await createProject("two");
+        await storage.createPromptTemplate(project.id, { name: "Terse", userTemplate: "{query}", temperature: 0.2, maxTokens: 100 });
+        await storage.createPromptTemplate(other.id, { name: "Terse", userTemplate: "{query}", temperature: 0.2, maxTokens: 100 });
+        await assert.rejects(
+          storage.createPromptTemplate(project.id, { name: "Terse", userTemplate: "{query}", temperature: 0.5, maxTokens: 100 }),
+          { message: "A prompt template named Terse already exists" },
+        );
+        const verbose = await storage.createPromptTemplate(project.id, { name: "Verbose", userTemplate: "{query}", temperature: 0.9, maxTokens: 100 });
+        await assert.rejects(
+          storage.updatePromptTemplate(verbose.id, { name: "Terse" }),
+          { message: "A prompt template named Terse already exists" },
+        );
+      });
+    });
+
+    describe("queries and conversations", () => {
+      it("creates queries with empty results and fills them in", async () => {
+        const project = await createProject();
+        const query = await storage.createQuery(project.id, { query: "Who is Evie?" });
+        assert.equal(query.response, null);
+        assert.equal(query.tokensUsed, null);
+        const updated = await storage.updateQuery(query.id, { response: "A pilot.", tokensUsed: 12, similarityScores: [0.9] });
+        assert.equal(updated?.response, "A pilot.");
+        assert.deepEqual(updated?.similarityScores, [0.9]);
+        assert.equal((await storage.getQueries(project.id)).length, 1);
+      });
+
+      it("orders messages oldest first and conversations by latest activity", async () => {
+        const project = await createProject();
+        const older = await storage.createConversation(project.id, { title: "Older" });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const newer = await storage.createConversation(project.id, {});
+        assert.equal(newer.title, null);
+        assert.deepEqual((await storage.getConversations(project.id)).map(conversation => conversation.id), [newer.id, older.id]);
+
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const first = await storage.createMessage({ conversationId: older.id, role: "user", content: "Hi" });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await storage.createMessage({ conversationId: older.id, role: "assistant", content: "Hello" });
+        assert.equal(first.queryId, null);
+        assert.deepEqual((await storage.getMessages(older.id)).map(message => message.content), ["Hi", "Hello"]);
+        // A new message moves its conversation to the top
+        assert.deepEqual((await storage.getConversations(project.id)).map(conversation => conversation.id), [older.id, newer.id]);
+      });
+    });
+
+    describe("index settings and logs", () => {
+      it("saves and replaces a project's index settings", async () => {
+        const project = await createProject();
+        assert.equal(await storage.getIndexSettings(project.id), undefined);
+        await storage.saveIndexSettings(project.id, { embeddingModel: "text-embedding-3-small", dimensions: 1536 });
+        const saved = await storage.saveIndexSettings(project.id, { embeddingModel: "text-embedding-ada-002", dimensions: 1536 });
+        assert.equal(saved.id, project.id);
+        assert.equal((await storage.getIndexSettings(project.id))?.embeddingModel, "text-embedding-ada-002");
+      });
+
+      it("lists a project's logs newest first and clears them", async () => {
+        const project = await createProject();
+        await storage.createApiLog({ projectId: project.id, method: "GET", endpoint: "/first", status: 200, duration: 0.1 });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await storage.createApiLog({ projectId: project.id, method: "GET", endpoint: "/second", status: 200, duration: 0.1 });
+        await storage.createApiLog({ projectId: null, method: "GET", endpoint: "/outside", status: 200, duration: 0.1 });
+        assert.deepEqual((await storage.getApiLogs(project.id)).map(log => log.endpoint), ["/second", "/first"]);
+        await storage.clearApiLogs(project.id);
+        assert.deepEqual(await storage.getApiLogs(project.id), []);
+      });
+    });
+  });
+}
+
+storageContract("MemStorage", {
+  create: async () => new MemStorage(),
+});
+
+let database: TestDatabase | undefined;
+before(async () => {
+  database = await createTestDatabase();
+});
+
+storageContract("DatabaseStorage", {
+  create: async () => {
+    await database!.reset();
+    return new DatabaseStorage(database!.db, new session.MemoryStore());
+  },
+  teardown: async () => {
+    await database?.close();
+  },
+});
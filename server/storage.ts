@@ -1,36 +1,155 @@
-import { type User, type InsertUser, type Document, type InsertDocument, type Query, type InsertQuery, type ApiLog } from "@shared/schema";
+import { type User, type InsertUser, type Project, type InsertProject, type Document, type InsertDocument, type DocumentChunk, type InsertDocumentChunk, type Entity, type InsertEntity, type EntityRelationship, type InsertEntityRelationship, type DocumentExtraction, type InsertDocumentExtraction, type EntityCandidate, type InsertEntityCandidate, type TimelineEvent, type InsertTimelineEvent, type PromptTemplate, type InsertPromptTemplate, type DocumentVersion, type InsertDocumentVersion, type Query, type InsertQuery, type Conversation, type InsertConversation, type Message, type InsertMessage, type IndexSettings, type ApiLog, ENTITY_PROFILE_SOURCE, isEntityProfile, sameRelationship, users, projects, documents, documentChunks, documentVersions, entities, entityRelationships, documentExtractions, entityCandidates, timelineEvents, promptTemplates, queries, conversations, messages, indexSettings, apiLogs } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, or, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { getDatabase, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+export type ChunkEmbedding = Pick<DocumentChunk, 'embedding' | 'embeddingModel'>;
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  createProject(ownerId: string, project: InsertProject): Promise<Project>;
+  // All projects when no owner is given, oldest first
+  getProjects(ownerId?: string): Promise<Project[]>;
+  getProjectById(id: string): Promise<Project | undefined>;
+  updateProject(id: string, updates: Partial<InsertProject>): Promise<Project | undefined>;
+  // Removes everything the project owns: documents, queries, conversations, prompt templates, logs and index settings
+  deleteProject(id: string): Promise<boolean>;
   
-  createDocument(document: InsertDocument): Promise<Document>;
-  getDocuments(): Promise<Document[]>;
+  createDocument(projectId: string, document: InsertDocument): Promise<Document>;
+  getDocuments(projectId: string): Promise<Document[]>;
   getDocumentById(id: string): Promise<Document | undefined>;
-  clearDocuments(): Promise<void>;
+  updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined>;
+  deleteDocument(id: string): Promise<boolean>;
+  // Keeps story bible profiles, which go with their entities
+  clearDocuments(projectId: string): Promise<void>;
+
+  createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion>;
+  getDocumentVersions(parentId: string): Promise<DocumentVersion[]>;
+  getDocumentVersion(parentId: string, version: number): Promise<DocumentVersion | undefined>;
+
+  createDocumentChunks(chunks: InsertDocumentChunk[]): Promise<DocumentChunk[]>;
+  getDocumentChunks(parentId: string): Promise<DocumentChunk[]>;
+  updateChunkEmbedding(id: string, embedding: ChunkEmbedding): Promise<DocumentChunk | undefined>;
+  deleteDocumentChunks(parentId: string): Promise<void>;
+
+  createEntity(projectId: string, entity: InsertEntity): Promise<Entity>;
+  getEntities(projectId: string): Promise<Entity[]>;
+  getEntityById(id: string): Promise<Entity | undefined>;
+  updateEntity(id: string, updates: Partial<Entity>): Promise<Entity | undefined>;
+  // Also removes the entity's relationships
+  deleteEntity(id: string): Promise<boolean>;
+
+  createEntityRelationship(
+    projectId: string,
+    relationship: InsertEntityRelationship & Partial<Pick<EntityRelationship, "origin" | "sourceDocumentId" | "evidence">>,
+  ): Promise<EntityRelationship>;
+  getEntityRelationships(projectId: string): Promise<EntityRelationship[]>;
+  // Relationships where the entity is the source or the target
+  getRelationshipsForEntity(entityId: string): Promise<EntityRelationship[]>;
+  getEntityRelationshipById(id: string): Promise<EntityRelationship | undefined>;
+  deleteEntityRelationship(id: string): Promise<boolean>;
+
+  createDocumentExtraction(projectId: string, extraction: InsertDocumentExtraction): Promise<DocumentExtraction>;
+  // Newest first
+  getDocumentExtractions(sourceDocumentId: string): Promise<DocumentExtraction[]>;
+  updateDocumentExtraction(id: string, updates: Partial<DocumentExtraction>): Promise<DocumentExtraction | undefined>;
+
+  createEntityCandidate(projectId: string, candidate: InsertEntityCandidate): Promise<EntityCandidate>;
+  // Newest first
+  getEntityCandidates(projectId: string): Promise<EntityCandidate[]>;
+  getEntityCandidateById(id: string): Promise<EntityCandidate | undefined>;
+  updateEntityCandidate(id: string, updates: Partial<EntityCandidate>): Promise<EntityCandidate | undefined>;
+  // Drops the candidates of a document that are still waiting for review
+  deletePendingEntityCandidates(sourceDocumentId: string): Promise<void>;
+
+  createTimelineEvent(
+    projectId: string,
+    event: InsertTimelineEvent & Partial<Pick<TimelineEvent, "origin" | "sourceDocumentId">>,
+  ): Promise<TimelineEvent>;
+  getTimelineEvents(projectId: string): Promise<TimelineEvent[]>;
+  getTimelineEventById(id: string): Promise<TimelineEvent | undefined>;
+  updateTimelineEvent(id: string, updates: Partial<TimelineEvent>): Promise<TimelineEvent | undefined>;
+  // Events anchored to a deleted event lose their relative placement
+  deleteTimelineEvent(id: string): Promise<boolean>;
+  // Drops the events a document's previous extraction added that nobody has edited since
+  deleteExtractedTimelineEvents(sourceDocumentId: string): Promise<void>;
+
+  createPromptTemplate(projectId: string, template: InsertPromptTemplate): Promise<PromptTemplate>;
+  // Sorted by name
+  getPromptTemplates(projectId: string): Promise<PromptTemplate[]>;
+  getPromptTemplateById(id: string): Promise<PromptTemplate | undefined>;
+  updatePromptTemplate(id: string, updates: Partial<InsertPromptTemplate>): Promise<PromptTemplate | undefined>;
+  deletePromptTemplate(id: string): Promise<boolean>;
   
-  createQuery(query: InsertQuery): Promise<Query>;
-  getQueries(): Promise<Query[]>;
+  createQuery(projectId: string, query: InsertQuery): Promise<Query>;
+  getQueries(projectId: string): Promise<Query[]>;
   updateQuery(id: string, updates: Partial<Query>): Promise<Query | undefined>;
+
+  createConversation(projectId: string, conversation: InsertConversation): Promise<Conversation>;
+  getConversations(projectId: string): Promise<Conversation[]>;
+  getConversationById(id: string): Promise<Conversation | undefined>;
+  updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation | undefined>;
+
+  createMessage(message: InsertMessage): Promise<Message>;
+  getMessages(conversationId: string): Promise<Message[]>;
+  
+  getIndexSettings(projectId: string): Promise<IndexSettings | undefined>;
+  saveIndexSettings(projectId: string, settings: Pick<IndexSettings, 'embeddingModel' | 'dimensions'>): Promise<IndexSettings>;
   
   createApiLog(log: Omit<ApiLog, 'id' | 'timestamp'>): Promise<ApiLog>;
-  getApiLogs(): Promise<ApiLog[]>;
-  clearApiLogs(): Promise<void>;
+  getApiLogs(projectId: string): Promise<ApiLog[]>;
+  clearApiLogs(projectId: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<string, User>;
+  private projects: Map<string, Project>;
   private documents: Map<string, Document>;
+  private documentChunks: Map<string, DocumentChunk>;
+  private documentVersions: Map<string, DocumentVersion>;
+  private entities: Map<string, Entity>;
+  private entityRelationships: Map<string, EntityRelationship>;
+  private documentExtractions: Map<string, DocumentExtraction>;
+  private entityCandidates: Map<string, EntityCandidate>;
+  private timelineEvents: Map<string, TimelineEvent>;
+  private promptTemplates: Map<string, PromptTemplate>;
   private queries: Map<string, Query>;
+  private conversations: Map<string, Conversation>;
+  private messages: Map<string, Message>;
+  private indexSettings: Map<string, IndexSettings>;
   private apiLogs: Map<string, ApiLog>;
 
   constructor() {
     this.users = new Map();
+    this.projects = new Map();
     this.documents = new Map();
+    this.documentChunks = new Map();
+    this.documentVersions = new Map();
+    this.entities = new Map();
+    this.entityRelationships = new Map();
+    this.documentExtractions = new Map();
+    this.entityCandidates = new Map();
+    this.timelineEvents = new Map();
+    this.promptTemplates = new Map();
     this.queries = new Map();
+    this.conversations = new Map();
+    this.messages = new Map();
+    this.indexSettings = new Map();
     this.apiLogs = new Map();
+    // Prune expired sessions once a day
+    this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -50,36 +169,473 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+  async createProject(ownerId: string, insertProject: InsertProject): Promise<Project> {
+    const id = randomUUID();
+    const project: Project = {
+      ...insertProject,
+      id,
+      ownerId,
+      description: insertProject.description ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async getProjects(ownerId?: string): Promise<Project[]> {
+    return Array.from(this.projects.values())
+      .filter((project) => ownerId === undefined || project.ownerId === ownerId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async getProjectById(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async updateProject(id: string, updates: Partial<InsertProject>): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    if (!project) return undefined;
+
+    const updatedProject = { ...project, ...updates, updatedAt: new Date() };
+    this.projects.set(id, updatedProject);
+    return updatedProject;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    for (const document of await this.getDocuments(id)) {
+      await this.deleteDocument(document.id);
+    }
+    for (const conversation of Array.from(this.conversations.values())) {
+      if (conversation.projectId !== id) continue;
+      for (const message of Array.from(this.messages.values())) {
+        if (message.conversationId === conversation.id) this.messages.delete(message.id);
+      }
+      this.conversations.delete(conversation.id);
+    }
+    for (const query of Array.from(this.queries.values())) {
+      if (query.projectId === id) this.queries.delete(query.id);
+    }
+    for (const entity of Array.from(this.entities.values())) {
+      if (entity.projectId === id) await this.deleteEntity(entity.id);
+    }
+    for (const event of Array.from(this.timelineEvents.values())) {
+      if (event.projectId === id) this.timelineEvents.delete(event.id);
+    }
+    for (const template of Array.from(this.promptTemplates.values())) {
+      if (template.projectId === id) this.promptTemplates.delete(template.id);
+    }
+    await this.clearApiLogs(id);
+    this.indexSettings.delete(id);
+    return this.projects.delete(id);
+  }
+
+  async createDocument(projectId: string, insertDocument: InsertDocument): Promise<Document> {
     const id = randomUUID();
     const document: Document = {
       ...insertDocument,
       id,
+      projectId,
       embedding: null,
+      version: 1,
       createdAt: new Date(),
+      updatedAt: new Date(),
       metadata: insertDocument.metadata || null,
     };
     this.documents.set(id, document);
     return document;
   }
 
-  async getDocuments(): Promise<Document[]> {
-    return Array.from(this.documents.values());
+  async getDocuments(projectId: string): Promise<Document[]> {
+    return Array.from(this.documents.values()).filter((document) => document.projectId === projectId);
   }
 
   async getDocumentById(id: string): Promise<Document | undefined> {
     return this.documents.get(id);
   }
 
-  async clearDocuments(): Promise<void> {
-    this.documents.clear();
+  async updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined> {
+    const document = this.documents.get(id);
+    if (!document) return undefined;
+
+    const updatedDocument = { ...document, ...updates, updatedAt: new Date() };
+    this.documents.set(id, updatedDocument);
+    return updatedDocument;
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    await this.deleteDocumentChunks(id);
+    for (const version of Array.from(this.documentVersions.values())) {
+      if (version.parentId === id) this.documentVersions.delete(version.id);
+    }
+    for (const entity of Array.from(this.entities.values())) {
+      if (entity.profileDocumentId === id) this.entities.set(entity.id, { ...entity, profileDocumentId: null });
+    }
+    for (const extraction of Array.from(this.documentExtractions.values())) {
+      if (extraction.sourceDocumentId === id) this.documentExtractions.delete(extraction.id);
+    }
+    for (const candidate of Array.from(this.entityCandidates.values())) {
+      if (candidate.sourceDocumentId === id) this.entityCandidates.delete(candidate.id);
+    }
+    for (const event of Array.from(this.timelineEvents.values())) {
+      if (event.sourceDocumentId === id) this.timelineEvents.set(event.id, { ...event, sourceDocumentId: null });
+    }
+    for (const relationship of Array.from(this.entityRelationships.values())) {
+      if (relationship.sourceDocumentId === id) this.entityRelationships.set(relationship.id, { ...relationship, sourceDocumentId: null });
+    }
+    return this.documents.delete(id);
+  }
+
+  async clearDocuments(projectId: string): Promise<void> {
+    for (const document of await this.getDocuments(projectId)) {
+      if (!isEntityProfile(document)) await this.deleteDocument(document.id);
+    }
+  }
+
+  async createDocumentVersion(insertVersion: InsertDocumentVersion): Promise<DocumentVersion> {
+    const id = randomUUID();
+    const version: DocumentVersion = {
+      ...insertVersion,
+      id,
+      metadata: insertVersion.metadata ?? null,
+      createdAt: new Date(),
+    };
+    this.documentVersions.set(id, version);
+    return version;
+  }
+
+  async getDocumentVersions(parentId: string): Promise<DocumentVersion[]> {
+    return Array.from(this.documentVersions.values())
+      .filter((version) => version.parentId === parentId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getDocumentVersion(parentId: string, version: number): Promise<DocumentVersion | undefined> {
+    return Array.from(this.documentVersions.values()).find(
+      (documentVersion) => documentVersion.parentId === parentId && documentVersion.version === version,
+    );
   }
 
-  async createQuery(insertQuery: InsertQuery): Promise<Query> {
+  async createDocumentChunks(insertChunks: InsertDocumentChunk[]): Promise<DocumentChunk[]> {
+    return insertChunks.map((insertChunk) => {
+      const id = randomUUID();
+      const chunk: DocumentChunk = {
+        ...insertChunk,
+        id,
+        embedding: insertChunk.embedding ?? null,
+        embeddingModel: insertChunk.embeddingModel ?? null,
+        createdAt: new Date(),
+      };
+      this.documentChunks.set(id, chunk);
+      return chunk;
+    });
+  }
+
+  async getDocumentChunks(parentId: string): Promise<DocumentChunk[]> {
+    return Array.from(this.documentChunks.values())
+      .filter((chunk) => chunk.parentId === parentId)
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  async updateChunkEmbedding(id: string, embedding: ChunkEmbedding): Promise<DocumentChunk | undefined> {
+    const chunk = this.documentChunks.get(id);
+    if (!chunk) return undefined;
+
+    const updatedChunk = { ...chunk, ...embedding };
+    this.documentChunks.set(id, updatedChunk);
+    return updatedChunk;
+  }
+
+  async deleteDocumentChunks(parentId: string): Promise<void> {
+    for (const chunk of Array.from(this.documentChunks.values())) {
+      if (chunk.parentId === parentId) this.documentChunks.delete(chunk.id);
+    }
+  }
+
+  async createEntity(projectId: string, insertEntity: InsertEntity): Promise<Entity> {
+    const id = randomUUID();
+    const entity: Entity = {
+      ...insertEntity,
+      id,
+      projectId,
+      summary: insertEntity.summary ?? null,
+      profileDocumentId: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.entities.set(id, entity);
+    return entity;
+  }
+
+  async getEntities(projectId: string): Promise<Entity[]> {
+    return Array.from(this.entities.values())
+      .filter((entity) => entity.projectId === projectId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getEntityById(id: string): Promise<Entity | undefined> {
+    return this.entities.get(id);
+  }
+
+  async updateEntity(id: string, updates: Partial<Entity>): Promise<Entity | undefined> {
+    const entity = this.entities.get(id);
+    if (!entity) return undefined;
+
+    const updatedEntity = { ...entity, ...updates, updatedAt: new Date() };
+    this.entities.set(id, updatedEntity);
+    return updatedEntity;
+  }
+
+  async deleteEntity(id: string): Promise<boolean> {
+    for (const relationship of await this.getRelationshipsForEntity(id)) {
+      this.entityRelationships.delete(relationship.id);
+    }
+    for (const candidate of Array.from(this.entityCandidates.values())) {
+      if (candidate.entityId === id) this.entityCandidates.set(candidate.id, { ...candidate, entityId: null });
+    }
+    return this.entities.delete(id);
+  }
+
+  async createEntityRelationship(
+    projectId: string,
+    insertRelationship: InsertEntityRelationship & Partial<Pick<EntityRelationship, "origin" | "sourceDocumentId" | "evidence">>,
+  ): Promise<EntityRelationship> {
+    const duplicate = Array.from(this.entityRelationships.values()).some((relationship) =>
+      sameRelationship(relationship, insertRelationship)
+    );
+    if (duplicate) {
+      throw new Error("This relationship already exists");
+    }
+
+    const id = randomUUID();
+    const relationship: EntityRelationship = {
+      ...insertRelationship,
+      id,
+      projectId,
+      description: insertRelationship.description ?? null,
+      origin: insertRelationship.origin ?? "manual",
+      sourceDocumentId: insertRelationship.sourceDocumentId ?? null,
+      evidence: insertRelationship.evidence ?? null,
+      createdAt: new Date(),
+    };
+    this.entityRelationships.set(id, relationship);
+    return relationship;
+  }
+
+  async getEntityRelationships(projectId: string): Promise<EntityRelationship[]> {
+    return Array.from(this.entityRelationships.values()).filter((relationship) => relationship.projectId === projectId);
+  }
+
+  async getRelationshipsForEntity(entityId: string): Promise<EntityRelationship[]> {
+    return Array.from(this.entityRelationships.values()).filter(
+      (relationship) => relationship.sourceId === entityId || relationship.targetId === entityId,
+    );
+  }
+
+  async getEntityRelationshipById(id: string): Promise<EntityRelationship | undefined> {
+    return this.entityRelationships.get(id);
+  }
+
+  async deleteEntityRelationship(id: string): Promise<boolean> {
+    return this.entityRelationships.delete(id);
+  }
+
+  async createDocumentExtraction(projectId: string, insertExtraction: InsertDocumentExtraction): Promise<DocumentExtraction> {
+    const id = randomUUID();
+    const extraction: DocumentExtraction = {
+      ...insertExtraction,
+      id,
+      projectId,
+      status: "pending",
+      result: null,
+      error: null,
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    this.documentExtractions.set(id, extraction);
+    return extraction;
+  }
+
+  async getDocumentExtractions(sourceDocumentId: string): Promise<DocumentExtraction[]> {
+    return Array.from(this.documentExtractions.values())
+      .filter((extraction) => extraction.sourceDocumentId === sourceDocumentId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async updateDocumentExtraction(id: string, updates: Partial<DocumentExtraction>): Promise<DocumentExtraction | undefined> {
+    const extraction = this.documentExtractions.get(id);
+    if (!extraction) return undefined;
+
+    const updatedExtraction = { ...extraction, ...updates };
+    this.documentExtractions.set(id, updatedExtraction);
+    return updatedExtraction;
+  }
+
+  async createEntityCandidate(projectId: string, insertCandidate: InsertEntityCandidate): Promise<EntityCandidate> {
+    const id = randomUUID();
+    const candidate: EntityCandidate = {
+      ...insertCandidate,
+      id,
+      projectId,
+      summary: insertCandidate.summary ?? null,
+      evidence: insertCandidate.evidence ?? null,
+      entityId: insertCandidate.entityId ?? null,
+      status: "pending",
+      createdAt: new Date(),
+      resolvedAt: null,
+    };
+    this.entityCandidates.set(id, candidate);
+    return candidate;
+  }
+
+  async getEntityCandidates(projectId: string): Promise<EntityCandidate[]> {
+    return Array.from(this.entityCandidates.values())
+      .filter((candidate) => candidate.projectId === projectId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getEntityCandidateById(id: string): Promise<EntityCandidate | undefined> {
+    return this.entityCandidates.get(id);
+  }
+
+  async updateEntityCandidate(id: string, updates: Partial<EntityCandidate>): Promise<EntityCandidate | undefined> {
+    const candidate = this.entityCandidates.get(id);
+    if (!candidate) return undefined;
+
+    const updatedCandidate = { ...candidate, ...updates };
+    this.entityCandidates.set(id, updatedCandidate);
+    return updatedCandidate;
+  }
+
+  async deletePendingEntityCandidates(sourceDocumentId: string): Promise<void> {
+    for (const candidate of Array.from(this.entityCandidates.values())) {
+      if (candidate.sourceDocumentId === sourceDocumentId && candidate.status === "pending") {
+        this.entityCandidates.delete(candidate.id);
+      }
+    }
+  }
+
+  async createTimelineEvent(
+    projectId: string,
+    insertEvent: InsertTimelineEvent & Partial<Pick<TimelineEvent, "origin" | "sourceDocumentId">>,
+  ): Promise<TimelineEvent> {
+    const id = randomUUID();
+    const event: TimelineEvent = {
+      ...insertEvent,
+      id,
+      projectId,
+      description: insertEvent.description ?? null,
+      location: insertEvent.location ?? null,
+      when: insertEvent.when ?? null,
+      startYear: insertEvent.startYear ?? null,
+      endYear: insertEvent.endYear ?? null,
+      durationYears: insertEvent.durationYears ?? null,
+      anchorEventId: insertEvent.anchorEventId ?? null,
+      relation: insertEvent.relation ?? null,
+      offsetYears: insertEvent.offsetYears ?? null,
+      origin: insertEvent.origin ?? "manual",
+      sourceDocumentId: insertEvent.sourceDocumentId ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.timelineEvents.set(id, event);
+    return event;
+  }
+
+  async getTimelineEvents(projectId: string): Promise<TimelineEvent[]> {
+    return Array.from(this.timelineEvents.values()).filter((event) => event.projectId === projectId);
+  }
+
+  async getTimelineEventById(id: string): Promise<TimelineEvent | undefined> {
+    return this.timelineEvents.get(id);
+  }
+
+  async updateTimelineEvent(id: string, updates: Partial<TimelineEvent>): Promise<TimelineEvent | undefined> {
+    const event = this.timelineEvents.get(id);
+    if (!event) return undefined;
+
+    const updatedEvent = { ...event, ...updates, updatedAt: new Date() };
+    this.timelineEvents.set(id, updatedEvent);
+    return updatedEvent;
+  }
+
+  async deleteTimelineEvent(id: string): Promise<boolean> {
+    for (const event of Array.from(this.timelineEvents.values())) {
+      if (event.anchorEventId === id) this.timelineEvents.set(event.id, { ...event, anchorEventId: null, relation: null, offsetYears: null });
+    }
+    return this.timelineEvents.delete(id);
+  }
+
+  async deleteExtractedTimelineEvents(sourceDocumentId: string): Promise<void> {
+    for (const event of Array.from(this.timelineEvents.values())) {
+      if (event.sourceDocumentId === sourceDocumentId && event.origin === "extracted") {
+        await this.deleteTimelineEvent(event.id);
+      }
+    }
+  }
+
+  async createPromptTemplate(projectId: string, insertTemplate: InsertPromptTemplate): Promise<PromptTemplate> {
+    const duplicate = Array.from(this.promptTemplates.values()).some((template) =>
+      template.projectId === projectId && template.name === insertTemplate.name
+    );
+    if (duplicate) {
+      throw new Error(`A prompt template named ${insertTemplate.name} already exists`);
+    }
+
+    const id = randomUUID();
+    const template: PromptTemplate = {
+      ...insertTemplate,
+      id,
+      projectId,
+      description: insertTemplate.description ?? null,
+      systemMessage: insertTemplate.systemMessage ?? null,
+      temperature: insertTemplate.temperature ?? 0.7,
+      maxTokens: insertTemplate.maxTokens ?? 1000,
+      topP: insertTemplate.topP ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.promptTemplates.set(id, template);
+    return template;
+  }
+
+  async getPromptTemplates(projectId: string): Promise<PromptTemplate[]> {
+    return Array.from(this.promptTemplates.values())
+      .filter((template) => template.projectId === projectId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPromptTemplateById(id: string): Promise<PromptTemplate | undefined> {
+    return this.promptTemplates.get(id);
+  }
+
+  async updatePromptTemplate(id: string, updates: Partial<InsertPromptTemplate>): Promise<PromptTemplate | undefined> {
+    const template = this.promptTemplates.get(id);
+    if (!template) return undefined;
+
+    const duplicate = updates.name !== undefined && Array.from(this.promptTemplates.values()).some((other) =>
+      other.id !== id && other.projectId === template.projectId && other.name === updates.name
+    );
+    if (duplicate) {
+      throw new Error(`A prompt template named ${updates.name} already exists`);
+    }
+
+    const updatedTemplate = { ...template, ...updates, updatedAt: new Date() };
+    this.promptTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async deletePromptTemplate(id: string): Promise<boolean> {
+    return this.promptTemplates.delete(id);
+  }
+
+  async createQuery(projectId: string, insertQuery: InsertQuery): Promise<Query> {
     const id = randomUUID();
     const query: Query = {
       ...insertQuery,
       id,
+      projectId,
+      searchQuery: null,
       embedding: null,
       response: null,
       contextDocuments: null,
@@ -92,8 +648,8 @@ export class MemStorage implements IStorage {
     return query;
   }
 
-  async getQueries(): Promise<Query[]> {
-    return Array.from(this.queries.values());
+  async getQueries(projectId: string): Promise<Query[]> {
+    return Array.from(this.queries.values()).filter((query) => query.projectId === projectId);
   }
 
   async updateQuery(id: string, updates: Partial<Query>): Promise<Query | undefined> {
@@ -105,6 +661,69 @@ export class MemStorage implements IStorage {
     return updatedQuery;
   }
 
+  async createConversation(projectId: string, insertConversation: InsertConversation): Promise<Conversation> {
+    const id = randomUUID();
+    const conversation: Conversation = {
+      id,
+      projectId,
+      title: insertConversation.title ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.conversations.set(id, conversation);
+    return conversation;
+  }
+
+  async getConversations(projectId: string): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter((conversation) => conversation.projectId === projectId)
+      .sort((a, b) =>
+      (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0)
+    );
+  }
+
+  async getConversationById(id: string): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
+
+    const updatedConversation = { ...conversation, ...updates, updatedAt: new Date() };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    const id = randomUUID();
+    const message: Message = {
+      ...insertMessage,
+      id,
+      queryId: insertMessage.queryId ?? null,
+      createdAt: new Date(),
+    };
+    this.messages.set(id, message);
+    await this.updateConversation(insertMessage.conversationId, {});
+    return message;
+  }
+
+  async getMessages(conversationId: string): Promise<Message[]> {
+    return Array.from(this.messages.values())
+      .filter((message) => message.conversationId === conversationId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async getIndexSettings(projectId: string): Promise<IndexSettings | undefined> {
+    return this.indexSettings.get(projectId);
+  }
+
+  async saveIndexSettings(projectId: string, settings: Pick<IndexSettings, 'embeddingModel' | 'dimensions'>): Promise<IndexSettings> {
+    const saved = { ...settings, id: projectId, updatedAt: new Date() };
+    this.indexSettings.set(projectId, saved);
+    return saved;
+  }
+
   async createApiLog(log: Omit<ApiLog, 'id' | 'timestamp'>): Promise<ApiLog> {
     const id = randomUUID();
     const apiLog: ApiLog = {
@@ -116,15 +735,466 @@ export class MemStorage implements IStorage {
     return apiLog;
   }
 
-  async getApiLogs(): Promise<ApiLog[]> {
-    return Array.from(this.apiLogs.values()).sort((a, b) => 
-      (b.timestamp?.getTime() || 0) - (a.timestamp?.getTime() || 0)
-    );
+  async getApiLogs(projectId: string): Promise<ApiLog[]> {
+    return Array.from(this.apiLogs.values())
+      .filter((log) => log.projectId === projectId)
+      .sort((a, b) => 
+        (b.timestamp?.getTime() || 0) - (a.timestamp?.getTime() || 0)
+      );
+  }
+
+  async clearApiLogs(projectId: string): Promise<void> {
+    for (const log of Array.from(this.apiLogs.values())) {
+      if (log.projectId === projectId) this.apiLogs.delete(log.id);
+    }
+  }
+}
+
+// Unique index violations are reported with the same messages MemStorage uses
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, sessionStore?: session.Store) {
+    this.sessionStore = sessionStore ?? new PostgresSessionStore({ pool: db.$client, createTableIfMissing: true });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createProject(ownerId: string, insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values({ ...insertProject, ownerId }).returning();
+    return project;
+  }
+
+  async getProjects(ownerId?: string): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(ownerId === undefined ? undefined : eq(projects.ownerId, ownerId))
+      .orderBy(asc(projects.createdAt));
+  }
+
+  async getProjectById(id: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async updateProject(id: string, updates: Partial<InsertProject>): Promise<Project | undefined> {
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  // Everything the project owns goes with it through ON DELETE CASCADE
+  async deleteProject(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(projects).where(eq(projects.id, id)).returning({ id: projects.id });
+    return deleted.length > 0;
+  }
+
+  async createDocument(projectId: string, insertDocument: InsertDocument): Promise<Document> {
+    const [document] = await this.db.insert(documents).values({ ...insertDocument, projectId }).returning();
+    return document;
+  }
+
+  async getDocuments(projectId: string): Promise<Document[]> {
+    return this.db.select().from(documents).where(eq(documents.projectId, projectId));
+  }
+
+  async getDocumentById(id: string): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined> {
+    const [document] = await this.db
+      .update(documents)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(documents.id, id))
+      .returning();
+    return document;
+  }
+
+  // Chunks and versions go with the document through ON DELETE CASCADE
+  async deleteDocument(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(documents).where(eq(documents.id, id)).returning({ id: documents.id });
+    return deleted.length > 0;
+  }
+
+  // Chunks and versions go with their documents through ON DELETE CASCADE
+  async clearDocuments(projectId: string): Promise<void> {
+    await this.db.delete(documents).where(and(
+      eq(documents.projectId, projectId),
+      sql`${documents.metadata}->>'source' IS DISTINCT FROM ${ENTITY_PROFILE_SOURCE}`,
+    ));
+  }
+
+  async createDocumentVersion(insertVersion: InsertDocumentVersion): Promise<DocumentVersion> {
+    const [version] = await this.db.insert(documentVersions).values(insertVersion).returning();
+    return version;
+  }
+
+  async getDocumentVersions(parentId: string): Promise<DocumentVersion[]> {
+    return this.db
+      .select()
+      .from(documentVersions)
+      .where(eq(documentVersions.parentId, parentId))
+      .orderBy(desc(documentVersions.version));
+  }
+
+  async getDocumentVersion(parentId: string, version: number): Promise<DocumentVersion | undefined> {
+    const [documentVersion] = await this.db
+      .select()
+      .from(documentVersions)
+      .where(and(eq(documentVersions.parentId, parentId), eq(documentVersions.version, version)));
+    return documentVersion;
+  }
+
+  async createDocumentChunks(insertChunks: InsertDocumentChunk[]): Promise<DocumentChunk[]> {
+    if (insertChunks.length === 0) return [];
+    return this.db.insert(documentChunks).values(insertChunks).returning();
+  }
+
+  async getDocumentChunks(parentId: string): Promise<DocumentChunk[]> {
+    return this.db
+      .select()
+      .from(documentChunks)
+      .where(eq(documentChunks.parentId, parentId))
+      .orderBy(asc(documentChunks.chunkIndex));
+  }
+
+  async updateChunkEmbedding(id: string, embedding: ChunkEmbedding): Promise<DocumentChunk | undefined> {
+    const [chunk] = await this.db.update(documentChunks).set(embedding).where(eq(documentChunks.id, id)).returning();
+    return chunk;
+  }
+
+  async deleteDocumentChunks(parentId: string): Promise<void> {
+    await this.db.delete(documentChunks).where(eq(documentChunks.parentId, parentId));
+  }
+
+  async createEntity(projectId: string, insertEntity: InsertEntity): Promise<Entity> {
+    const [entity] = await this.db.insert(entities).values({ ...insertEntity, projectId }).returning();
+    return entity;
+  }
+
+  async getEntities(projectId: string): Promise<Entity[]> {
+    return this.db.select().from(entities).where(eq(entities.projectId, projectId)).orderBy(asc(entities.name));
+  }
+
+  async getEntityById(id: string): Promise<Entity | undefined> {
+    const [entity] = await this.db.select().from(entities).where(eq(entities.id, id));
+    return entity;
+  }
+
+  async updateEntity(id: string, updates: Partial<Entity>): Promise<Entity | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [entity] = await this.db
+      .update(entities)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(entities.id, id))
+      .returning();
+    return entity;
+  }
+
+  // Relationships go with the entity through ON DELETE CASCADE
+  async deleteEntity(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(entities).where(eq(entities.id, id)).returning({ id: entities.id });
+    return deleted.length > 0;
+  }
+
+  async createEntityRelationship(
+    projectId: string,
+    insertRelationship: InsertEntityRelationship & Partial<Pick<EntityRelationship, "origin" | "sourceDocumentId" | "evidence">>,
+  ): Promise<EntityRelationship> {
+    // The unique index only sees one direction, so reversed symmetric relationships are checked here
+    const existing = await this.getRelationshipsForEntity(insertRelationship.sourceId);
+    if (existing.some(relationship => sameRelationship(relationship, insertRelationship))) {
+      throw new Error("This relationship already exists");
+    }
+
+    try {
+      const [relationship] = await this.db
+        .insert(entityRelationships)
+        .values({ ...insertRelationship, projectId })
+        .returning();
+      return relationship;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new Error("This relationship already exists");
+      throw error;
+    }
+  }
+
+  async getEntityRelationships(projectId: string): Promise<EntityRelationship[]> {
+    return this.db.select().from(entityRelationships).where(eq(entityRelationships.projectId, projectId));
+  }
+
+  async getRelationshipsForEntity(entityId: string): Promise<EntityRelationship[]> {
+    return this.db
+      .select()
+      .from(entityRelationships)
+      .where(or(eq(entityRelationships.sourceId, entityId), eq(entityRelationships.targetId, entityId)));
+  }
+
+  async getEntityRelationshipById(id: string): Promise<EntityRelationship | undefined> {
+    const [relationship] = await this.db.select().from(entityRelationships).where(eq(entityRelationships.id, id));
+    return relationship;
+  }
+
+  async deleteEntityRelationship(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(entityRelationships)
+      .where(eq(entityRelationships.id, id))
+      .returning({ id: entityRelationships.id });
+    return deleted.length > 0;
+  }
+
+  async createDocumentExtraction(projectId: string, insertExtraction: InsertDocumentExtraction): Promise<DocumentExtraction> {
+    const [extraction] = await this.db.insert(documentExtractions).values({ ...insertExtraction, projectId }).returning();
+    return extraction;
+  }
+
+  async getDocumentExtractions(sourceDocumentId: string): Promise<DocumentExtraction[]> {
+    return this.db
+      .select()
+      .from(documentExtractions)
+      .where(eq(documentExtractions.sourceDocumentId, sourceDocumentId))
+      .orderBy(desc(documentExtractions.createdAt));
+  }
+
+  async updateDocumentExtraction(id: string, updates: Partial<DocumentExtraction>): Promise<DocumentExtraction | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [extraction] = await this.db
+      .update(documentExtractions)
+      .set(changes)
+      .where(eq(documentExtractions.id, id))
+      .returning();
+    return extraction;
+  }
+
+  async createEntityCandidate(projectId: string, insertCandidate: InsertEntityCandidate): Promise<EntityCandidate> {
+    const [candidate] = await this.db.insert(entityCandidates).values({ ...insertCandidate, projectId }).returning();
+    return candidate;
+  }
+
+  async getEntityCandidates(projectId: string): Promise<EntityCandidate[]> {
+    return this.db
+      .select()
+      .from(entityCandidates)
+      .where(eq(entityCandidates.projectId, projectId))
+      .orderBy(desc(entityCandidates.createdAt));
+  }
+
+  async getEntityCandidateById(id: string): Promise<EntityCandidate | undefined> {
+    const [candidate] = await this.db.select().from(entityCandidates).where(eq(entityCandidates.id, id));
+    return candidate;
+  }
+
+  async updateEntityCandidate(id: string, updates: Partial<EntityCandidate>): Promise<EntityCandidate | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [candidate] = await this.db
+      .update(entityCandidates)
+      .set(changes)
+      .where(eq(entityCandidates.id, id))
+      .returning();
+    return candidate;
+  }
+
+  async deletePendingEntityCandidates(sourceDocumentId: string): Promise<void> {
+    await this.db
+      .delete(entityCandidates)
+      .where(and(eq(entityCandidates.sourceDocumentId, sourceDocumentId), eq(entityCandidates.status, "pending")));
+  }
+
+  async createTimelineEvent(
+    projectId: string,
+    insertEvent: InsertTimelineEvent & Partial<Pick<TimelineEvent, "origin" | "sourceDocumentId">>,
+  ): Promise<TimelineEvent> {
+    const [event] = await this.db.insert(timelineEvents).values({ ...insertEvent, projectId }).returning();
+    return event;
+  }
+
+  async getTimelineEvents(projectId: string): Promise<TimelineEvent[]> {
+    return this.db.select().from(timelineEvents).where(eq(timelineEvents.projectId, projectId));
+  }
+
+  async getTimelineEventById(id: string): Promise<TimelineEvent | undefined> {
+    const [event] = await this.db.select().from(timelineEvents).where(eq(timelineEvents.id, id));
+    return event;
+  }
+
+  async updateTimelineEvent(id: string, updates: Partial<TimelineEvent>): Promise<TimelineEvent | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [event] = await this.db
+      .update(timelineEvents)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(timelineEvents.id, id))
+      .returning();
+    return event;
+  }
+
+  // The foreign key only clears the anchor, so the relation and offset are cleared here too
+  async deleteTimelineEvent(id: string): Promise<boolean> {
+    await this.db
+      .update(timelineEvents)
+      .set({ anchorEventId: null, relation: null, offsetYears: null })
+      .where(eq(timelineEvents.anchorEventId, id));
+    const deleted = await this.db.delete(timelineEvents).where(eq(timelineEvents.id, id)).returning({ id: timelineEvents.id });
+    return deleted.length > 0;
+  }
+
+  async deleteExtractedTimelineEvents(sourceDocumentId: string): Promise<void> {
+    const extracted = await this.db
+      .select({ id: timelineEvents.id })
+      .from(timelineEvents)
+      .where(and(eq(timelineEvents.sourceDocumentId, sourceDocumentId), eq(timelineEvents.origin, "extracted")));
+    for (const { id } of extracted) {
+      await this.deleteTimelineEvent(id);
+    }
+  }
+
+  async createPromptTemplate(projectId: string, insertTemplate: InsertPromptTemplate): Promise<PromptTemplate> {
+    try {
+      const [template] = await this.db.insert(promptTemplates).values({ ...insertTemplate, projectId }).returning();
+      return template;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new Error(`A prompt template named ${insertTemplate.name} already exists`);
+      throw error;
+    }
+  }
+
+  async getPromptTemplates(projectId: string): Promise<PromptTemplate[]> {
+    return this.db.select().from(promptTemplates).where(eq(promptTemplates.projectId, projectId)).orderBy(asc(promptTemplates.name));
+  }
+
+  async getPromptTemplateById(id: string): Promise<PromptTemplate | undefined> {
+    const [template] = await this.db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return template;
+  }
+
+  async updatePromptTemplate(id: string, updates: Partial<InsertPromptTemplate>): Promise<PromptTemplate | undefined> {
+    try {
+      const [template] = await this.db
+        .update(promptTemplates)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(promptTemplates.id, id))
+        .returning();
+      return template;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new Error(`A prompt template named ${updates.name} already exists`);
+      throw error;
+    }
+  }
+
+  async deletePromptTemplate(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(promptTemplates).where(eq(promptTemplates.id, id)).returning({ id: promptTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async createQuery(projectId: string, insertQuery: InsertQuery): Promise<Query> {
+    const [query] = await this.db.insert(queries).values({ ...insertQuery, projectId }).returning();
+    return query;
+  }
+
+  async getQueries(projectId: string): Promise<Query[]> {
+    return this.db.select().from(queries).where(eq(queries.projectId, projectId));
+  }
+
+  async updateQuery(id: string, updates: Partial<Query>): Promise<Query | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [query] = await this.db.update(queries).set(changes).where(eq(queries.id, id)).returning();
+    return query;
+  }
+
+  async createConversation(projectId: string, insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await this.db.insert(conversations).values({ ...insertConversation, projectId }).returning();
+    return conversation;
+  }
+
+  async getConversations(projectId: string): Promise<Conversation[]> {
+    return this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.projectId, projectId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+
+  async getConversationById(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await this.db.insert(messages).values(insertMessage).returning();
+    await this.updateConversation(insertMessage.conversationId, {});
+    return message;
+  }
+
+  async getMessages(conversationId: string): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(asc(messages.createdAt));
+  }
+
+  async getIndexSettings(projectId: string): Promise<IndexSettings | undefined> {
+    const [settings] = await this.db.select().from(indexSettings).where(eq(indexSettings.id, projectId));
+    return settings;
+  }
+
+  async saveIndexSettings(projectId: string, settings: Pick<IndexSettings, 'embeddingModel' | 'dimensions'>): Promise<IndexSettings> {
+    const values = { ...settings, updatedAt: new Date() };
+    const [saved] = await this.db
+      .insert(indexSettings)
+      .values({ id: projectId, ...values })
+      .onConflictDoUpdate({ target: indexSettings.id, set: values })
+      .returning();
+    return saved;
+  }
+
+  async createApiLog(log: Omit<ApiLog, 'id' | 'timestamp'>): Promise<ApiLog> {
+    const [apiLog] = await this.db.insert(apiLogs).values(log).returning();
+    return apiLog;
+  }
+
+  async getApiLogs(projectId: string): Promise<ApiLog[]> {
+    return this.db.select().from(apiLogs).where(eq(apiLogs.projectId, projectId)).orderBy(desc(apiLogs.timestamp));
   }
 
-  async clearApiLogs(): Promise<void> {
-    this.apiLogs.clear();
+  async clearApiLogs(projectId: string): Promise<void> {
+    await this.db.delete(apiLogs).where(eq(apiLogs.projectId, projectId));
   }
 }
 
-export const storage = new MemStorage();
+// Use PostgreSQL when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(getDatabase())
+  : new MemStorage();
@@ -0,0 +1,42 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { vector } from "@electric-sql/pglite/vector";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+
+// drizzle-kit's ESM build cannot be loaded under tsx, so its CommonJS API is required instead
+const require = createRequire(import.meta.url);
+const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+export interface TestDatabase {
+  client: PGlite;
+  db: Database;
+  // Empties every table, keeping the schema
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// An in-process PostgreSQL (PGlite with pgvector) holding the current schema, for tests.
+// With no schema given the database starts empty, e.g. to lay out an older schema by hand.
+export async function createTestDatabase(options: { schema?: boolean } = {}): Promise<TestDatabase> {
+  const client = new PGlite({ extensions: { vector } });
+  await client.exec("CREATE EXTENSION IF NOT EXISTS vector");
+
+  if (options.schema !== false) {
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of statements) {
+      await client.exec(statement);
+    }
+  }
+
+  return {
+    client,
+    // PGlite speaks the same Drizzle PostgreSQL dialect as the Neon driver
+    db: drizzle({ client, schema }) as unknown as Database,
+    reset: async () => {
+      await client.exec("TRUNCATE users, projects, api_logs, document_vectors CASCADE");
+    },
+    close: () => client.close(),
+  };
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, timestamp, jsonb, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, real, timestamp, jsonb, integer, vector, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,19 +9,194 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// A workspace (typically one novel) owning its own documents, queries, logs and vector namespace
+export const projects = pgTable("projects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   category: text("category").notNull(),
   documentId: text("document_id").notNull(),
   embedding: real("embedding").array(),
   metadata: jsonb("metadata"),
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Snapshot of every saved state of a document, kept for diffing and rollback
+export const documentVersions = pgTable("document_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  parentId: varchar("parent_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  content: text("content").notNull(),
+  category: text("category").notNull(),
+  documentId: text("document_id").notNull(),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("document_versions_parent_version_idx").on(table.parentId, table.version),
+]);
+
+// Each document is split into chunks on ingest; chunks are what get embedded and searched
+export const documentChunks = pgTable("document_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  parentId: varchar("parent_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  startOffset: integer("start_offset").notNull(),
+  endOffset: integer("end_offset").notNull(),
+  embedding: real("embedding").array(),
+  embeddingModel: text("embedding_model"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Width of every stored embedding, whichever model produced it
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// Vector index used when VECTOR_STORE=pgvector (requires the pgvector extension)
+export const documentVectors = pgTable("document_vectors", {
+  id: varchar("id").primaryKey(),
+  // Project the vector belongs to; queries only ever see one namespace
+  namespace: text("namespace").notNull().default(""),
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+  category: text("category"),
+  documentId: text("document_id"),
+  metadata: jsonb("metadata").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("document_vectors_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+  index("document_vectors_namespace_idx").on(table.namespace),
+]);
+
+// Story bible entry: a character, location, organization or artifact with typed profile
+// fields. Each entity is rendered to text and kept as a profile document so it is searchable.
+export const entities = pgTable("entities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  type: text("type").notNull(),
+  name: text("name").notNull(),
+  aliases: text("aliases").array().notNull().default(sql`'{}'::text[]`),
+  summary: text("summary"),
+  fields: jsonb("fields").$type<Record<string, string>>().notNull().default({}),
+  profileDocumentId: varchar("profile_document_id").references(() => documents.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Directed relationship between two entities, read as "<source> <type> <target>"
+export const entityRelationships = pgTable("entity_relationships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  sourceId: varchar("source_id").notNull().references(() => entities.id, { onDelete: "cascade" }),
+  targetId: varchar("target_id").notNull().references(() => entities.id, { onDelete: "cascade" }),
+  type: text("type").notNull(),
+  description: text("description"),
+  // "manual" or "extracted"; a document's extracted relationships are replaced when it is extracted again
+  origin: text("origin").notNull().default("manual"),
+  sourceDocumentId: varchar("source_document_id").references(() => documents.id, { onDelete: "set null" }),
+  // The sentence of the source document that states the relationship
+  evidence: text("evidence"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("entity_relationships_source_target_type_idx").on(table.sourceId, table.targetId, table.type),
+]);
+
+// One run of entity extraction over a version of a document, with the validated answer
+export const documentExtractions = pgTable("document_extractions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  sourceDocumentId: varchar("source_document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  documentVersion: integer("document_version").notNull(),
+  // "pending" while the chat model is working, then "completed" or "failed"
+  status: text("status").notNull().default("pending"),
+  model: text("model").notNull(),
+  result: jsonb("result").$type<ExtractionResult>(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// A character or place found by an extraction, held for review until the writer adds it
+// to the story bible, merges it into an existing entity or dismisses it
+export const entityCandidates = pgTable("entity_candidates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  extractionId: varchar("extraction_id").notNull().references(() => documentExtractions.id, { onDelete: "cascade" }),
+  sourceDocumentId: varchar("source_document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  type: text("type").notNull(),
+  name: text("name").notNull(),
+  aliases: text("aliases").array().notNull().default(sql`'{}'::text[]`),
+  summary: text("summary"),
+  fields: jsonb("fields").$type<Record<string, string>>().notNull().default({}),
+  evidence: text("evidence"),
+  status: text("status").notNull().default("pending"),
+  // While pending, an existing entity with the same name or alias; once resolved, the
+  // entity the candidate was added as or merged into
+  entityId: varchar("entity_id").references(() => entities.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Something that happens in the story's chronology. It is placed in absolute years, relative
+// to another event ("3 years after the wedding"), or both, in which case the two must agree.
+// Participants are names, matched to story bible entities by name or alias when the timeline is solved.
+export const timelineEvents = pgTable("timeline_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull().default("event"),
+  title: text("title").notNull(),
+  description: text("description"),
+  participants: text("participants").array().notNull().default(sql`'{}'::text[]`),
+  location: text("location"),
+  // Participants' ages at the time, keyed by name
+  ages: jsonb("ages").$type<Record<string, number>>().notNull().default({}),
+  // The time as the source puts it, e.g. "Summer 2009" or "after college"
+  when: text("when"),
+  startYear: integer("start_year"),
+  endYear: integer("end_year"),
+  durationYears: real("duration_years"),
+  anchorEventId: varchar("anchor_event_id").references((): AnyPgColumn => timelineEvents.id, { onDelete: "set null" }),
+  relation: text("relation"),
+  offsetYears: real("offset_years"),
+  // "extracted" events are replaced when their source document is extracted again; editing one makes it "manual"
+  origin: text("origin").notNull().default("manual"),
+  sourceDocumentId: varchar("source_document_id").references(() => documents.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A named prompt for RAG chat: a system message and a user message template with
+// {context}, {query} and {conversation} placeholders, and the sampling parameters to use
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  systemMessage: text("system_message"),
+  userTemplate: text("user_template").notNull(),
+  temperature: real("temperature").notNull().default(0.7),
+  maxTokens: integer("max_tokens").notNull().default(1000),
+  topP: real("top_p"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("prompt_templates_project_name_idx").on(table.projectId, table.name),
+]);
+
 export const queries = pgTable("queries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
   query: text("query").notNull(),
+  searchQuery: text("search_query"),
   embedding: real("embedding").array(),
   response: text("response"),
   contextDocuments: jsonb("context_documents"),
@@ -31,8 +206,36 @@ export const queries = pgTable("queries", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  title: text("title"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One user and one assistant message per turn, both pointing at the query record for that turn
+export const messages = pgTable("messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  queryId: varchar("query_id").references(() => queries.id, { onDelete: "set null" }),
+  role: text("role").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Vector index settings, one row per project keyed by the project id; every vector
+// in the project's namespace must come from this model
+export const indexSettings = pgTable("index_settings", {
+  id: varchar("id").primaryKey().references(() => projects.id, { onDelete: "cascade" }),
+  embeddingModel: text("embedding_model").notNull(),
+  dimensions: integer("dimensions").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const apiLogs = pgTable("api_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }),
   method: text("method").notNull(),
   endpoint: text("endpoint").notNull(),
   status: integer("status").notNull(),
@@ -40,6 +243,13 @@ export const apiLogs = pgTable("api_logs", {
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+export const insertProjectSchema = createInsertSchema(projects, {
+  name: z.string().trim().min(1, "Project name is required").max(100),
+}).pick({
+  name: true,
+  description: true,
+});
+
 export const insertDocumentSchema = createInsertSchema(documents).pick({
   content: true,
   category: true,
@@ -47,19 +257,474 @@ export const insertDocumentSchema = createInsertSchema(documents).pick({
   metadata: true,
 });
 
+// Story bible entity profiles live in the knowledge base as documents with this source.
+// They belong to their entity, so clearing the knowledge base keeps them.
+export const ENTITY_PROFILE_SOURCE = "story-bible";
+
+export function isEntityProfile(document: { metadata: unknown }): boolean {
+  return (document.metadata as Record<string, unknown> | null)?.source === ENTITY_PROFILE_SOURCE;
+}
+
+// PUT replaces a whole document, so metadata left out is cleared rather than kept
+export const replaceDocumentSchema = insertDocumentSchema.transform(document => ({
+  ...document,
+  metadata: document.metadata ?? null,
+}));
+
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDocumentChunkSchema = createInsertSchema(documentChunks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const chunkingOptionsSchema = z.object({
+  strategy: z.enum(["fixed", "paragraph", "sentence"]).default("paragraph"),
+  maxTokens: z.number().int().positive().default(300),
+  overlap: z.number().int().min(0).default(50),
+  windowSize: z.number().int().positive().default(5),
+});
+
+// Pinecone-style metadata filter, e.g. { category: "characters" } or
+// { $or: [{ documentId: { $in: ["book-1", "book-2"] } }, { chunkIndex: { $gt: 3 } }] }
+export type FilterValue = string | number | boolean;
+export type FilterCondition = FilterValue | {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $in?: FilterValue[];
+  $nin?: FilterValue[];
+  $exists?: boolean;
+};
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  [field: string]: FilterCondition | MetadataFilter[] | undefined;
+}
+
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+const filterConditionSchema = z.union([
+  filterValueSchema,
+  z.object({
+    $eq: filterValueSchema,
+    $ne: filterValueSchema,
+    $gt: z.union([z.number(), z.string()]),
+    $gte: z.union([z.number(), z.string()]),
+    $lt: z.union([z.number(), z.string()]),
+    $lte: z.union([z.number(), z.string()]),
+    $in: z.array(filterValueSchema),
+    $nin: z.array(filterValueSchema),
+    $exists: z.boolean(),
+  }).partial().strict(),
+]);
+
+export const metadataFilterSchema: z.ZodType<MetadataFilter> = z.lazy(() =>
+  z.record(z.string(), z.unknown()).superRefine((filter, ctx) => {
+    for (const [key, value] of Object.entries(filter)) {
+      const schema = key === "$and" || key === "$or"
+        ? z.array(metadataFilterSchema)
+        : key.startsWith("$") ? z.never({ message: `Unsupported filter operator ${key}` }) : filterConditionSchema;
+      const result = schema.safeParse(value);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ ...issue, path: [key, ...issue.path] });
+        }
+      }
+    }
+  }) as z.ZodType<MetadataFilter>
+);
+
+export const retrievalOptionsSchema = z.object({
+  mode: z.enum(["vector", "hybrid"]).default("vector"),
+  // Share of the fused ranking given to vector similarity; the rest goes to BM25
+  vectorWeight: z.number().min(0).max(1).default(0.5),
+  reranker: z.enum(["none", "lexical", "llm"]).default("none"),
+  // How many candidates are fetched for the reranker to reorder before keeping topK
+  rerankCandidates: z.number().int().positive().max(100).default(20),
+  // Add what the story bible says about characters related to the ones the query names
+  expandRelated: z.boolean().default(false),
+});
+
+export const entityTypes = ["character", "location", "organization", "artifact"] as const;
+export type EntityType = typeof entityTypes[number];
+
+export interface EntityFieldDefinition {
+  key: string;
+  label: string;
+  // Prose fields get a multi-line editor and their own paragraph in the rendered profile
+  multiline?: boolean;
+}
+
+// Profile fields for each entity type, in display order. Values are free text so
+// answers like "Apparent: 40s, actual: over 100" fit.
+export const entityFieldDefinitions: Record<EntityType, EntityFieldDefinition[]> = {
+  character: [
+    { key: "fullName", label: "Full Name" },
+    { key: "age", label: "Age" },
+    { key: "occupation", label: "Occupation" },
+    { key: "physicalDescription", label: "Physical Description", multiline: true },
+    { key: "personality", label: "Personality", multiline: true },
+    { key: "background", label: "Background", multiline: true },
+    { key: "motivations", label: "Motivations", multiline: true },
+    { key: "abilities", label: "Skills and Abilities", multiline: true },
+  ],
+  location: [
+    { key: "kind", label: "Kind of Place" },
+    { key: "region", label: "Region" },
+    { key: "description", label: "Description", multiline: true },
+    { key: "history", label: "History", multiline: true },
+    { key: "notableFeatures", label: "Notable Features", multiline: true },
+  ],
+  organization: [
+    { key: "kind", label: "Kind of Organization" },
+    { key: "headquarters", label: "Headquarters" },
+    { key: "purpose", label: "Purpose", multiline: true },
+    { key: "structure", label: "Leadership and Structure", multiline: true },
+    { key: "history", label: "History", multiline: true },
+  ],
+  artifact: [
+    { key: "kind", label: "Kind of Artifact" },
+    { key: "currentLocation", label: "Current Location" },
+    { key: "description", label: "Description", multiline: true },
+    { key: "origin", label: "Origin", multiline: true },
+    { key: "powers", label: "Powers and Properties", multiline: true },
+  ],
+};
+
+export const insertEntitySchema = createInsertSchema(entities, {
+  type: z.enum(entityTypes),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+  fields: z.record(z.string(), z.string()).default({}),
+}).pick({
+  type: true,
+  name: true,
+  aliases: true,
+  summary: true,
+  fields: true,
+}).superRefine((entity, ctx) => {
+  const known = new Set(entityFieldDefinitions[entity.type].map(field => field.key));
+  for (const key of Object.keys(entity.fields)) {
+    if (!known.has(key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fields", key], message: `Unknown ${entity.type} field ${key}` });
+    }
+  }
+});
+
+export const relationshipTypes = [
+  "spouse_of", "parent_of", "sibling_of", "relative_of", "romantic_partner_of",
+  "mentor_of", "ally_of", "rival_of", "enemy_of", "works_with",
+  "member_of", "leader_of", "lives_in", "located_in", "owns", "created", "related_to",
+] as const;
+export type RelationshipType = typeof relationshipTypes[number];
+
+// How each relationship reads between the two names, e.g. "Keda is a mentor to Alec"
+export const relationshipLabels: Record<RelationshipType, string> = {
+  spouse_of: "is married to",
+  parent_of: "is a parent of",
+  sibling_of: "is a sibling of",
+  relative_of: "is related by family to",
+  romantic_partner_of: "is romantically involved with",
+  mentor_of: "is a mentor to",
+  ally_of: "is an ally of",
+  rival_of: "is a rival of",
+  enemy_of: "is an enemy of",
+  works_with: "works with",
+  member_of: "is a member of",
+  leader_of: "leads",
+  lives_in: "lives in",
+  located_in: "is located in",
+  owns: "owns",
+  created: "created",
+  related_to: "is connected to",
+};
+
+// Relationships that read the same in both directions, so "A is married to B" and
+// "B is married to A" are one relationship
+export const symmetricRelationshipTypes: readonly RelationshipType[] = [
+  "spouse_of", "sibling_of", "relative_of", "romantic_partner_of",
+  "ally_of", "rival_of", "enemy_of", "works_with", "related_to",
+];
+
+// Whether two relationships state the same thing, reading symmetric types both ways
+export function sameRelationship(
+  a: { sourceId: string; targetId: string; type: string },
+  b: { sourceId: string; targetId: string; type: string },
+): boolean {
+  if (a.type !== b.type) return false;
+  if (a.sourceId === b.sourceId && a.targetId === b.targetId) return true;
+  return symmetricRelationshipTypes.includes(a.type as RelationshipType) && a.sourceId === b.targetId && a.targetId === b.sourceId;
+}
+
+export const insertEntityRelationshipSchema = createInsertSchema(entityRelationships, {
+  type: z.enum(relationshipTypes),
+}).pick({
+  sourceId: true,
+  targetId: true,
+  type: true,
+  description: true,
+}).refine(relationship => relationship.sourceId !== relationship.targetId, {
+  message: "An entity cannot be related to itself",
+  path: ["targetId"],
+});
+
+// Phases span years ("College Years"); births and deaths bound when a character can take part in events
+export const timelineEventKinds = ["event", "phase", "birth", "death"] as const;
+export type TimelineEventKind = typeof timelineEventKinds[number];
+
+// How an event is placed against its anchor event
+export const timelineRelations = ["before", "after", "during"] as const;
+export type TimelineRelation = typeof timelineRelations[number];
+
+const extractedName = z.string().trim().min(1).max(200);
+const extractedNote = z.string().trim().nullish();
+
+// A character or place as the chat model reports it. Field keys follow
+// entityFieldDefinitions; keys the story bible does not know are dropped on review.
+const extractedEntitySchema = z.object({
+  name: extractedName,
+  aliases: z.array(extractedName).default([]),
+  summary: extractedNote,
+  fields: z.record(z.string(), z.union([z.string(), z.number()]).transform(String)).default({}),
+  // The sentence the entity was found in
+  evidence: extractedNote,
+});
+
+// What the chat model must return for a passage of prose. Every list may be empty,
+// and an unknown relationship type falls back to "related_to" rather than failing.
+export const extractionResultSchema = z.object({
+  characters: z.array(extractedEntitySchema).default([]),
+  places: z.array(extractedEntitySchema).default([]),
+  dates: z.array(z.object({
+    date: extractedName,
+    description: z.string().trim().min(1),
+    evidence: extractedNote,
+  })).default([]),
+  relationships: z.array(z.object({
+    source: extractedName,
+    target: extractedName,
+    type: z.enum(relationshipTypes).catch("related_to"),
+    description: extractedNote,
+    evidence: extractedNote,
+  })).default([]),
+  events: z.array(z.object({
+    title: extractedNote,
+    kind: z.enum(timelineEventKinds).catch("event"),
+    description: z.string().trim().min(1),
+    participants: z.array(extractedName).default([]),
+    location: extractedNote,
+    when: extractedNote,
+    startYear: z.number().int().nullish().catch(null),
+    endYear: z.number().int().nullish().catch(null),
+    durationYears: z.number().positive().nullish().catch(null),
+    // Title of another event in the passage this one is placed against
+    relativeTo: extractedNote,
+    relation: z.enum(timelineRelations).nullish().catch(null),
+    offsetYears: z.number().min(0).nullish().catch(null),
+    ages: z.record(z.string(), z.number().min(0)).catch({}).default({}),
+    evidence: extractedNote,
+  })).default([]),
+});
+
+export const entityCandidateStatuses = ["pending", "accepted", "merged", "dismissed"] as const;
+export type EntityCandidateStatus = typeof entityCandidateStatuses[number];
+
+export const insertDocumentExtractionSchema = createInsertSchema(documentExtractions).pick({
+  sourceDocumentId: true,
+  documentVersion: true,
+  model: true,
+});
+
+export const insertEntityCandidateSchema = createInsertSchema(entityCandidates, {
+  type: z.enum(entityTypes),
+  aliases: z.array(z.string()).default([]),
+  fields: z.record(z.string(), z.string()).default({}),
+}).pick({
+  extractionId: true,
+  sourceDocumentId: true,
+  type: true,
+  name: true,
+  aliases: true,
+  summary: true,
+  fields: true,
+  evidence: true,
+  entityId: true,
+});
+
+export const insertTimelineEventSchema = createInsertSchema(timelineEvents, {
+  kind: z.enum(timelineEventKinds).default("event"),
+  title: z.string().trim().min(1, "Title is required").max(200),
+  participants: z.array(z.string().trim().min(1)).default([]),
+  ages: z.record(z.string(), z.number().min(0)).default({}),
+  startYear: z.number().int().nullish(),
+  endYear: z.number().int().nullish(),
+  durationYears: z.number().positive().nullish(),
+  relation: z.enum(timelineRelations).nullish(),
+  offsetYears: z.number().min(0).nullish(),
+}).pick({
+  kind: true,
+  title: true,
+  description: true,
+  participants: true,
+  location: true,
+  ages: true,
+  when: true,
+  startYear: true,
+  endYear: true,
+  durationYears: true,
+  anchorEventId: true,
+  relation: true,
+  offsetYears: true,
+}).refine(event => !event.anchorEventId === !event.relation, {
+  message: "A relative placement needs both an anchor event and a relation",
+  path: ["relation"],
+});
+
+// A scene for the chat model to draft. Names are matched to story bible entities by
+// name or alias; anything unmatched is looked up in the knowledge base instead.
+export const sceneBriefSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+  pov: z.string().trim().min(1, "POV character is required"),
+  setting: z.string().trim().min(1, "Setting is required"),
+  participants: z.array(z.string().trim().min(1)).default([]),
+  beats: z.array(z.string().trim().min(1)).min(1, "At least one beat is required"),
+  targetWords: z.number().int().min(100).max(4000).default(800),
+});
+
+export const promptTemplateVariables = ["context", "query", "conversation"] as const;
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  systemMessage: z.string().nullish(),
+  userTemplate: z.string().refine(template => template.includes("{query}"), "The user template must include {query}"),
+  temperature: z.number().min(0).max(2).default(0.7),
+  maxTokens: z.number().int().min(1).max(16000).default(1000),
+  topP: z.number().gt(0).max(1).nullish(),
+}).pick({
+  name: true,
+  description: true,
+  systemMessage: true,
+  userTemplate: true,
+  temperature: true,
+  maxTokens: true,
+  topP: true,
+});
+
+export type PromptTemplateSettings = Pick<PromptTemplate, "name" | "systemMessage" | "userTemplate" | "temperature" | "maxTokens" | "topP">;
+
+// Used when no template is chosen; it is not stored and cannot be edited
+export const DEFAULT_PROMPT_TEMPLATE_ID = "default";
+export const defaultPromptTemplate: PromptTemplateSettings & { description: string } = {
+  name: "Default Q&A",
+  description: "Answers questions from the retrieved context with numbered citations",
+  systemMessage: null,
+  userTemplate: `Context from knowledge base:
+{context}
+
+User question: {query}
+
+Please provide a comprehensive answer based on the provided context. Each context passage is labelled with a number in square brackets; cite the passages that support a sentence by putting their numbers right after it, e.g. [1] or [2, 3]. Only cite numbers that appear in the context. If no relevant context is available, provide a helpful general answer without citations.`,
+  temperature: 0.7,
+  maxTokens: 1000,
+  topP: null,
+};
+
+export interface RenderedPrompt {
+  system: string | null;
+  user: string;
+  // When the template places {conversation} itself, earlier turns are not also sent as messages
+  usesConversation: boolean;
+}
+
+// Fill a template's placeholders. Shared by the server and the editor's live preview so
+// the preview shows exactly what is sent. Unknown {names} are left as written.
+export function renderPromptTemplate(
+  template: Pick<PromptTemplateSettings, "systemMessage" | "userTemplate">,
+  values: { query: string; context: string[]; conversation: Array<{ role: string; content: string }> },
+): RenderedPrompt {
+  const replacements: Record<typeof promptTemplateVariables[number], string> = {
+    query: values.query,
+    context: values.context.length > 0 ? values.context.join("\n\n") : "(no passages were retrieved)",
+    conversation: values.conversation.length > 0
+      ? values.conversation.map(turn => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`).join("\n")
+      : "(no earlier messages)",
+  };
+  const fill = (text: string) => text.replace(/\{(context|query|conversation)\}/g, (_match, name: keyof typeof replacements) => replacements[name]);
+  const system = template.systemMessage?.trim() ? fill(template.systemMessage) : null;
+
+  return {
+    system,
+    user: fill(template.userTemplate),
+    usesConversation: [template.systemMessage ?? "", template.userTemplate].some(text => text.includes("{conversation}")),
+  };
+}
+
 export const insertQuerySchema = createInsertSchema(queries).pick({
   query: true,
 });
 
+export const insertConversationSchema = createInsertSchema(conversations).pick({
+  title: true,
+});
+
+export const insertMessageSchema = createInsertSchema(messages, {
+  role: z.enum(["user", "assistant"]),
+}).pick({
+  conversationId: true,
+  queryId: true,
+  role: true,
+  content: true,
+});
+
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type Project = typeof projects.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentChunk = z.infer<typeof insertDocumentChunkSchema>;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+export type ChunkingOptions = z.infer<typeof chunkingOptionsSchema>;
+export type RetrievalOptions = z.infer<typeof retrievalOptionsSchema>;
+export type InsertEntity = z.infer<typeof insertEntitySchema>;
+export type Entity = typeof entities.$inferSelect;
+export type InsertEntityRelationship = z.infer<typeof insertEntityRelationshipSchema>;
+export type EntityRelationship = typeof entityRelationships.$inferSelect;
+export type ExtractionResult = z.infer<typeof extractionResultSchema>;
+export type InsertDocumentExtraction = z.infer<typeof insertDocumentExtractionSchema>;
+export type DocumentExtraction = typeof documentExtractions.$inferSelect;
+export type InsertEntityCandidate = z.infer<typeof insertEntityCandidateSchema>;
+export type EntityCandidate = typeof entityCandidates.$inferSelect;
+export type InsertTimelineEvent = z.infer<typeof insertTimelineEventSchema>;
+export type TimelineEvent = typeof timelineEvents.$inferSelect;
+export type SceneBrief = z.infer<typeof sceneBriefSchema>;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
 export type InsertQuery = z.infer<typeof insertQuerySchema>;
 export type Query = typeof queries.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type Message = typeof messages.$inferSelect;
+export type IndexSettings = typeof indexSettings.$inferSelect;
 export type ApiLog = typeof apiLogs.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserCredentials = z.infer<typeof userCredentialsSchema>;
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
+
+// What a client sends to register or log in; the password is hashed before it is stored
+export const userCredentialsSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});